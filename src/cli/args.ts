@@ -0,0 +1,642 @@
+import { parseArgs } from "util";
+import path from "path";
+import { BADGE_PRESETS } from "../service/badge_pdf";
+import {
+	SIGNATURE_ALGORITHMS,
+	SignatureAlgorithm,
+} from "../service/payload_signer";
+
+export const EXIT_CODES = {
+	OK: 0, // 全部處理成功
+	FAILURE: 1, // 處理過程中發生錯誤
+	USAGE: 2, // 參數錯誤
+	VALIDATION: 3, // --strict 時名單檢查未通過
+} as const;
+
+/**
+ * 參數錯誤，CLI 會顯示說明並以 EXIT_CODES.USAGE 結束
+ */
+export class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UsageError";
+	}
+}
+
+export interface SheetSpec {
+	worksheetName: string; // 工作表名稱
+	type: string; // QR Code 資料夾前綴 ({type}_qrcode)
+}
+
+export interface GenerateArgs {
+	config?: string; // 工作設定檔（絕對路徑）
+	input?: string; // 輸入 Excel 檔案（絕對路徑）
+	sheets: SheetSpec[]; // 要處理的工作表，指定時取代設定檔中的 jobs
+	out?: string; // 輸出 Excel 檔案（絕對路徑）
+	images?: string; // QR Code 圖片根目錄（絕對路徑）
+	force: boolean; // 忽略產生紀錄，全部重新產生
+	strict: boolean; // 名單檢查有錯誤時不產生 QR Code，並以 EXIT_CODES.VALIDATION 結束
+	concurrency?: number; // 同時產生的 QR Code 數
+	workerThreads?: boolean; // 以 worker_threads 產生 QR Code
+	keepBackups?: number; // 輸出檔保留的備份數，0 表示不備份
+	stream?: boolean; // 以串流讀寫 Excel（僅 .xlsx）
+	decodeCheck?: boolean; // 所有工作表都在插入前解碼驗證圖片
+}
+
+export interface VerifyArgs {
+	payload: string; // 掃描到的字串
+	config?: string; // 工作設定檔（絕對路徑），提供名單與簽章設定
+	input?: string; // 名單 Excel 檔案（絕對路徑）
+	sheets: SheetSpec[]; // 要查詢的工作表，指定時取代設定檔中的 jobs
+	algorithm?: SignatureAlgorithm; // 指定時取代設定檔中的簽章設定
+	keyFile?: string; // 金鑰檔（絕對路徑）
+	keyEnv?: string; // 金鑰環境變數名稱
+	event?: string; // 要求的活動標籤
+	json: boolean; // 以 JSON 輸出結果
+}
+
+export interface BadgesArgs {
+	config?: string; // 工作設定檔（絕對路徑）
+	input?: string; // 名單 Excel 檔案（絕對路徑）
+	sheets: SheetSpec[]; // 要排入的工作表，指定時取代設定檔中的 jobs
+	out?: string; // 輸出 PDF（絕對路徑）
+	preset?: string; // 標籤紙版型
+	columns?: number; // 每頁欄數，指定時依欄列數自動計算標籤尺寸
+	rows?: number; // 每頁列數
+	font?: string; // 字型檔（絕對路徑）
+	fontSize?: number; // 姓名字級 (pt)
+	cutLines?: boolean; // 是否畫出標籤外框
+}
+
+export interface ExportArgs {
+	config?: string; // 工作設定檔（絕對路徑）
+	input?: string; // 名單檔案（絕對路徑）
+	sheets: SheetSpec[]; // 要匯出的工作表，指定時取代設定檔中的 jobs
+	out?: string; // 輸出的 ZIP（絕對路徑）
+	images?: string; // QR Code 圖片根目錄（絕對路徑）
+	groupBy?: string; // 另外依此欄位的值分別輸出 ZIP
+}
+
+export interface RestoreArgs {
+	config?: string; // 工作設定檔（絕對路徑），提供 out 與 backup 設定
+	out?: string; // 要還原的 Excel 檔案（絕對路徑），優先於設定檔
+	backup?: string; // 備份檔名、路徑或時間戳記，未指定時使用最新的備份
+	list: boolean; // 只列出備份
+}
+
+export interface ServeArgs {
+	config?: string; // 工作設定檔（絕對路徑），提供 jobs 與 server 設定
+	host?: string; // 監聽位址
+	port?: number; // 連接埠，0 表示自動選擇
+	maxUploadMb?: number; // 上傳大小上限 (MB)
+	allowSigning?: boolean; // 允許以設有 signature 的工作簽發 QR Code
+}
+
+export type CliCommand =
+	| { command: "help"; topic?: string }
+	| { command: "generate"; args: GenerateArgs }
+	| { command: "verify"; args: VerifyArgs }
+	| { command: "badges"; args: BadgesArgs }
+	| { command: "export"; args: ExportArgs }
+	| { command: "restore"; args: RestoreArgs }
+	| { command: "serve"; args: ServeArgs };
+
+const MAIN_USAGE = `用法：qrcode-product <指令> [選項]
+
+指令：
+  generate    讀取 Excel 名單，產生 QR Code 並嵌入輸出的 Excel
+  verify      驗證掃描到的簽章 QR Code，並找出名單中的資料
+  badges      產生可列印的名牌標籤 PDF (A4)
+  export      將已產生的 QR Code 圖片打包為 ZIP（可依組別分開）
+  restore     從備份還原輸出的 Excel 檔案
+  serve       啟動 HTTP 服務（即時產生 QR Code、上傳名單處理）
+  help        顯示說明
+
+執行 "qrcode-product <指令> --help" 查看指令選項。`;
+
+const GENERATE_USAGE = `用法：qrcode-product generate --input <檔案> --sheet <工作表:類型> [選項]
+      qrcode-product generate --config <設定檔> [選項]
+
+選項：
+  -c, --config <設定檔>       工作設定檔 (JSON)，包含 input/out/images 與 jobs 清單
+  -i, --input <檔案>          輸入的名單 (.xlsx/.xls/.csv/.json)，優先於設定檔
+  -s, --sheet <工作表:類型>   要處理的工作表與 QR Code 資料夾前綴，可重複指定
+                              例如 --sheet 夥伴名單:member --sheet 眷屬名單:family
+                              指定時取代設定檔中的 jobs
+  -o, --out <檔案>            輸出的 Excel 檔案（預設：<輸入檔名>_with_qrcode.xlsx）
+      --images <資料夾>       QR Code 圖片根目錄（預設：輸入檔案所在資料夾）
+  -f, --force                 忽略產生紀錄，全部重新產生 QR Code
+  -j, --concurrency <數量>    同時產生的 QR Code 數（預設 4）
+      --worker-threads        以 worker threads 產生 QR Code（大量或有 Logo 時較快）
+      --strict                名單檢查有錯誤時不產生 QR Code（警告不影響）
+      --keep-backups <數量>   覆寫前備份輸出檔，保留最新的幾份（預設 5，0 表示不備份）
+      --stream                以串流讀寫 Excel，大型名單不將整個活頁簿載入記憶體（僅 .xlsx）
+      --decode-check          插入前解碼每張 QR Code 圖片，確認內容與預期相符
+  -h, --help                  顯示說明
+
+結束代碼：
+  0  全部處理成功
+  1  處理過程中發生錯誤
+  2  參數錯誤
+  3  名單檢查未通過 (--strict)`;
+
+const VERIFY_USAGE = `用法：qrcode-product verify --payload <字串> [選項]
+
+選項：
+  -p, --payload <字串>        掃描到的 QR Code 內容
+  -c, --config <設定檔>       工作設定檔，提供名單檔案、工作表與簽章設定
+  -i, --input <檔案>          名單 Excel 檔案，未指定時只驗證簽章
+  -s, --sheet <工作表:類型>   要查詢的工作表，可重複指定
+      --algorithm <演算法>    簽章演算法：${SIGNATURE_ALGORITHMS.join(", ")}
+      --key-file <檔案>       金鑰檔（HMAC 密鑰或 Ed25519 PEM）
+      --key-env <變數>        金鑰環境變數（預設 QRCODE_SIGNING_KEY）
+      --event <標籤>          要求的活動標籤
+      --json                  以 JSON 輸出結果
+  -h, --help                  顯示說明
+
+結束代碼：
+  0  驗證通過
+  1  驗證失敗或處理錯誤
+  2  參數錯誤`;
+
+const BADGES_USAGE = `用法：qrcode-product badges --input <檔案> --sheet <工作表:類型> [選項]
+      qrcode-product badges --config <設定檔> [選項]
+
+選項：
+  -c, --config <設定檔>       工作設定檔，提供名單、payload、簽章與 badges 設定
+  -i, --input <檔案>          名單檔案 (.xlsx/.xls/.csv/.json)，優先於設定檔
+  -s, --sheet <工作表:類型>   要排入的工作表，可重複指定
+  -o, --out <檔案>            輸出的 PDF（預設：<輸入檔名>_badges.pdf）
+      --preset <版型>         標籤紙版型：${Object.keys(BADGE_PRESETS).join(
+				", "
+			)}
+      --columns <數量>        每頁欄數，與 --rows 一起依 A4 自動計算標籤尺寸
+      --rows <數量>           每頁列數
+      --font <字型檔>         TTF/OTF 字型，中文姓名需要 CJK 字型（如 Noto Sans TC）
+      --font-size <pt>        姓名字級（預設 14）
+      --no-cut-lines          不畫標籤外框
+  -h, --help                  顯示說明
+
+結束代碼：
+  0  產生成功
+  1  處理過程中發生錯誤
+  2  參數錯誤`;
+
+const EXPORT_USAGE = `用法：qrcode-product export --input <檔案> --sheet <工作表:類型> [選項]
+      qrcode-product export --config <設定檔> [選項]
+
+選項：
+  -c, --config <設定檔>       工作設定檔，提供名單、images 與 export 設定
+  -i, --input <檔案>          名單檔案 (.xlsx/.xls/.csv/.json)，優先於設定檔
+  -s, --sheet <工作表:類型>   要匯出的工作表，可重複指定
+  -o, --out <檔案>            輸出的 ZIP（預設：<輸入檔名>_qrcodes.zip）
+      --images <資料夾>       QR Code 圖片根目錄（預設：輸入檔案所在資料夾）
+  -g, --group-by <欄位>       另外依欄位的值各輸出一個 ZIP，如 team
+  -h, --help                  顯示說明
+
+需先執行 generate 產生圖片；每個 ZIP 都包含 index.csv (type, id, name, payload, file)。
+
+結束代碼：
+  0  匯出成功
+  1  有 ID 沒有圖片，或處理過程中發生錯誤
+  2  參數錯誤`;
+
+const RESTORE_USAGE = `用法：qrcode-product restore --out <檔案> [選項]
+      qrcode-product restore --config <設定檔> [選項]
+
+選項：
+  -c, --config <設定檔>       工作設定檔，提供輸出檔案與 backup 設定
+  -o, --out <檔案>            要還原的 Excel 檔案，優先於設定檔
+  -b, --backup <備份>         備份檔名、路徑或時間戳記（預設：最新的備份）
+  -l, --list                  只列出備份，不還原
+  -h, --help                  顯示說明
+
+還原前會先備份目前的檔案，可再用 restore 還原回來。
+
+結束代碼：
+  0  還原成功
+  1  找不到備份、備份無法讀取或處理錯誤
+  2  參數錯誤`;
+
+const SERVE_USAGE = `用法：qrcode-product serve [選項]
+
+選項：
+  -c, --config <設定檔>       工作設定檔，提供 jobs（ID 正規化、payload、簽章、繪製選項）與 server 設定
+      --host <位址>           監聽位址（預設 127.0.0.1，只接受本機連線）
+  -p, --port <連接埠>         連接埠（預設 3000，0 表示自動選擇）
+      --max-upload-mb <MB>    上傳檔案大小上限（預設 20）
+      --allow-signing         允許以設有 signature 的工作簽發 QR Code（服務沒有驗證機制，預設拒絕）
+  -h, --help                  顯示說明
+
+路由：
+  GET  /health                          服務狀態
+  GET  /qr/<id>?format=&size=&type=     產生單一 QR Code（format：png/svg/jpeg）
+  POST /workbooks?sheet=&format=        上傳 .xlsx，回傳 <檔名>_with_qrcode.xlsx 或 ZIP（format=zip）
+
+錯誤以 JSON 回傳：{"error":{"code":"...","message":"..."}}
+以 Ctrl+C 停止服務。
+
+結束代碼：
+  0  服務正常停止
+  1  無法啟動（如連接埠已被使用）
+  2  參數錯誤`;
+
+const USAGES: Record<string, string> = {
+	generate: GENERATE_USAGE,
+	verify: VERIFY_USAGE,
+	badges: BADGES_USAGE,
+	export: EXPORT_USAGE,
+	restore: RESTORE_USAGE,
+	serve: SERVE_USAGE,
+};
+
+/**
+ * 取得指令說明文字
+ * @param {string} topic - 指令名稱，未指定時回傳總說明
+ */
+export function getUsage(topic?: string): string {
+	return (topic && USAGES[topic]) || MAIN_USAGE;
+}
+
+/**
+ * 解析 --sheet 參數 (如: '夥伴名單:member')
+ */
+function parseSheetSpec(value: string): SheetSpec {
+	const separator = value.lastIndexOf(":");
+	if (separator <= 0 || separator === value.length - 1) {
+		throw new UsageError(
+			`無效的 --sheet 參數：${value}，格式應為 <工作表:類型>`
+		);
+	}
+
+	const worksheetName = value.slice(0, separator).trim();
+	const type = value.slice(separator + 1).trim();
+
+	if (!/^[A-Za-z0-9_-]+$/.test(type)) {
+		throw new UsageError(`無效的類型：${type}，僅允許英數字、底線與連字號`);
+	}
+
+	return { worksheetName, type };
+}
+
+/**
+ * 解析正整數參數
+ */
+function parsePositiveInteger(value: string, option: string): number {
+	const number = Number(value);
+	if (!Number.isInteger(number) || number < 1) {
+		throw new UsageError(`${option} 必須是正整數：${value}`);
+	}
+	return number;
+}
+
+/**
+ * 解析大於或等於 0 的整數參數
+ */
+function parseNonNegativeInteger(value: string, option: string): number {
+	const number = Number(value);
+	if (!Number.isInteger(number) || number < 0) {
+		throw new UsageError(`${option} 必須是大於或等於 0 的整數：${value}`);
+	}
+	return number;
+}
+
+function parseGenerateArgs(argv: string[]): CliCommand {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			config: { type: "string", short: "c" },
+			input: { type: "string", short: "i" },
+			sheet: { type: "string", short: "s", multiple: true },
+			out: { type: "string", short: "o" },
+			images: { type: "string" },
+			force: { type: "boolean", short: "f" },
+			concurrency: { type: "string", short: "j" },
+			"worker-threads": { type: "boolean" },
+			strict: { type: "boolean" },
+			"keep-backups": { type: "string" },
+			stream: { type: "boolean" },
+			"decode-check": { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+		},
+		allowPositionals: false,
+		strict: true,
+	});
+
+	if (values.help) {
+		return { command: "help", topic: "generate" };
+	}
+
+	const sheets = (values.sheet || []).map(parseSheetSpec);
+	if (!values.config && sheets.length === 0) {
+		throw new UsageError("至少需要指定一個 --sheet 或 --config");
+	}
+
+	const resolveOptional = (value?: string) =>
+		value ? path.resolve(value) : undefined;
+
+	return {
+		command: "generate",
+		args: {
+			config: resolveOptional(values.config),
+			input: resolveOptional(values.input),
+			sheets,
+			out: resolveOptional(values.out),
+			images: resolveOptional(values.images),
+			force: Boolean(values.force),
+			strict: Boolean(values.strict),
+			concurrency: values.concurrency
+				? parsePositiveInteger(values.concurrency, "--concurrency")
+				: undefined,
+			workerThreads: values["worker-threads"] || undefined,
+			keepBackups: values["keep-backups"]
+				? parseNonNegativeInteger(values["keep-backups"], "--keep-backups")
+				: undefined,
+			stream: values.stream || undefined,
+			decodeCheck: values["decode-check"] || undefined,
+		},
+	};
+}
+
+function parseVerifyArgs(argv: string[]): CliCommand {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			payload: { type: "string", short: "p" },
+			config: { type: "string", short: "c" },
+			input: { type: "string", short: "i" },
+			sheet: { type: "string", short: "s", multiple: true },
+			algorithm: { type: "string" },
+			"key-file": { type: "string" },
+			"key-env": { type: "string" },
+			event: { type: "string" },
+			json: { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+		},
+		allowPositionals: false,
+		strict: true,
+	});
+
+	if (values.help) {
+		return { command: "help", topic: "verify" };
+	}
+
+	if (!values.payload) {
+		throw new UsageError("缺少必要參數 --payload");
+	}
+
+	const algorithm = values.algorithm as SignatureAlgorithm | undefined;
+	if (algorithm && !SIGNATURE_ALGORITHMS.includes(algorithm)) {
+		throw new UsageError(
+			`不支援的簽章演算法：${algorithm}，可用：${SIGNATURE_ALGORITHMS.join(
+				", "
+			)}`
+		);
+	}
+	if (!algorithm && !values.config) {
+		throw new UsageError("需要指定 --algorithm 或包含簽章設定的 --config");
+	}
+	if ((values["key-file"] || values["key-env"]) && !algorithm) {
+		throw new UsageError("--key-file 與 --key-env 需要搭配 --algorithm");
+	}
+
+	return {
+		command: "verify",
+		args: {
+			payload: values.payload,
+			config: values.config ? path.resolve(values.config) : undefined,
+			input: values.input ? path.resolve(values.input) : undefined,
+			sheets: (values.sheet || []).map(parseSheetSpec),
+			algorithm,
+			keyFile: values["key-file"]
+				? path.resolve(values["key-file"])
+				: undefined,
+			keyEnv: values["key-env"],
+			event: values.event,
+			json: Boolean(values.json),
+		},
+	};
+}
+
+function parseBadgesArgs(argv: string[]): CliCommand {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			config: { type: "string", short: "c" },
+			input: { type: "string", short: "i" },
+			sheet: { type: "string", short: "s", multiple: true },
+			out: { type: "string", short: "o" },
+			preset: { type: "string" },
+			columns: { type: "string" },
+			rows: { type: "string" },
+			font: { type: "string" },
+			"font-size": { type: "string" },
+			"no-cut-lines": { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+		},
+		allowPositionals: false,
+		strict: true,
+	});
+
+	if (values.help) {
+		return { command: "help", topic: "badges" };
+	}
+
+	const sheets = (values.sheet || []).map(parseSheetSpec);
+	if (!values.config && sheets.length === 0) {
+		throw new UsageError("至少需要指定一個 --sheet 或 --config");
+	}
+
+	if (values.preset && !BADGE_PRESETS[values.preset]) {
+		throw new UsageError(
+			`未知的名牌版型：${values.preset}，可用：${Object.keys(
+				BADGE_PRESETS
+			).join(", ")}`
+		);
+	}
+
+	const resolveOptional = (value?: string) =>
+		value ? path.resolve(value) : undefined;
+
+	return {
+		command: "badges",
+		args: {
+			config: resolveOptional(values.config),
+			input: resolveOptional(values.input),
+			sheets,
+			out: resolveOptional(values.out),
+			preset: values.preset,
+			columns: values.columns
+				? parsePositiveInteger(values.columns, "--columns")
+				: undefined,
+			rows: values.rows
+				? parsePositiveInteger(values.rows, "--rows")
+				: undefined,
+			font: resolveOptional(values.font),
+			fontSize: values["font-size"]
+				? parsePositiveInteger(values["font-size"], "--font-size")
+				: undefined,
+			cutLines: values["no-cut-lines"] ? false : undefined,
+		},
+	};
+}
+
+function parseExportArgs(argv: string[]): CliCommand {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			config: { type: "string", short: "c" },
+			input: { type: "string", short: "i" },
+			sheet: { type: "string", short: "s", multiple: true },
+			out: { type: "string", short: "o" },
+			images: { type: "string" },
+			"group-by": { type: "string", short: "g" },
+			help: { type: "boolean", short: "h" },
+		},
+		allowPositionals: false,
+		strict: true,
+	});
+
+	if (values.help) {
+		return { command: "help", topic: "export" };
+	}
+
+	const sheets = (values.sheet || []).map(parseSheetSpec);
+	if (!values.config && sheets.length === 0) {
+		throw new UsageError("至少需要指定一個 --sheet 或 --config");
+	}
+
+	const resolveOptional = (value?: string) =>
+		value ? path.resolve(value) : undefined;
+
+	return {
+		command: "export",
+		args: {
+			config: resolveOptional(values.config),
+			input: resolveOptional(values.input),
+			sheets,
+			out: resolveOptional(values.out),
+			images: resolveOptional(values.images),
+			groupBy: values["group-by"]?.trim() || undefined,
+		},
+	};
+}
+
+function parseRestoreArgs(argv: string[]): CliCommand {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			config: { type: "string", short: "c" },
+			out: { type: "string", short: "o" },
+			backup: { type: "string", short: "b" },
+			list: { type: "boolean", short: "l" },
+			help: { type: "boolean", short: "h" },
+		},
+		allowPositionals: false,
+		strict: true,
+	});
+
+	if (values.help) {
+		return { command: "help", topic: "restore" };
+	}
+
+	if (!values.config && !values.out) {
+		throw new UsageError("需要指定 --out 或 --config");
+	}
+	if (values.list && values.backup) {
+		throw new UsageError("--list 不可與 --backup 同時使用");
+	}
+
+	return {
+		command: "restore",
+		args: {
+			config: values.config ? path.resolve(values.config) : undefined,
+			out: values.out ? path.resolve(values.out) : undefined,
+			backup: values.backup,
+			list: Boolean(values.list),
+		},
+	};
+}
+
+function parseServeArgs(argv: string[]): CliCommand {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			config: { type: "string", short: "c" },
+			host: { type: "string" },
+			port: { type: "string", short: "p" },
+			"max-upload-mb": { type: "string" },
+			"allow-signing": { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+		},
+		allowPositionals: false,
+		strict: true,
+	});
+
+	if (values.help) {
+		return { command: "help", topic: "serve" };
+	}
+
+	const port = values.port
+		? parseNonNegativeInteger(values.port, "--port")
+		: undefined;
+	if (port !== undefined && port > 65535) {
+		throw new UsageError(`--port 必須在 0 到 65535 之間：${port}`);
+	}
+
+	return {
+		command: "serve",
+		args: {
+			config: values.config ? path.resolve(values.config) : undefined,
+			host: values.host?.trim() || undefined,
+			port,
+			maxUploadMb: values["max-upload-mb"]
+				? parsePositiveInteger(values["max-upload-mb"], "--max-upload-mb")
+				: undefined,
+			allowSigning: values["allow-signing"] || undefined,
+		},
+	};
+}
+
+/**
+ * 解析命令列參數
+ * @param {string[]} argv - 不含 node 與腳本路徑的參數
+ * @returns {CliCommand} 解析後的指令
+ */
+export function parseCliArgs(argv: string[]): CliCommand {
+	const [command, ...rest] = argv;
+
+	if (
+		!command ||
+		command === "help" ||
+		command === "-h" ||
+		command === "--help"
+	) {
+		return { command: "help", topic: rest[0] };
+	}
+
+	try {
+		switch (command) {
+			case "generate":
+				return parseGenerateArgs(rest);
+			case "verify":
+				return parseVerifyArgs(rest);
+			case "badges":
+				return parseBadgesArgs(rest);
+			case "export":
+				return parseExportArgs(rest);
+			case "restore":
+				return parseRestoreArgs(rest);
+			case "serve":
+				return parseServeArgs(rest);
+			default:
+				throw new UsageError(`未知的指令：${command}`);
+		}
+	} catch (error) {
+		if (error instanceof UsageError) {
+			throw error;
+		}
+		// util.parseArgs 對未知選項或缺少值會拋出 TypeError
+		throw new UsageError((error as Error).message);
+	}
+}
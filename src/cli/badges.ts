@@ -0,0 +1,88 @@
+import path from "path";
+import {
+	ResolvedBadgeConfig,
+	runBadges as runBadgePipeline,
+} from "../pipeline/badges";
+import {
+	assertUniqueJobs,
+	BadgeConfig,
+	loadPipelineConfig,
+	normalizeBadgeConfig,
+	normalizeJob,
+	PipelineConfig,
+} from "../pipeline/job_config";
+import { getSupportedExtensions } from "../service/workbook_reader";
+import { BadgesArgs, EXIT_CODES, UsageError } from "./args";
+
+/**
+ * 合併設定檔與命令列參數，命令列參數優先
+ * @param {BadgesArgs} args - 解析後的參數
+ * @returns {ResolvedBadgeConfig} 完整的名牌設定
+ */
+export function resolveBadgesConfig(args: BadgesArgs): ResolvedBadgeConfig {
+	const fileConfig: PipelineConfig = args.config
+		? loadPipelineConfig(args.config)
+		: { jobs: [] };
+
+	const input = args.input || fileConfig.input;
+	if (!input) {
+		throw new UsageError("缺少必要參數 --input（或設定檔中的 input）");
+	}
+	if (!getSupportedExtensions().includes(path.extname(input).toLowerCase())) {
+		throw new UsageError(
+			`不支援的檔案格式：${path.extname(
+				input
+			)}，僅支援 ${getSupportedExtensions().join(", ")}`
+		);
+	}
+
+	const jobs =
+		args.sheets.length > 0
+			? args.sheets.map((sheet) =>
+					normalizeJob({ worksheet: sheet.worksheetName, type: sheet.type })
+			  )
+			: fileConfig.jobs;
+	assertUniqueJobs(jobs);
+
+	const base: BadgeConfig =
+		fileConfig.badges || normalizeBadgeConfig(undefined);
+	const badges: BadgeConfig = {
+		...base,
+		font: args.font || base.font,
+		fontSize: args.fontSize ?? base.fontSize,
+		cutLines: args.cutLines ?? base.cutLines,
+	};
+	if (args.preset || args.columns || args.rows) {
+		badges.layout = normalizeBadgeConfig({
+			preset: args.preset,
+			columns: args.columns,
+			rows: args.rows,
+		}).layout;
+	}
+
+	const out =
+		args.out || base.out || input.replace(/\.[^./\\]+$/, "_badges.pdf");
+
+	return { input, out, jobs, badges };
+}
+
+/**
+ * 執行 badges 指令
+ * @param {BadgesArgs} args - 解析後的參數
+ * @returns {Promise<number>} 結束代碼
+ */
+export async function runBadges(args: BadgesArgs): Promise<number> {
+	const config = resolveBadgesConfig(args);
+
+	try {
+		const result = await runBadgePipeline(config);
+		if (!result.success) {
+			return EXIT_CODES.FAILURE;
+		}
+		console.log(`📄 輸出檔案：${result.filePath}`);
+		return EXIT_CODES.OK;
+	} catch (error) {
+		console.error(`❌ 名牌產生失敗：${(error as Error).message}`);
+		return EXIT_CODES.FAILURE;
+	}
+}
@@ -0,0 +1,80 @@
+import path from "path";
+import {
+	ResolvedExportConfig,
+	runExport as runExportPipeline,
+} from "../pipeline/export";
+import {
+	assertUniqueJobs,
+	loadPipelineConfig,
+	normalizeJob,
+	PipelineConfig,
+} from "../pipeline/job_config";
+import { getSupportedExtensions } from "../service/workbook_reader";
+import { EXIT_CODES, ExportArgs, UsageError } from "./args";
+
+/**
+ * 合併設定檔與命令列參數，命令列參數優先
+ * @param {ExportArgs} args - 解析後的參數
+ * @returns {ResolvedExportConfig} 完整的匯出設定
+ */
+export function resolveExportConfig(args: ExportArgs): ResolvedExportConfig {
+	const fileConfig: PipelineConfig = args.config
+		? loadPipelineConfig(args.config)
+		: { jobs: [] };
+
+	const input = args.input || fileConfig.input;
+	if (!input) {
+		throw new UsageError("缺少必要參數 --input（或設定檔中的 input）");
+	}
+	if (!getSupportedExtensions().includes(path.extname(input).toLowerCase())) {
+		throw new UsageError(
+			`不支援的檔案格式：${path.extname(
+				input
+			)}，僅支援 ${getSupportedExtensions().join(", ")}`
+		);
+	}
+
+	const jobs =
+		args.sheets.length > 0
+			? args.sheets.map((sheet) =>
+					normalizeJob({ worksheet: sheet.worksheetName, type: sheet.type })
+			  )
+			: fileConfig.jobs;
+	assertUniqueJobs(jobs);
+
+	const out =
+		args.out ||
+		fileConfig.export?.out ||
+		input.replace(/\.[^./\\]+$/, "_qrcodes.zip");
+	if (path.extname(out).toLowerCase() !== ".zip") {
+		throw new UsageError(`輸出檔案必須是 .zip：${out}`);
+	}
+
+	return {
+		input,
+		out,
+		images: args.images || fileConfig.images || path.dirname(input),
+		jobs,
+		groupBy: args.groupBy || fileConfig.export?.groupBy,
+	};
+}
+
+/**
+ * 執行 export 指令
+ * @param {ExportArgs} args - 解析後的參數
+ * @returns {Promise<number>} 結束代碼
+ */
+export async function runExport(args: ExportArgs): Promise<number> {
+	const config = resolveExportConfig(args);
+
+	try {
+		const result = await runExportPipeline(config);
+		for (const archive of result.archives) {
+			console.log(`📄 輸出檔案：${archive.filePath}`);
+		}
+		return result.success ? EXIT_CODES.OK : EXIT_CODES.FAILURE;
+	} catch (error) {
+		console.error(`❌ 匯出失敗：${(error as Error).message}`);
+		return EXIT_CODES.FAILURE;
+	}
+}
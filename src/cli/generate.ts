@@ -0,0 +1,175 @@
+import path from "path";
+import {
+	assertUniqueJobs,
+	DEFAULT_BACKUP_OPTIONS,
+	DEFAULT_GENERATION_OPTIONS,
+	loadPipelineConfig,
+	normalizeJob,
+	PipelineConfig,
+} from "../pipeline/job_config";
+import {
+	formatStats,
+	ResolvedPipelineConfig,
+	runPipeline,
+} from "../pipeline/pipeline";
+import { REPORT_WORKSHEET_NAME } from "../pipeline/roster_validation";
+import { getSupportedExtensions } from "../service/workbook_reader";
+import { EXIT_CODES, GenerateArgs, UsageError } from "./args";
+
+/**
+ * 合併設定檔與命令列參數，命令列參數優先
+ * @param {GenerateArgs} args - 解析後的參數
+ * @returns {ResolvedPipelineConfig} 完整的工作設定
+ */
+export function resolveGenerateConfig(
+	args: GenerateArgs
+): ResolvedPipelineConfig {
+	const fileConfig: PipelineConfig = args.config
+		? loadPipelineConfig(args.config)
+		: { jobs: [] };
+
+	const input = args.input || fileConfig.input;
+	if (!input) {
+		throw new UsageError("缺少必要參數 --input（或設定檔中的 input）");
+	}
+	if (!getSupportedExtensions().includes(path.extname(input).toLowerCase())) {
+		throw new UsageError(
+			`不支援的檔案格式：${path.extname(
+				input
+			)}，僅支援 ${getSupportedExtensions().join(", ")}`
+		);
+	}
+
+	let jobs =
+		args.sheets.length > 0
+			? args.sheets.map((sheet) =>
+					normalizeJob({ worksheet: sheet.worksheetName, type: sheet.type })
+			  )
+			: fileConfig.jobs;
+	assertUniqueJobs(jobs);
+	if (args.decodeCheck) {
+		jobs = jobs.map((job) => ({
+			...job,
+			options: { ...job.options, decodeCheck: true },
+		}));
+	}
+
+	const out =
+		args.out ||
+		fileConfig.out ||
+		input.replace(/\.[^./\\]+$/, "_with_qrcode.xlsx");
+	if (out === input) {
+		throw new UsageError("輸出檔案不可與輸入檔案相同，原始檔案不會被修改");
+	}
+	if (path.extname(out).toLowerCase() !== ".xlsx") {
+		throw new UsageError(`輸出檔案必須是 .xlsx：${out}`);
+	}
+
+	const images = args.images || fileConfig.images || path.dirname(input);
+
+	const stream = args.stream ?? fileConfig.stream ?? false;
+	if (stream && path.extname(input).toLowerCase() !== ".xlsx") {
+		throw new UsageError(`串流模式僅支援 .xlsx 輸入檔案：${input}`);
+	}
+
+	const generation = {
+		...DEFAULT_GENERATION_OPTIONS,
+		...fileConfig.generation,
+	};
+	if (args.concurrency !== undefined) {
+		generation.concurrency = args.concurrency;
+	}
+	if (args.workerThreads !== undefined) {
+		generation.workerThreads = args.workerThreads;
+	}
+
+	const backup = { ...DEFAULT_BACKUP_OPTIONS, ...fileConfig.backup };
+	if (args.keepBackups !== undefined) {
+		backup.retention = args.keepBackups;
+	}
+
+	return {
+		input,
+		out,
+		images,
+		jobs,
+		force: args.force,
+		strict: args.strict,
+		stream,
+		generation,
+		backup,
+	};
+}
+
+/**
+ * 執行 generate 指令
+ * @param {GenerateArgs} args - 解析後的參數
+ * @returns {Promise<number>} 結束代碼
+ */
+export async function runGenerate(args: GenerateArgs): Promise<number> {
+	const config = resolveGenerateConfig(args);
+
+	let success = false;
+	let validationFailed = false;
+	const startedAt = Date.now();
+	try {
+		const result = await runPipeline(config);
+
+		console.log("\n📋 處理結果：");
+		for (const job of result.jobs) {
+			const icon = job.success ? "✅" : "❌";
+			const detail = job.error ? ` - ${job.error.message}` : "";
+			console.log(
+				`${icon} ${job.worksheet} (${job.type})：產生 ${job.qrGenerated}、略過 ${job.qrSkipped}、刪除 ${job.qrRemoved} 個 QR Code（共 ${job.rowCount} 筆），插入 ${job.imagesInserted} 張圖片${detail}`
+			);
+			if (job.generationStats && job.generationStats.total > 0) {
+				console.log(`   ⏱️ ${formatStats(job.generationStats)}`);
+			}
+			if (job.decodeCheck) {
+				const { checked, passed, mismatches } = job.decodeCheck;
+				console.log(
+					`   ${
+						mismatches.length > 0 ? "❌" : "🔎"
+					} 解碼驗證 ${passed}/${checked} 張相符${
+						mismatches.length > 0
+							? `，${mismatches.length} 張不符（見「${REPORT_WORKSHEET_NAME}」工作表）`
+							: ""
+					}`
+				);
+			}
+		}
+		console.log(`⏱️ 總耗時 ${((Date.now() - startedAt) / 1000).toFixed(1)} 秒`);
+		if (result.backupPath) {
+			console.log(
+				`🗄️ 上次的輸出檔案已備份，可用 "qrcode-product restore" 還原`
+			);
+		}
+		success = result.success;
+		validationFailed = args.strict && result.validation.errorCount > 0;
+	} catch (error) {
+		console.error("❌ 處理過程中發生錯誤：", error);
+	}
+
+	if (success) {
+		console.log("🎯 處理完成！可以開啟 Excel 檔案查看結果");
+		return EXIT_CODES.OK;
+	}
+
+	if (validationFailed) {
+		console.log(
+			`\n🔧 請依輸出檔案「${REPORT_WORKSHEET_NAME}」工作表修正名單後重新執行`
+		);
+		return EXIT_CODES.VALIDATION;
+	}
+
+	// 提供詳細的錯誤恢復建議
+	console.log("\n🔧 錯誤恢復建議：");
+	console.log(
+		`1. 確認 Excel 檔案 "${path.basename(config.input)}" 存在且沒有被開啟`
+	);
+	console.log("2. 確認工作表名稱與設定檔或 --sheet 參數相符");
+	console.log("3. 確認有足夠的磁碟空間");
+	console.log("4. 檢查檔案權限，確保可以讀寫");
+
+	return EXIT_CODES.FAILURE;
+}
@@ -0,0 +1,99 @@
+import path from "path";
+import {
+	BackupOptions,
+	DEFAULT_BACKUP_OPTIONS,
+	loadPipelineConfig,
+	PipelineConfig,
+} from "../pipeline/job_config";
+import BackupService from "../service/backup";
+import WriteExcelFile from "../service/write_excel_file";
+import { EXIT_CODES, RestoreArgs, UsageError } from "./args";
+
+export interface ResolvedRestoreConfig {
+	out: string; // 要還原的 Excel 檔案（絕對路徑）
+	backup: BackupOptions; // 備份資料夾與保留數
+}
+
+/**
+ * 合併設定檔與命令列參數，命令列參數優先
+ * @param {RestoreArgs} args - 解析後的參數
+ * @returns {ResolvedRestoreConfig} 還原設定
+ */
+export function resolveRestoreConfig(args: RestoreArgs): ResolvedRestoreConfig {
+	const fileConfig: PipelineConfig = args.config
+		? loadPipelineConfig(args.config)
+		: { jobs: [] };
+
+	const out =
+		args.out ||
+		fileConfig.out ||
+		fileConfig.input?.replace(/\.[^./\\]+$/, "_with_qrcode.xlsx");
+	if (!out) {
+		throw new UsageError("缺少必要參數 --out（或設定檔中的 out / input）");
+	}
+
+	return { out, backup: { ...DEFAULT_BACKUP_OPTIONS, ...fileConfig.backup } };
+}
+
+const formatSize = (bytes: number) =>
+	bytes < 1024 * 1024
+		? `${(bytes / 1024).toFixed(1)} KB`
+		: `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * 執行 restore 指令
+ * @param {RestoreArgs} args - 解析後的參數
+ * @returns {Promise<number>} 結束代碼
+ */
+export async function runRestore(args: RestoreArgs): Promise<number> {
+	const { out, backup } = resolveRestoreConfig(args);
+	const backupService = new BackupService(backup.retention, backup.folder);
+
+	if (args.list) {
+		const backups = backupService.listBackups(out);
+		if (backups.length === 0) {
+			console.log(`📭 沒有備份：${path.basename(out)}`);
+			return EXIT_CODES.OK;
+		}
+		console.log(
+			`🗄️ ${path.basename(out)} 的備份（${backupService.getBackupFolder(
+				out
+			)}）：`
+		);
+		backups.forEach((entry, index) => {
+			console.log(
+				`${index === 0 ? "  *" : "   "} ${entry.timestamp}  ${formatSize(
+					entry.size
+				)}  ${path.basename(entry.filePath)}`
+			);
+		});
+		return EXIT_CODES.OK;
+	}
+
+	try {
+		const entry = backupService.findBackup(out, args.backup);
+
+		// 備份本身損毀時不還原，避免覆蓋目前可用的檔案
+		const writeExcelService = new WriteExcelFile();
+		if (!(await writeExcelService.validateExcelFile(entry.filePath))) {
+			console.error(`❌ 備份檔無法讀取，未還原：${entry.filePath}`);
+			return EXIT_CODES.FAILURE;
+		}
+
+		const result = backupService.restore(out, entry.filePath);
+		if (!result.success) {
+			throw result.error;
+		}
+
+		console.log(
+			`✅ 已從 ${path.basename(entry.filePath)} 還原：${path.basename(out)}`
+		);
+		if (result.previousBackup) {
+			console.log(`🗄️ 還原前的檔案已備份：${result.previousBackup}`);
+		}
+		return EXIT_CODES.OK;
+	} catch (error) {
+		console.error(`❌ 還原失敗：${(error as Error).message}`);
+		return EXIT_CODES.FAILURE;
+	}
+}
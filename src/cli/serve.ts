@@ -0,0 +1,78 @@
+import { loadPipelineConfig, PipelineConfig } from "../pipeline/job_config";
+import {
+	createQRServer,
+	DEFAULT_MAX_UPLOAD_MB,
+	DEFAULT_SERVER_HOST,
+	DEFAULT_SERVER_PORT,
+	listen,
+	ServerOptions,
+} from "../server/http_server";
+import { EXIT_CODES, ServeArgs } from "./args";
+
+/**
+ * 合併設定檔與命令列參數，命令列參數優先
+ * @param {ServeArgs} args - 解析後的參數
+ * @returns {ServerOptions} 完整的服務設定
+ */
+export function resolveServeConfig(args: ServeArgs): ServerOptions {
+	const fileConfig: PipelineConfig = args.config
+		? loadPipelineConfig(args.config)
+		: { jobs: [] };
+	const maxUploadMb =
+		args.maxUploadMb ?? fileConfig.server?.maxUploadMb ?? DEFAULT_MAX_UPLOAD_MB;
+
+	return {
+		host: args.host || fileConfig.server?.host || DEFAULT_SERVER_HOST,
+		port: args.port ?? fileConfig.server?.port ?? DEFAULT_SERVER_PORT,
+		maxUploadBytes: Math.round(maxUploadMb * 1024 * 1024),
+		allowSigning: args.allowSigning ?? fileConfig.server?.allowSigning ?? false,
+		jobs: fileConfig.jobs,
+	};
+}
+
+/**
+ * 執行 serve 指令，收到 SIGINT/SIGTERM 時停止接受連線，處理中的請求完成後結束
+ * @param {ServeArgs} args - 解析後的參數
+ * @returns {Promise<number>} 結束代碼
+ */
+export async function runServe(args: ServeArgs): Promise<number> {
+	const options = resolveServeConfig(args);
+	const server = createQRServer(options);
+
+	let url: string;
+	try {
+		url = await listen(server, options);
+	} catch (error) {
+		console.error(`❌ 無法啟動服務：${(error as Error).message}`);
+		return EXIT_CODES.FAILURE;
+	}
+
+	console.log(`🌐 服務已啟動：${url}`);
+	console.log(
+		`📋 工作：${
+			options.jobs.map((job) => `${job.worksheet}:${job.type}`).join(", ") ||
+			"（未指定設定檔，上傳時以 sheet 參數指定）"
+		}，上傳上限 ${(options.maxUploadBytes / 1024 / 1024).toFixed(1)} MB`
+	);
+	if (options.jobs.some((job) => job.signature)) {
+		console.log(
+			options.allowSigning
+				? "🔏 已允許簽發簽章 QR Code：任何能連線的人都可以取得任意 ID 的簽章 QR Code"
+				: "🔒 設有 signature 的工作不會簽發 QR Code（需要時以 --allow-signing 啟用）"
+		);
+	}
+
+	await new Promise<void>((resolve) => {
+		const stop = () => {
+			process.off("SIGINT", stop);
+			process.off("SIGTERM", stop);
+			console.log("🛑 正在停止服務...");
+			server.close(() => resolve());
+			server.closeIdleConnections();
+		};
+		process.on("SIGINT", stop);
+		process.on("SIGTERM", stop);
+	});
+	console.log("✅ 服務已停止");
+	return EXIT_CODES.OK;
+}
@@ -0,0 +1,63 @@
+import {
+	loadPipelineConfig,
+	normalizeJob,
+	PipelineConfig,
+} from "../pipeline/job_config";
+import { verifyScannedPayload } from "../pipeline/verify_payload";
+import { EXIT_CODES, VerifyArgs } from "./args";
+
+/**
+ * 執行 verify 指令
+ * @param {VerifyArgs} args - 解析後的參數
+ * @returns {Promise<number>} 結束代碼
+ */
+export async function runVerify(args: VerifyArgs): Promise<number> {
+	const fileConfig: PipelineConfig = args.config
+		? loadPipelineConfig(args.config)
+		: { jobs: [] };
+
+	const jobs =
+		args.sheets.length > 0
+			? args.sheets.map((sheet) =>
+					normalizeJob({ worksheet: sheet.worksheetName, type: sheet.type })
+			  )
+			: fileConfig.jobs;
+
+	let result;
+	try {
+		result = await verifyScannedPayload(args.payload, {
+			signature: args.algorithm
+				? {
+						algorithm: args.algorithm,
+						keyFile: args.keyFile,
+						keyEnv: args.keyEnv,
+				  }
+				: undefined,
+			input: args.input || fileConfig.input,
+			jobs,
+			event: args.event,
+			// --json 時過程訊息改輸出到 stderr，避免干擾 JSON 結果
+			log: args.json ? console.error : console.log,
+		});
+	} catch (error) {
+		console.error(`❌ 驗證失敗：${(error as Error).message}`);
+		return EXIT_CODES.FAILURE;
+	}
+
+	if (args.json) {
+		process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+	} else if (result.valid) {
+		console.log(`✅ 驗證通過：${result.claims?.id}`);
+		if (result.claims?.evt) {
+			console.log(`🏷️ 活動：${result.claims.evt}`);
+		}
+		if (result.row) {
+			console.log(`📋 ${result.worksheet}：${JSON.stringify(result.row)}`);
+		}
+		console.log(`🔣 內容：${result.claims?.v}`);
+	} else {
+		console.log(`❌ 驗證失敗 (${result.reason})：${result.message}`);
+	}
+
+	return result.valid ? EXIT_CODES.OK : EXIT_CODES.FAILURE;
+}
@@ -0,0 +1,68 @@
+import BadgePdfService, { BadgeItem, BadgeResult } from "../service/badge_pdf";
+import PayloadTemplate from "../service/payload_template";
+import QRCodeService from "../service/qrcode";
+import ReadExcelFile from "../service/read_excel_file";
+import { BadgeConfig, JobConfig } from "./job_config";
+import { createPayloadBuilder } from "./payload";
+import { loadRoster } from "./roster";
+
+export interface ResolvedBadgeConfig {
+	input: string; // 名單 Excel 檔案（絕對路徑）
+	out: string; // 輸出 PDF（絕對路徑）
+	jobs: JobConfig[]; // 依序排入 PDF 的工作表
+	badges: BadgeConfig;
+}
+
+/**
+ * 讀取名單並產生名牌 PDF，QR Code 內容與 generate 相同（含樣板、簽章與繪製選項）
+ * @param {ResolvedBadgeConfig} config - 名牌設定
+ * @returns {Promise<BadgeResult>} 產生結果
+ */
+export async function runBadges(
+	config: ResolvedBadgeConfig
+): Promise<BadgeResult> {
+	const readExcelService = new ReadExcelFile();
+	const qrcodeService = new QRCodeService();
+	const badgePdfService = new BadgePdfService();
+
+	const titleTemplate = new PayloadTemplate({
+		format: "text",
+		template: config.badges.title,
+	});
+	const lineTemplates = config.badges.lines.map(
+		(line) => new PayloadTemplate({ format: "text", template: line })
+	);
+
+	const badges: BadgeItem[] = [];
+	for (const job of config.jobs) {
+		console.log(`🪪 準備 ${job.worksheet} 的名牌...`);
+
+		const roster = await loadRoster(readExcelService, config.input, job);
+		const buildPayload = createPayloadBuilder(job, roster.fields);
+		titleTemplate.assertFields(roster.fields);
+		lineTemplates.forEach((template) => template.assertFields(roster.fields));
+
+		for (const staff of roster.rows) {
+			badges.push({
+				qrCode: await qrcodeService.renderQRCode(
+					buildPayload(staff),
+					"png",
+					job.render
+				),
+				title: titleTemplate.render(staff),
+				lines: lineTemplates
+					.map((template) => template.render(staff).trim())
+					.filter((line) => line !== ""),
+			});
+		}
+
+		console.log(`👥 ${job.worksheet}：${roster.rows.length} 張名牌`);
+	}
+
+	return badgePdfService.generateBadges(badges, config.out, {
+		layout: config.badges.layout,
+		fontPath: config.badges.font,
+		fontSize: config.badges.fontSize,
+		cutLines: config.badges.cutLines,
+	});
+}
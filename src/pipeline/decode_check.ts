@@ -0,0 +1,138 @@
+import QRDecoder from "../service/qr_decoder";
+import { REPORT_WORKSHEET_NAME, ValidationIssue } from "./roster_validation";
+
+export interface DecodeTarget {
+	id: string;
+	row: number; // 工作表中的行號
+	buffer: Buffer; // 嵌入 Excel 的圖片（寫檔時與 PNG/JPEG 檔案內容相同）
+	expected?: string; // 預期的內容，無法取得時只檢查能否解碼
+}
+
+export interface DecodeMismatch {
+	id: string;
+	row: number;
+	expected?: string;
+	actual: string | null; // 解碼出的內容，無法解碼時為 null
+	message: string;
+}
+
+export interface DecodeCheckResult {
+	checked: number; // 解碼的圖片數
+	passed: number; // 內容與預期相符（或無預期內容但可解碼）的圖片數
+	unverified: number; // 沒有預期內容可比對的圖片數
+	mismatches: DecodeMismatch[];
+}
+
+/**
+ * 解碼每張圖片並與預期內容比對
+ * @param {DecodeTarget[]} targets - 要檢查的圖片
+ * @param {QRDecoder} decoder - 解碼器
+ * @returns {DecodeCheckResult} 檢查結果
+ */
+export function checkDecodedImages(
+	targets: DecodeTarget[],
+	decoder: QRDecoder = new QRDecoder()
+): DecodeCheckResult {
+	const result: DecodeCheckResult = {
+		checked: 0,
+		passed: 0,
+		unverified: 0,
+		mismatches: [],
+	};
+
+	for (const { id, row, buffer, expected } of targets) {
+		result.checked++;
+		const decoded = decoder.decode(buffer);
+		if (!decoded.success) {
+			result.mismatches.push({
+				id,
+				row,
+				expected,
+				actual: null,
+				message: `QR Code 無法解碼：${decoded.error?.message}`,
+			});
+			continue;
+		}
+		if (expected === undefined) {
+			result.unverified++;
+			result.passed++;
+			continue;
+		}
+		if (decoded.data !== expected) {
+			result.mismatches.push({
+				id,
+				row,
+				expected,
+				actual: decoded.data ?? null,
+				message: `QR Code 解碼內容與預期不符（預期 "${expected}"）`,
+			});
+			continue;
+		}
+		result.passed++;
+	}
+
+	return result;
+}
+
+/**
+ * 轉換為「檢查報告」的項目
+ * @param {string} worksheet - 工作表名稱
+ * @param {string} imageColumn - 圖片欄位
+ * @param {DecodeCheckResult} result - 檢查結果
+ * @returns {ValidationIssue[]} 報告項目
+ */
+export function toReportIssues(
+	worksheet: string,
+	imageColumn: string,
+	result: DecodeCheckResult
+): ValidationIssue[] {
+	return result.mismatches.map((mismatch) => ({
+		severity: "error",
+		code: "decode_mismatch",
+		worksheet,
+		row: mismatch.row,
+		id: mismatch.id,
+		field: imageColumn,
+		value: mismatch.actual,
+		message: mismatch.message,
+	}));
+}
+
+/**
+ * 在主控台列出解碼檢查摘要
+ * @param {DecodeCheckResult} result - 檢查結果
+ * @param {number} limit - 最多列出幾筆
+ */
+export function printDecodeSummary(
+	result: DecodeCheckResult,
+	limit = 10
+): void {
+	const unverified =
+		result.unverified > 0
+			? `，其中 ${result.unverified} 張沒有預期內容可比對`
+			: "";
+	if (result.mismatches.length === 0) {
+		console.log(
+			`✅ 解碼驗證通過：${result.passed}/${result.checked} 張${unverified}`
+		);
+		return;
+	}
+
+	console.error(
+		`❌ 解碼驗證：${result.mismatches.length}/${result.checked} 張不符${unverified}`
+	);
+	for (const mismatch of result.mismatches.slice(0, limit)) {
+		console.error(
+			`   ❌ 第 ${mismatch.row} 行 ${mismatch.id}：${mismatch.message}${
+				mismatch.actual === null ? "" : `，實際為 "${mismatch.actual}"`
+			}`
+		);
+	}
+	if (result.mismatches.length > limit) {
+		console.error(
+			`   ...其餘 ${
+				result.mismatches.length - limit
+			} 筆請見「${REPORT_WORKSHEET_NAME}」工作表`
+		);
+	}
+}
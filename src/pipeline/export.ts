@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+import { escapeCsvFormula, formatCsv } from "../service/csv_reader";
+import { sanitizeFileName } from "../service/file_naming";
+import QRCodeService from "../service/qrcode";
+import QRManifest, { ManifestFile } from "../service/qr_manifest";
+import ReadExcelFile from "../service/read_excel_file";
+import { cellText } from "../service/row_schema";
+import ZipArchiveService, { ZipEntry } from "../service/zip_archive";
+import { JobConfig } from "./job_config";
+import { createPayloadBuilder } from "./payload";
+import { loadRoster } from "./roster";
+
+export interface ResolvedExportConfig {
+	input: string; // 名單檔案（絕對路徑）
+	out: string; // 整體的 ZIP（絕對路徑），分組的 ZIP 輸出在同一個資料夾
+	images: string; // QR Code 圖片根目錄（絕對路徑）
+	jobs: JobConfig[];
+	groupBy?: string; // 另外依此欄位的值分別輸出 ZIP
+}
+
+export interface ExportArchive {
+	group: string | null; // 分組的值，整體的 ZIP 為 null
+	filePath: string;
+	count: number; // 包含的 ID 數
+}
+
+export interface ExportResult {
+	success: boolean; // 所有 ZIP 都寫入成功，且名單中的 ID 都有圖片
+	archives: ExportArchive[];
+	missing: string[]; // 沒有圖片的 ID（{工作表}!{行號} {ID}），需先執行 generate
+}
+
+interface ExportItem {
+	type: string;
+	id: string;
+	name: string;
+	payload: string;
+	group: string;
+	files: { name: string; filePath: string }[]; // 壓縮檔中的路徑與來源檔案
+}
+
+export const INDEX_FILE_NAME = "index.csv";
+
+// 分組欄位空白時的名稱
+const UNGROUPED = "未分組";
+
+/**
+ * 將已產生的 QR Code 圖片打包為 ZIP：一個包含所有圖片的 ZIP，
+ * 指定 groupBy 時再依欄位的值（如各組）各輸出一個，每個 ZIP 都附上 index.csv
+ * 圖片依產生紀錄取得，沒有紀錄或檔案已刪除的 ID 不會放入，並列在結果中
+ * @param {ResolvedExportConfig} config - 匯出設定
+ * @returns {Promise<ExportResult>} 匯出結果
+ */
+export async function runExport(
+	config: ResolvedExportConfig
+): Promise<ExportResult> {
+	const readExcelService = new ReadExcelFile();
+	const qrcodeService = new QRCodeService(config.images);
+	const zipService = new ZipArchiveService();
+
+	const items: ExportItem[] = [];
+	const missing: string[] = [];
+	for (const job of config.jobs) {
+		console.log(`📦 準備 ${job.worksheet} 的 QR Code...`);
+
+		const roster = await loadRoster(readExcelService, config.input, job);
+		if (config.groupBy && !roster.fields.includes(config.groupBy)) {
+			throw new Error(
+				`工作表 ${job.worksheet} 沒有分組欄位 ${
+					config.groupBy
+				}，可用欄位：${roster.fields.join(", ")}`
+			);
+		}
+		// 舊版紀錄沒有內容；未簽章時內容固定，可以重新產生
+		const buildPayload = job.signature
+			? null
+			: createPayloadBuilder(job, roster.fields);
+
+		const folder = qrcodeService.getOutputFolder(job.type);
+		const manifest = QRManifest.load(folder, job.type);
+		const missingBefore = missing.length;
+		roster.rows.forEach((staff, index) => {
+			const entry = manifest.get(staff.id);
+			const files = Object.values(entry?.files ?? {})
+				.filter((file): file is ManifestFile => file !== undefined)
+				.map((file) => ({
+					name: `${path.basename(folder)}/${file.file}`,
+					filePath: manifest.getFilePath(file),
+				}))
+				.filter((file) => fs.existsSync(file.filePath));
+			if (!entry || files.length === 0) {
+				missing.push(
+					`${job.worksheet}!${roster.rowNumbers[index]} ${staff.id}`
+				);
+				return;
+			}
+
+			items.push({
+				type: job.type,
+				id: staff.id,
+				// 眷屬的姓名在 family 欄位，staff_name 是對應的夥伴
+				name: staff.family || staff.staff_name || "",
+				payload: entry.payload ?? (buildPayload ? buildPayload(staff) : ""),
+				group: config.groupBy
+					? cellText(staff[config.groupBy]).trim() || UNGROUPED
+					: "",
+				files,
+			});
+		});
+		console.log(
+			`👥 ${job.worksheet}：${roster.rows.length} 筆，${
+				roster.rows.length - (missing.length - missingBefore)
+			} 筆有圖片`
+		);
+	}
+
+	if (missing.length > 0) {
+		console.warn(
+			`⚠️ ${
+				missing.length
+			} 個 ID 沒有已產生的 QR Code 圖片，請先執行 generate：${missing
+				.slice(0, 5)
+				.join("、")}${missing.length > 5 ? "…" : ""}`
+		);
+	}
+	if (items.length === 0) {
+		throw new Error("沒有可匯出的 QR Code 圖片，請先執行 generate");
+	}
+
+	// 整體的 ZIP 在前，之後依分組的值排序；檔名重複（不分大小寫）時加上編號
+	const groups: [string | null, ExportItem[]][] = [[null, items]];
+	if (config.groupBy) {
+		const byGroup = new Map<string, ExportItem[]>();
+		for (const item of items) {
+			const list = byGroup.get(item.group) || [];
+			list.push(item);
+			byGroup.set(item.group, list);
+		}
+		groups.push(
+			...[...byGroup].sort(([a], [b]) =>
+				a.localeCompare(b, "zh-Hant", { numeric: true })
+			)
+		);
+	}
+
+	const ext = path.extname(config.out);
+	const base = config.out.slice(0, -ext.length);
+	const usedPaths = new Set([config.out.toLowerCase()]);
+	const contents = new Map<string, Buffer>();
+
+	const archives: ExportArchive[] = [];
+	let success = missing.length === 0;
+	for (const [group, groupItems] of groups) {
+		let filePath = config.out;
+		if (group !== null) {
+			const name = `${base}_${sanitizeFileName(group)}`;
+			filePath = `${name}${ext}`;
+			for (let n = 2; usedPaths.has(filePath.toLowerCase()); n++) {
+				filePath = `${name}_${n}${ext}`;
+			}
+			usedPaths.add(filePath.toLowerCase());
+		}
+
+		const entries: ZipEntry[] = [
+			{ name: INDEX_FILE_NAME, data: formatCsv(toIndexRows(groupItems)) },
+		];
+		for (const item of groupItems) {
+			for (const file of item.files) {
+				if (!contents.has(file.filePath)) {
+					contents.set(file.filePath, fs.readFileSync(file.filePath));
+				}
+				entries.push({
+					name: file.name,
+					data: contents.get(file.filePath) as Buffer,
+				});
+			}
+		}
+
+		const zipResult = await zipService.writeZip(filePath, entries);
+		if (!zipResult.success) {
+			console.error(
+				`❌ ZIP 寫入失敗：${filePath} - ${zipResult.error?.message}`
+			);
+			success = false;
+			continue;
+		}
+		archives.push({ group, filePath, count: groupItems.length });
+		console.log(
+			`🗜️ ${path.basename(filePath)}：${groupItems.length} 筆，${(
+				(zipResult.size ?? 0) / 1024
+			).toFixed(1)} KB${group === null ? "" : `（${config.groupBy}=${group}）`}`
+		);
+	}
+
+	return { success, archives, missing };
+}
+
+/**
+ * 「index.csv」的資料（第一列為標題），同一個 ID 有多種格式時檔案以 ; 分隔
+ * 名單中的值可能以 = 等開頭，一律經過 escapeCsvFormula，Excel 開啟時不會執行公式
+ */
+function toIndexRows(items: ExportItem[]): string[][] {
+	return [
+		["type", "id", "name", "payload", "file"],
+		...items.map((item) =>
+			[
+				item.type,
+				item.id,
+				item.name,
+				item.payload,
+				item.files.map((file) => file.name).join(";"),
+			].map(escapeCsvFormula)
+		),
+	];
+}
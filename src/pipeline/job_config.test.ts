@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ConfigError, normalizeJob } from "./job_config";
+
+test("normalizeJob 轉換欄位預設值但不修改傳入的設定", () => {
+	const raw = {
+		worksheet: "夥伴名單",
+		type: "member",
+		columns: {
+			team: { aliases: ["組別"], type: "number", default: "0" },
+			email: ["信箱"],
+		},
+	};
+	const snapshot = JSON.parse(JSON.stringify(raw));
+
+	const job = normalizeJob(raw);
+	assert.deepEqual(job.columns, {
+		team: { aliases: ["組別"], type: "number", default: 0 },
+		email: ["信箱"],
+	});
+	assert.deepEqual(raw, snapshot);
+	// 同一份設定可重複使用（如 HTTP 服務每次請求）
+	assert.deepEqual(normalizeJob(raw).columns, job.columns);
+});
+
+test("normalizeJob 的欄位預設值無法轉換時拋出 ConfigError", () => {
+	assert.throws(
+		() =>
+			normalizeJob({
+				worksheet: "夥伴名單",
+				type: "member",
+				columns: { team: { type: "number", default: "abc" } },
+			}),
+		(error: Error) =>
+			error instanceof ConfigError &&
+			/columns\.team\.default 無法轉換為 number："abc"/.test(error.message)
+	);
+});
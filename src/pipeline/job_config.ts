@@ -0,0 +1,759 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_BACKUP_RETENTION } from "../service/backup";
+import {
+	BADGE_PRESETS,
+	BadgeLayout,
+	createGridLayout,
+	DEFAULT_BADGE_PRESET,
+} from "../service/badge_pdf";
+import { ColumnMappingInput } from "../service/column_mapping";
+import FileNameTemplate, {
+	DEFAULT_FILE_NAME_TEMPLATE,
+} from "../service/file_naming";
+import {
+	DEFAULT_ID_NORMALIZATION,
+	IdNormalization,
+	normalizeIdNormalization,
+} from "../service/id_normalizer";
+import {
+	normalizeSignatureConfig,
+	SignatureConfig,
+} from "../service/payload_signer";
+import {
+	normalizeRenderOptions,
+	QR_IMAGE_FORMATS,
+	QRImageFormat,
+	QRRenderOptions,
+} from "../service/qrcode";
+import PayloadTemplate, {
+	DEFAULT_PAYLOAD,
+	PayloadConfig,
+} from "../service/payload_template";
+import { coerceValue, FIELD_TYPES, FieldType } from "../service/row_schema";
+import { IMAGE_FIT_MODES, ImageFit } from "../service/write_excel_file";
+
+/**
+ * 設定檔內容錯誤，CLI 會以 EXIT_CODES.USAGE 結束
+ */
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ConfigError";
+	}
+}
+
+export interface JobOptions {
+	headerRows: number; // 標題列數，最後一列作為欄位標題，資料從下一列開始
+	imageWidth: number; // 插入 Excel 的圖片寬度 (px)
+	imageHeight: number; // 插入 Excel 的圖片高度 (px)
+	imageFit: ImageFit; // image：加大欄寬列高容納圖片；cell：縮放圖片放入儲存格；none：不調整
+	imagePadding: number; // 圖片與儲存格邊緣的距離 (px)
+	imageFormats: QRImageFormat[]; // 寫入磁碟的格式，空陣列表示不寫檔；第一個 png/jpeg 作為嵌入 Excel 的格式
+	decodeCheck: boolean; // 插入前解碼每張圖片，確認內容與預期相符
+}
+
+export type OutputColumnKind = "payload" | "link" | "status" | "timestamp";
+
+export const OUTPUT_COLUMN_KINDS: OutputColumnKind[] = [
+	"payload",
+	"link",
+	"status",
+	"timestamp",
+];
+
+/**
+ * 附加欄位的預設標題
+ */
+export const OUTPUT_COLUMN_HEADERS: Record<OutputColumnKind, string> = {
+	payload: "QR Code 內容",
+	link: "QR Code 檔案",
+	status: "產生狀態",
+	timestamp: "產生時間",
+};
+
+export interface OutputColumn {
+	column: string; // 欄位字母 (如: 'H')
+	header: string; // 寫入標題列的文字
+}
+
+export interface JobConfig {
+	worksheet: string; // 工作表名稱
+	type: string; // QR Code 資料夾前綴 ({type}_qrcode)
+	imageColumn: string; // 插入圖片的欄位 (如: 'G')
+	fileName: string; // QR Code 檔名樣板 (如: '{team}/{staff_name}_{id}.{ext}')，相對於 {type}_qrcode
+	outputColumns: Partial<Record<OutputColumnKind, OutputColumn>>; // 圖片旁的附加欄位，未指定的不寫入
+	columns: ColumnMappingInput; // 欄位對應設定，與預設的員工欄位合併
+	idNormalization: IdNormalization; // ID 正規化（全形轉半形、大小寫、補 0、前綴）
+	payload: PayloadConfig; // QR Code 內容樣板
+	signature?: SignatureConfig; // 簽章設定，未指定時不簽章
+	render: QRRenderOptions; // QR Code 繪製選項（容錯等級、留白、尺寸、顏色等）
+	options: JobOptions;
+}
+
+export interface BadgeConfig {
+	out?: string; // 輸出 PDF（絕對路徑）
+	layout: BadgeLayout; // 標籤版型
+	font?: string; // 字型檔（絕對路徑）
+	fontSize: number; // 姓名字級 (pt)
+	cutLines: boolean; // 是否畫出標籤外框
+	title: string; // 姓名樣板
+	lines: string[]; // 其他資訊樣板，空白行會略過
+}
+
+export interface ExportConfig {
+	out?: string; // 輸出的 ZIP（絕對路徑）
+	groupBy?: string; // 另外依此欄位的值分別輸出 ZIP（如 team），未指定時只輸出整體的 ZIP
+}
+
+export interface ServerConfig {
+	host?: string; // 監聽位址
+	port?: number; // 連接埠，0 表示自動選擇
+	maxUploadMb?: number; // POST /workbooks 的上傳大小上限 (MB)
+	allowSigning?: boolean; // 允許服務以設有 signature 的工作簽發 QR Code
+}
+
+export interface GenerationOptions {
+	concurrency: number; // 同時產生的 QR Code 數
+	workerThreads: boolean; // 是否以 worker_threads 編碼（大量或有 Logo 時較快）
+	retries: number; // 單一 QR Code 失敗後的重試次數
+	retryDelay: number; // 第一次重試前的等待時間 (ms)，之後每次加倍
+}
+
+export interface BackupOptions {
+	retention: number; // 每個輸出檔保留的備份數，0 表示不備份
+	folder?: string; // 備份資料夾（絕對路徑），預設為輸出檔所在資料夾的 .backups
+}
+
+export interface PipelineConfig {
+	input?: string; // 輸入 Excel 檔案（絕對路徑）
+	out?: string; // 輸出 Excel 檔案（絕對路徑）
+	images?: string; // QR Code 圖片根目錄（絕對路徑）
+	jobs: JobConfig[];
+	badges?: BadgeConfig; // 名牌 PDF 設定
+	export?: ExportConfig; // QR Code 圖片 ZIP 匯出設定
+	server?: ServerConfig; // HTTP 服務設定
+	generation?: Partial<GenerationOptions>; // QR Code 產生的併發與重試設定
+	backup?: Partial<BackupOptions>; // 覆寫輸出檔前的備份設定
+	stream?: boolean; // 以串流讀寫 Excel（僅 .xlsx），適合大型名單
+}
+
+export const DEFAULT_IMAGE_COLUMN = "G";
+
+// 眷屬名單的 staff_name 是對應的夥伴，眷屬本人的姓名在 family
+export const DEFAULT_BADGE_TITLE = "{family|staff_name}";
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+	concurrency: 4,
+	workerThreads: false,
+	retries: 2,
+	retryDelay: 100,
+};
+
+export const DEFAULT_BACKUP_OPTIONS: BackupOptions = {
+	retention: DEFAULT_BACKUP_RETENTION,
+};
+
+export const DEFAULT_JOB_OPTIONS: JobOptions = {
+	headerRows: 1,
+	imageWidth: 50, // 縮小圖片尺寸，避免 Excel 錯誤
+	imageHeight: 50,
+	imageFit: "none", // 預設維持舊版的圖片位置，需要時再指定 image 或 cell
+	imagePadding: 0,
+	imageFormats: ["png"],
+	decodeCheck: false, // 每張圖片多一次解碼，需要時以設定或 --decode-check 啟用
+};
+
+/**
+ * 取得嵌入 Excel 使用的格式（第一個點陣格式，沒有時為 png）
+ */
+export function getEmbedFormat(options: JobOptions): QRImageFormat {
+	return options.imageFormats.find((format) => format !== "svg") || "png";
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, field: string): string {
+	if (typeof value !== "string" || value.trim() === "") {
+		throw new ConfigError(`${field} 必須是非空字串`);
+	}
+	return value.trim();
+}
+
+function expectInteger(value: unknown, field: string, min: number): number {
+	if (!Number.isInteger(value) || (value as number) < min) {
+		throw new ConfigError(`${field} 必須是大於或等於 ${min} 的整數`);
+	}
+	return value as number;
+}
+
+/**
+ * 建立工作設定，未指定的選項使用預設值
+ * @param {unknown} job - 工作設定（至少包含 worksheet 與 type）
+ * @param {string} field - 錯誤訊息中使用的欄位路徑
+ * @param {string} baseDir - 相對路徑（如金鑰檔）的基準資料夾
+ */
+export function normalizeJob(
+	job: unknown,
+	field = "job",
+	baseDir = process.cwd()
+): JobConfig {
+	if (!isPlainObject(job)) {
+		throw new ConfigError(`${field} 必須是物件`);
+	}
+
+	const worksheet = expectString(job.worksheet, `${field}.worksheet`);
+	const type = expectString(job.type, `${field}.type`);
+	if (!/^[A-Za-z0-9_-]+$/.test(type)) {
+		throw new ConfigError(
+			`${field}.type 無效：${type}，僅允許英數字、底線與連字號`
+		);
+	}
+
+	const imageColumn =
+		job.imageColumn === undefined
+			? DEFAULT_IMAGE_COLUMN
+			: expectString(job.imageColumn, `${field}.imageColumn`).toUpperCase();
+	if (!/^[A-Z]{1,3}$/.test(imageColumn)) {
+		throw new ConfigError(`${field}.imageColumn 無效：${imageColumn}`);
+	}
+
+	const outputColumns = normalizeOutputColumns(
+		job.outputColumns,
+		`${field}.outputColumns`,
+		imageColumn
+	);
+
+	const columns = job.columns === undefined ? {} : job.columns;
+	if (!isPlainObject(columns)) {
+		throw new ConfigError(`${field}.columns 必須是物件`);
+	}
+	// 轉換後的預設值寫入新的物件，不修改傳入的設定
+	const normalizedColumns: Record<string, unknown> = { ...columns };
+	for (const [column, rule] of Object.entries(columns)) {
+		const aliases = Array.isArray(rule)
+			? rule
+			: isPlainObject(rule)
+			? rule.aliases
+			: null;
+		if (
+			(aliases !== undefined && !Array.isArray(aliases)) ||
+			(Array.isArray(aliases) &&
+				aliases.some((alias) => typeof alias !== "string"))
+		) {
+			throw new ConfigError(
+				`${field}.columns.${column} 必須是標題陣列或 { aliases, required, type, default }`
+			);
+		}
+		if (!isPlainObject(rule)) {
+			continue;
+		}
+		if (rule.required !== undefined && typeof rule.required !== "boolean") {
+			throw new ConfigError(`${field}.columns.${column}.required 必須是布林值`);
+		}
+		if (
+			rule.type !== undefined &&
+			!FIELD_TYPES.includes(rule.type as FieldType)
+		) {
+			throw new ConfigError(
+				`${field}.columns.${column}.type 必須是 ${FIELD_TYPES.join(
+					"、"
+				)} 其中之一`
+			);
+		}
+		if (rule.default !== undefined) {
+			const coerced =
+				["string", "number", "boolean"].includes(typeof rule.default) &&
+				coerceValue(rule.default, (rule.type as FieldType) ?? "string");
+			if (!coerced || "error" in coerced || coerced.value === null) {
+				throw new ConfigError(
+					`${field}.columns.${column}.default 無法轉換為 ${
+						rule.type ?? "string"
+					}：${JSON.stringify(rule.default)}`
+				);
+			}
+			normalizedColumns[column] = { ...rule, default: coerced.value };
+		}
+	}
+
+	let fileName = DEFAULT_FILE_NAME_TEMPLATE;
+	if (job.fileName !== undefined) {
+		try {
+			fileName = new FileNameTemplate(job.fileName).template;
+		} catch (error) {
+			throw new ConfigError(`${field}.fileName ${(error as Error).message}`);
+		}
+	}
+
+	let idNormalization: IdNormalization = DEFAULT_ID_NORMALIZATION;
+	if (job.idNormalization !== undefined) {
+		try {
+			idNormalization = normalizeIdNormalization(job.idNormalization);
+		} catch (error) {
+			throw new ConfigError(
+				`${field}.idNormalization ${(error as Error).message}`
+			);
+		}
+	}
+
+	let payload: PayloadConfig = DEFAULT_PAYLOAD;
+	if (job.payload !== undefined) {
+		try {
+			payload = PayloadTemplate.normalizeConfig(job.payload);
+			new PayloadTemplate(payload); // 提早檢查樣板語法
+		} catch (error) {
+			throw new ConfigError(`${field}.payload ${(error as Error).message}`);
+		}
+	}
+
+	let signature: SignatureConfig | undefined;
+	if (job.signature !== undefined) {
+		try {
+			signature = normalizeSignatureConfig(job.signature, baseDir);
+		} catch (error) {
+			throw new ConfigError(`${field}.signature ${(error as Error).message}`);
+		}
+	}
+
+	let render: QRRenderOptions = {};
+	if (job.render !== undefined) {
+		try {
+			render = normalizeRenderOptions(job.render, baseDir);
+		} catch (error) {
+			throw new ConfigError(`${field}.render ${(error as Error).message}`);
+		}
+	}
+
+	const rawOptions = job.options === undefined ? {} : job.options;
+	if (!isPlainObject(rawOptions)) {
+		throw new ConfigError(`${field}.options 必須是物件`);
+	}
+
+	const options: JobOptions = { ...DEFAULT_JOB_OPTIONS };
+	if (rawOptions.headerRows !== undefined) {
+		options.headerRows = expectInteger(
+			rawOptions.headerRows,
+			`${field}.options.headerRows`,
+			1
+		);
+	}
+	if (rawOptions.imageWidth !== undefined) {
+		options.imageWidth = expectInteger(
+			rawOptions.imageWidth,
+			`${field}.options.imageWidth`,
+			1
+		);
+	}
+	if (rawOptions.imageHeight !== undefined) {
+		options.imageHeight = expectInteger(
+			rawOptions.imageHeight,
+			`${field}.options.imageHeight`,
+			1
+		);
+	}
+	if (rawOptions.imageFit !== undefined) {
+		if (!IMAGE_FIT_MODES.includes(rawOptions.imageFit)) {
+			throw new ConfigError(
+				`${field}.options.imageFit 必須是 ${IMAGE_FIT_MODES.join("/")}`
+			);
+		}
+		options.imageFit = rawOptions.imageFit;
+	}
+	if (rawOptions.imagePadding !== undefined) {
+		options.imagePadding = expectInteger(
+			rawOptions.imagePadding,
+			`${field}.options.imagePadding`,
+			0
+		);
+	}
+	if (rawOptions.clearFolder !== undefined) {
+		console.warn(
+			`⚠️ ${field}.options.clearFolder 已停用：QR Code 依產生紀錄增量更新，需要全部重新產生時請使用 --force`
+		);
+	}
+	if (rawOptions.imageFormats !== undefined) {
+		const formats = rawOptions.imageFormats;
+		if (
+			!Array.isArray(formats) ||
+			formats.some((format) => !QR_IMAGE_FORMATS.includes(format))
+		) {
+			throw new ConfigError(
+				`${field}.options.imageFormats 必須是陣列，可用格式：${QR_IMAGE_FORMATS.join(
+					", "
+				)}`
+			);
+		}
+		options.imageFormats = formats.filter(
+			(format, index) => formats.indexOf(format) === index
+		);
+	}
+	if (rawOptions.decodeCheck !== undefined) {
+		if (typeof rawOptions.decodeCheck !== "boolean") {
+			throw new ConfigError(`${field}.options.decodeCheck 必須是布林值`);
+		}
+		options.decodeCheck = rawOptions.decodeCheck;
+	}
+
+	return {
+		worksheet,
+		type,
+		imageColumn,
+		fileName,
+		outputColumns,
+		columns: normalizedColumns as ColumnMappingInput,
+		idNormalization,
+		payload,
+		signature,
+		render,
+		options,
+	};
+}
+
+/**
+ * 驗證附加欄位設定，值可以是欄位字母或 { column, header }
+ * @param {unknown} input - 設定檔中的 outputColumns
+ * @param {string} field - 錯誤訊息中的欄位名稱
+ * @param {string} imageColumn - 圖片欄位，附加欄位不可與其相同
+ * @returns {Partial<Record<OutputColumnKind, OutputColumn>>} 驗證後的設定
+ */
+export function normalizeOutputColumns(
+	input: unknown,
+	field: string,
+	imageColumn: string
+): Partial<Record<OutputColumnKind, OutputColumn>> {
+	if (input === undefined) {
+		return {};
+	}
+	if (!isPlainObject(input)) {
+		throw new ConfigError(`${field} 必須是物件`);
+	}
+
+	const outputColumns: Partial<Record<OutputColumnKind, OutputColumn>> = {};
+	const used = new Set<string>([imageColumn]);
+	for (const [kind, value] of Object.entries(input)) {
+		if (!OUTPUT_COLUMN_KINDS.includes(kind as OutputColumnKind)) {
+			throw new ConfigError(
+				`${field}.${kind} 無效，可用：${OUTPUT_COLUMN_KINDS.join(", ")}`
+			);
+		}
+
+		const raw = isPlainObject(value) ? value : { column: value };
+		const column = expectString(raw.column, `${field}.${kind}.column`)
+			.trim()
+			.toUpperCase();
+		if (!/^[A-Z]{1,3}$/.test(column)) {
+			throw new ConfigError(`${field}.${kind} 欄位無效：${column}`);
+		}
+		if (used.has(column)) {
+			throw new ConfigError(
+				`${field}.${kind} 欄位 ${column} 與圖片欄位或其他附加欄位重複`
+			);
+		}
+		used.add(column);
+
+		outputColumns[kind as OutputColumnKind] = {
+			column,
+			header:
+				raw.header === undefined
+					? OUTPUT_COLUMN_HEADERS[kind as OutputColumnKind]
+					: expectString(raw.header, `${field}.${kind}.header`),
+		};
+	}
+	return outputColumns;
+}
+
+/**
+ * 檢查工作設定之間是否衝突（重複的工作表或資料夾前綴）
+ */
+export function assertUniqueJobs(jobs: JobConfig[]): void {
+	const worksheets = new Set<string>();
+	const types = new Set<string>();
+
+	for (const job of jobs) {
+		if (worksheets.has(job.worksheet)) {
+			throw new ConfigError(`工作表重複指定：${job.worksheet}`);
+		}
+		if (types.has(job.type)) {
+			throw new ConfigError(`QR Code 類型重複指定：${job.type}`);
+		}
+		worksheets.add(job.worksheet);
+		types.add(job.type);
+	}
+}
+
+/**
+ * 建立名牌設定，未指定的選項使用預設值
+ * preset 與 columns/rows 同時指定時，以 columns/rows 自動計算版型
+ * @param {unknown} input - 設定檔中的 badges
+ * @param {string} baseDir - 相對路徑的基準資料夾
+ */
+export function normalizeBadgeConfig(
+	input: unknown,
+	baseDir = process.cwd()
+): BadgeConfig {
+	const raw = input === undefined ? {} : input;
+	if (!isPlainObject(raw)) {
+		throw new ConfigError("badges 必須是物件");
+	}
+
+	const presetName =
+		raw.preset === undefined
+			? DEFAULT_BADGE_PRESET
+			: expectString(raw.preset, "badges.preset");
+	const preset = BADGE_PRESETS[presetName];
+	if (!preset) {
+		throw new ConfigError(
+			`未知的名牌版型：${presetName}，可用：${Object.keys(BADGE_PRESETS).join(
+				", "
+			)}`
+		);
+	}
+
+	let layout: BadgeLayout = { ...preset };
+	if (raw.columns !== undefined || raw.rows !== undefined) {
+		layout = createGridLayout(
+			expectInteger(raw.columns ?? preset.columns, "badges.columns", 1),
+			expectInteger(raw.rows ?? preset.rows, "badges.rows", 1),
+			raw.margin === undefined
+				? undefined
+				: expectInteger(raw.margin, "badges.margin", 0),
+			raw.gap === undefined
+				? undefined
+				: expectInteger(raw.gap, "badges.gap", 0)
+		);
+	}
+
+	const lines = raw.lines === undefined ? ["{team}", "{family}"] : raw.lines;
+	if (!Array.isArray(lines) || lines.some((line) => typeof line !== "string")) {
+		throw new ConfigError("badges.lines 必須是樣板字串陣列");
+	}
+
+	if (raw.cutLines !== undefined && typeof raw.cutLines !== "boolean") {
+		throw new ConfigError("badges.cutLines 必須是布林值");
+	}
+
+	return {
+		out:
+			raw.out === undefined
+				? undefined
+				: path.resolve(baseDir, expectString(raw.out, "badges.out")),
+		layout,
+		font:
+			raw.font === undefined
+				? undefined
+				: path.resolve(baseDir, expectString(raw.font, "badges.font")),
+		fontSize:
+			raw.fontSize === undefined
+				? 14
+				: expectInteger(raw.fontSize, "badges.fontSize", 4),
+		cutLines: raw.cutLines ?? true,
+		title:
+			raw.title === undefined
+				? DEFAULT_BADGE_TITLE
+				: expectString(raw.title, "badges.title"),
+		lines,
+	};
+}
+
+/**
+ * 驗證 ZIP 匯出設定
+ * @param {unknown} input - 設定檔中的 export
+ * @param {string} baseDir - 相對路徑的基準資料夾
+ */
+export function normalizeExportConfig(
+	input: unknown,
+	baseDir = process.cwd()
+): ExportConfig {
+	if (!isPlainObject(input)) {
+		throw new ConfigError("export 必須是物件");
+	}
+
+	const out =
+		input.out === undefined
+			? undefined
+			: path.resolve(baseDir, expectString(input.out, "export.out"));
+	if (out !== undefined && path.extname(out).toLowerCase() !== ".zip") {
+		throw new ConfigError(`export.out 必須是 .zip：${out}`);
+	}
+
+	return {
+		out,
+		groupBy:
+			input.groupBy === undefined
+				? undefined
+				: expectString(input.groupBy, "export.groupBy"),
+	};
+}
+
+/**
+ * 驗證 HTTP 服務設定，只回傳有指定的欄位
+ * @param {unknown} input - 設定檔中的 server
+ */
+export function normalizeServerConfig(input: unknown): ServerConfig {
+	if (!isPlainObject(input)) {
+		throw new ConfigError("server 必須是物件");
+	}
+
+	const config: ServerConfig = {};
+	if (input.host !== undefined) {
+		config.host = expectString(input.host, "server.host");
+	}
+	if (input.port !== undefined) {
+		config.port = expectInteger(input.port, "server.port", 0);
+		if (config.port > 65535) {
+			throw new ConfigError("server.port 必須在 0 到 65535 之間");
+		}
+	}
+	if (input.maxUploadMb !== undefined) {
+		if (typeof input.maxUploadMb !== "number" || !(input.maxUploadMb > 0)) {
+			throw new ConfigError("server.maxUploadMb 必須是大於 0 的數字");
+		}
+		config.maxUploadMb = input.maxUploadMb;
+	}
+	if (input.allowSigning !== undefined) {
+		if (typeof input.allowSigning !== "boolean") {
+			throw new ConfigError("server.allowSigning 必須是布林值");
+		}
+		config.allowSigning = input.allowSigning;
+	}
+	return config;
+}
+
+/**
+ * 驗證 QR Code 產生的併發與重試設定，只回傳有指定的欄位
+ * @param {unknown} input - 設定檔中的 generation
+ * @returns {Partial<GenerationOptions>} 驗證後的設定
+ */
+export function normalizeGenerationOptions(
+	input: unknown
+): Partial<GenerationOptions> {
+	if (!isPlainObject(input)) {
+		throw new ConfigError("generation 必須是物件");
+	}
+
+	const options: Partial<GenerationOptions> = {};
+	if (input.concurrency !== undefined) {
+		options.concurrency = expectInteger(
+			input.concurrency,
+			"generation.concurrency",
+			1
+		);
+	}
+	if (input.workerThreads !== undefined) {
+		if (typeof input.workerThreads !== "boolean") {
+			throw new ConfigError("generation.workerThreads 必須是布林值");
+		}
+		options.workerThreads = input.workerThreads;
+	}
+	if (input.retries !== undefined) {
+		options.retries = expectInteger(input.retries, "generation.retries", 0);
+	}
+	if (input.retryDelay !== undefined) {
+		options.retryDelay = expectInteger(
+			input.retryDelay,
+			"generation.retryDelay",
+			0
+		);
+	}
+	return options;
+}
+
+/**
+ * 驗證備份設定，只回傳有指定的欄位
+ * @param {unknown} input - 設定檔中的 backup
+ * @param {string} baseDir - 相對路徑的基準資料夾
+ * @returns {Partial<BackupOptions>} 驗證後的設定
+ */
+export function normalizeBackupOptions(
+	input: unknown,
+	baseDir = process.cwd()
+): Partial<BackupOptions> {
+	if (!isPlainObject(input)) {
+		throw new ConfigError("backup 必須是物件");
+	}
+
+	const options: Partial<BackupOptions> = {};
+	if (input.retention !== undefined) {
+		options.retention = expectInteger(input.retention, "backup.retention", 0);
+	}
+	if (input.folder !== undefined) {
+		options.folder = path.resolve(
+			baseDir,
+			expectString(input.folder, "backup.folder")
+		);
+	}
+	return options;
+}
+
+/**
+ * 讀取工作設定檔 (JSON)
+ * 設定檔中的相對路徑以設定檔所在資料夾為基準
+ * @param {string} configPath - 設定檔路徑
+ * @returns {PipelineConfig} 設定內容
+ */
+export function loadPipelineConfig(configPath: string): PipelineConfig {
+	const resolvedPath = path.resolve(configPath);
+	if (!fs.existsSync(resolvedPath)) {
+		throw new ConfigError(`設定檔不存在：${resolvedPath}`);
+	}
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(fs.readFileSync(resolvedPath, "utf8"));
+	} catch (error) {
+		throw new ConfigError(
+			`無法解析設定檔：${resolvedPath} - ${(error as Error).message}`
+		);
+	}
+
+	if (!isPlainObject(raw)) {
+		throw new ConfigError("設定檔內容必須是物件");
+	}
+
+	const baseDir = path.dirname(resolvedPath);
+	const resolvePath = (value: unknown, field: string) =>
+		value === undefined
+			? undefined
+			: path.resolve(baseDir, expectString(value, field));
+
+	if (!Array.isArray(raw.jobs) || raw.jobs.length === 0) {
+		throw new ConfigError("設定檔必須包含至少一個 jobs 項目");
+	}
+
+	const jobs = raw.jobs.map((job: unknown, index: number) =>
+		normalizeJob(job, `jobs[${index}]`, baseDir)
+	);
+	assertUniqueJobs(jobs);
+
+	if (raw.stream !== undefined && typeof raw.stream !== "boolean") {
+		throw new ConfigError("stream 必須是布林值");
+	}
+
+	return {
+		input: resolvePath(raw.input, "input"),
+		out: resolvePath(raw.out, "out"),
+		images: resolvePath(raw.images, "images"),
+		jobs,
+		badges:
+			raw.badges === undefined
+				? undefined
+				: normalizeBadgeConfig(raw.badges, baseDir),
+		export:
+			raw.export === undefined
+				? undefined
+				: normalizeExportConfig(raw.export, baseDir),
+		server:
+			raw.server === undefined ? undefined : normalizeServerConfig(raw.server),
+		generation:
+			raw.generation === undefined
+				? undefined
+				: normalizeGenerationOptions(raw.generation),
+		backup:
+			raw.backup === undefined
+				? undefined
+				: normalizeBackupOptions(raw.backup, baseDir),
+		stream: raw.stream,
+	};
+}
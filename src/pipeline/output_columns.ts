@@ -0,0 +1,106 @@
+import path from "path";
+import { ColumnValues } from "../service/write_excel_file";
+import { JobConfig } from "./job_config";
+import { Roster } from "./roster";
+
+export type QRCodeState = "ok" | "skipped" | "failed";
+
+export interface QRCodeStatus {
+	state: QRCodeState; // ok：本次產生；skipped：未變更略過；failed：失敗
+	reason?: string; // 失敗原因
+	payload?: string; // 編碼的內容
+	filePath?: string; // 圖片檔案（絕對路徑），未寫入磁碟時為空
+	updatedAt?: Date; // 產生時間
+}
+
+const TIMESTAMP_FORMAT = "yyyy-mm-dd hh:mm:ss";
+
+/**
+ * ExcelJS 以 UTC 寫入日期，先換算成本地時間，開啟時才會顯示本地時間
+ */
+const toExcelLocalTime = (date: Date) =>
+	new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+
+/**
+ * 狀態欄文字 (如: 'ok'、'skipped'、'failed：缺少 ID')
+ */
+function formatState(status: QRCodeStatus): string {
+	return status.reason ? `${status.state}：${status.reason}` : status.state;
+}
+
+/**
+ * 依每筆資料的產生結果組成附加欄位（內容、檔案連結、狀態、產生時間）
+ * 沒有 ID 的資料行只會寫入狀態
+ * @param {JobConfig} job - 工作設定
+ * @param {Roster} roster - 名單
+ * @param {Map<string, QRCodeStatus>} statuses - 每個 ID 的產生結果
+ * @param {string} out - 輸出 Excel 檔案，檔案連結以其所在資料夾為基準
+ * @returns {ColumnValues[]} 要寫入的欄位
+ */
+export function buildOutputColumns(
+	job: JobConfig,
+	roster: Roster,
+	statuses: Map<string, QRCodeStatus>,
+	out: string
+): ColumnValues[] {
+	const { payload, link, status, timestamp } = job.outputColumns;
+	const payloadValues = new Map<number, string>();
+	const linkValues = new Map<number, { text: string; hyperlink: string }>();
+	const statusValues = new Map<number, string>();
+	const timestampValues = new Map<number, Date>();
+
+	for (const record of roster.records) {
+		const { id } = record;
+		if (id === null) {
+			const hasData = Object.values(record.values).some(
+				(value) =>
+					value !== null && value !== undefined && String(value).trim() !== ""
+			);
+			if (hasData) {
+				statusValues.set(record.row, "failed：缺少 ID");
+			}
+			continue;
+		}
+
+		const current = statuses.get(id);
+		if (!current) {
+			continue;
+		}
+		statusValues.set(record.row, formatState(current));
+		if (current.payload !== undefined) {
+			payloadValues.set(record.row, current.payload);
+		}
+		if (current.filePath) {
+			linkValues.set(record.row, {
+				text: path.basename(current.filePath),
+				// 相對路徑，輸出檔與圖片資料夾一起搬移時連結仍有效
+				hyperlink: path
+					.relative(path.dirname(out), current.filePath)
+					.split(path.sep)
+					.join("/"),
+			});
+		}
+		if (current.updatedAt) {
+			timestampValues.set(record.row, toExcelLocalTime(current.updatedAt));
+		}
+	}
+
+	const columns: ColumnValues[] = [];
+	if (payload) {
+		columns.push({ ...payload, values: payloadValues });
+	}
+	if (link) {
+		columns.push({ ...link, values: linkValues });
+	}
+	if (status) {
+		columns.push({ ...status, values: statusValues });
+	}
+	if (timestamp) {
+		columns.push({
+			...timestamp,
+			values: timestampValues,
+			numFmt: TIMESTAMP_FORMAT,
+		});
+	}
+	return columns;
+}
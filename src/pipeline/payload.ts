@@ -0,0 +1,49 @@
+import PayloadSigner from "../service/payload_signer";
+import PayloadTemplate from "../service/payload_template";
+import { JobConfig } from "./job_config";
+import { StaffData } from "./roster";
+
+export interface PayloadBuilder {
+	(staff: StaffData): string;
+	/**
+	 * 不含簽發時間的內容指紋，簽章 payload 每次產生都不同，增量更新改以此判斷是否變更
+	 */
+	fingerprint(staff: StaffData): string;
+}
+
+/**
+ * 依工作設定建立 QR Code 內容產生器（樣板 + 選用的簽章）
+ * @param {JobConfig} job - 工作設定
+ * @param {string[]} fields - 名單可用的欄位，用於檢查樣板
+ * @returns {PayloadBuilder} 產生器
+ */
+export function createPayloadBuilder(
+	job: JobConfig,
+	fields: string[]
+): PayloadBuilder {
+	const template = new PayloadTemplate(job.payload);
+	template.assertFields(fields);
+
+	if (!job.signature) {
+		return Object.assign((staff: StaffData) => template.render(staff), {
+			fingerprint: (staff: StaffData) => template.render(staff),
+		});
+	}
+
+	const signer = PayloadSigner.fromConfig(job.signature);
+	const { algorithm, event, expiresAt } = job.signature;
+	const signatureKey = JSON.stringify({
+		algorithm,
+		event,
+		expiresAt,
+		key: signer.keyFingerprint,
+	});
+	return Object.assign(
+		(staff: StaffData) =>
+			signer.sign(staff.id, job.type, template.render(staff)),
+		{
+			fingerprint: (staff: StaffData) =>
+				`${signatureKey}\n${template.render(staff)}`,
+		}
+	);
+}
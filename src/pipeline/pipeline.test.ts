@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { after, before, mock, test } from "node:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import QRDecoder from "../service/qr_decoder";
+import {
+	DEFAULT_BACKUP_OPTIONS,
+	DEFAULT_GENERATION_OPTIONS,
+	normalizeJob,
+} from "./job_config";
+import { ResolvedPipelineConfig, runPipeline } from "./pipeline";
+
+let tempDir: string;
+let input: string;
+
+before(async () => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "pipeline-test-"));
+	input = path.join(tempDir, "record.xlsx");
+
+	const workbook = new ExcelJS.Workbook();
+	const worksheet = workbook.addWorksheet("夥伴名單");
+	worksheet.addRow(["id", "staff_name", "team"]);
+	worksheet.addRow(["XSG0001", "王蘭君", 1]);
+	worksheet.addRow(["XSG0002", "賴嘉俞", 2]);
+	await workbook.xlsx.writeFile(input);
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function config(
+	overrides: Partial<ResolvedPipelineConfig> = {},
+	job: Record<string, unknown> = {}
+): ResolvedPipelineConfig {
+	return {
+		input,
+		out: path.join(tempDir, "out.xlsx"),
+		images: tempDir,
+		jobs: [normalizeJob({ worksheet: "夥伴名單", type: "member", ...job })],
+		generation: DEFAULT_GENERATION_OPTIONS,
+		backup: { ...DEFAULT_BACKUP_OPTIONS, retention: 0 },
+		...overrides,
+	};
+}
+
+async function run(
+	overrides: Partial<ResolvedPipelineConfig> = {},
+	job: Record<string, unknown> = {}
+): Promise<{ generated: number; skipped: number }> {
+	const result = await runPipeline(config(overrides, job));
+	assert.equal(result.success, true);
+	const [{ qrGenerated, qrSkipped }] = result.jobs;
+	return { generated: qrGenerated, skipped: qrSkipped };
+}
+
+test("產生紀錄：未變更時略過，--force、內容、繪製選項或檔案變更時重新產生", async () => {
+	assert.deepEqual(await run(), { generated: 2, skipped: 0 });
+	assert.deepEqual(await run(), { generated: 0, skipped: 2 });
+	assert.deepEqual(await run({ force: true }), { generated: 2, skipped: 0 });
+
+	assert.deepEqual(await run({}, { payload: "{id}-{staff_name}" }), {
+		generated: 2,
+		skipped: 0,
+	});
+	assert.deepEqual(await run({}, { payload: "{id}-{staff_name}" }), {
+		generated: 0,
+		skipped: 2,
+	});
+
+	assert.deepEqual(
+		await run({}, { payload: "{id}-{staff_name}", render: { margin: 1 } }),
+		{ generated: 2, skipped: 0 }
+	);
+
+	fs.appendFileSync(path.join(tempDir, "member_qrcode", "XSG0001.png"), "x");
+	assert.deepEqual(
+		await run({}, { payload: "{id}-{staff_name}", render: { margin: 1 } }),
+		{ generated: 1, skipped: 1 }
+	);
+});
+
+test("--strict 只在名單檢查有錯誤時不產生 QR Code", async () => {
+	const strictInput = path.join(tempDir, "strict.xlsx");
+	const writeRoster = async (rows: unknown[][]) => {
+		const workbook = new ExcelJS.Workbook();
+		workbook
+			.addWorksheet("夥伴名單")
+			.addRows([["id", "staff_name", "team"], ...rows]);
+		await workbook.xlsx.writeFile(strictInput);
+	};
+	const strictRun = () =>
+		runPipeline(
+			config({
+				input: strictInput,
+				out: path.join(tempDir, "strict_out.xlsx"),
+				images: path.join(tempDir, "strict"),
+				strict: true,
+			})
+		);
+
+	const { warn, error } = console;
+	console.warn = console.error = () => {};
+	try {
+		// 組別非數字、數字 ID 只是警告
+		await writeRoster([
+			["XSG0001", "王蘭君", "STAFF"],
+			[1002, "賴嘉俞", 2],
+		]);
+		const passed = await strictRun();
+		assert.equal(passed.success, true);
+		assert.equal(passed.validation.errorCount, 0);
+		assert.equal(passed.validation.warningCount, 2);
+		assert.equal(passed.jobs[0].qrGenerated, 2);
+
+		// 同一類型 ID 重複是錯誤
+		await writeRoster([
+			["XSG0001", "王蘭君", 1],
+			["XSG0001", "賴嘉俞", 2],
+		]);
+		const blocked = await strictRun();
+		assert.equal(blocked.success, false);
+		assert.equal(blocked.validation.errorCount, 2);
+		assert.equal(blocked.jobs[0].success, false);
+		assert.equal(blocked.jobs[0].qrGenerated, 0);
+	} finally {
+		console.warn = warn;
+		console.error = error;
+	}
+});
+
+test("解碼驗證以資料的行號回報，重複的 ID 各自列出", async () => {
+	const duplicateInput = path.join(tempDir, "duplicate.xlsx");
+	const workbook = new ExcelJS.Workbook();
+	workbook.addWorksheet("夥伴名單").addRows([
+		["id", "staff_name", "team"],
+		["XSG0001", "王蘭君", 1],
+		[null, "沒有 ID", 1],
+		["XSG0002", "賴嘉俞", 2],
+		["XSG0001", "王蘭君", 1],
+	]);
+	await workbook.xlsx.writeFile(duplicateInput);
+
+	const decode = mock.method(QRDecoder.prototype, "decode", () => ({
+		success: false,
+		error: new Error("測試"),
+	}));
+	const { warn, error } = console;
+	console.warn = console.error = () => {};
+	try {
+		const result = await runPipeline(
+			config(
+				{
+					input: duplicateInput,
+					out: path.join(tempDir, "duplicate_out.xlsx"),
+					images: path.join(tempDir, "duplicate"),
+				},
+				{ options: { decodeCheck: true } }
+			)
+		);
+		const mismatches = result.jobs[0].decodeCheck?.mismatches ?? [];
+		assert.deepEqual(
+			mismatches.map(({ id, row }) => [id, row]),
+			[
+				["XSG0001", 2],
+				["XSG0002", 4],
+				["XSG0001", 5],
+			]
+		);
+
+		// 檢查報告：嚴重度、類型、工作表、行號、ID...
+		const output = new ExcelJS.Workbook();
+		await output.xlsx.readFile(path.join(tempDir, "duplicate_out.xlsx"));
+		const reported: unknown[][] = [];
+		output.getWorksheet("檢查報告")?.eachRow((row) => {
+			if (row.getCell(2).value === "解碼不符") {
+				reported.push([row.getCell(5).value, row.getCell(4).value]);
+			}
+		});
+		assert.deepEqual(reported, [
+			["XSG0001", 2],
+			["XSG0002", 4],
+			["XSG0001", 5],
+		]);
+	} finally {
+		decode.mock.restore();
+		console.warn = warn;
+		console.error = error;
+	}
+});
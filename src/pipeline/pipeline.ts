@@ -0,0 +1,656 @@
+import fs from "fs";
+import path from "path";
+import BackupService, { copyFileAtomically } from "../service/backup";
+import FileNameTemplate, {
+	DEFAULT_FILE_NAME_TEMPLATE,
+} from "../service/file_naming";
+import ReadExcelFile from "../service/read_excel_file";
+import QRCodeService, { QR_IMAGE_EXTENSIONS } from "../service/qrcode";
+import QRManifest, {
+	hashContent,
+	hashRenderOptions,
+} from "../service/qr_manifest";
+import QRCodeWorkerPool from "../service/qrcode_worker";
+import TaskPool, { TaskPoolStats } from "../service/task_pool";
+import { loadWorkbook } from "../service/workbook_reader";
+import WriteExcelFile, { SheetUpdate } from "../service/write_excel_file";
+import {
+	checkDecodedImages,
+	DecodeCheckResult,
+	printDecodeSummary,
+	toReportIssues,
+} from "./decode_check";
+import {
+	BackupOptions,
+	GenerationOptions,
+	getEmbedFormat,
+	JobConfig,
+} from "./job_config";
+import { buildOutputColumns, QRCodeStatus } from "./output_columns";
+import { createPayloadBuilder } from "./payload";
+import { loadRoster, Roster, StaffData } from "./roster";
+import {
+	printReportSummary,
+	REPORT_WORKSHEET_NAME,
+	reportToRows,
+	validateRosters,
+	ValidationReport,
+} from "./roster_validation";
+
+export interface ResolvedPipelineConfig {
+	input: string; // 輸入 Excel 檔案（絕對路徑）
+	out: string; // 輸出 Excel 檔案（絕對路徑）
+	images: string; // QR Code 圖片根目錄（絕對路徑）
+	jobs: JobConfig[];
+	force?: boolean; // 忽略產生紀錄，全部重新產生
+	strict?: boolean; // 名單檢查有錯誤時不產生 QR Code（警告與提示不影響）
+	stream?: boolean; // 以串流讀寫 Excel（僅 .xlsx），大型名單不將整個活頁簿載入記憶體
+	generation: GenerationOptions; // 併發與重試設定
+	backup: BackupOptions; // 覆寫輸出檔前的備份設定
+}
+
+export interface JobResult {
+	worksheet: string;
+	type: string;
+	success: boolean;
+	rowCount: number; // 有效資料筆數
+	qrGenerated: number; // 成功產生的 QR Code 數
+	qrSkipped: number; // 內容未變更而略過的 QR Code 數
+	qrRemoved: number; // 名單中已移除而刪除的 QR Code 數
+	imagesInserted: number; // 成功插入的圖片數
+	generationStats?: TaskPoolStats; // QR Code 產生耗時統計
+	decodeCheck?: DecodeCheckResult; // 解碼驗證結果，未啟用時為 undefined
+	error?: Error;
+}
+
+export interface PipelineResult {
+	success: boolean;
+	input: string;
+	out: string;
+	jobs: JobResult[];
+	validation: ValidationReport; // 名單檢查結果（與解碼不符的項目一起寫入「檢查報告」工作表）
+	backupPath: string | null; // 上次輸出檔的備份，輸出檔原本不存在時為 null
+}
+
+interface PipelineServices {
+	readExcelService: ReadExcelFile;
+	qrcodeService: QRCodeService;
+	qrcodeGenerator: Pick<QRCodeService, "generateQRCode" | "renderQRCode">; // 主執行緒或 worker pool
+	writeExcelService: WriteExcelFile;
+}
+
+/**
+ * 執行單一工作：增量產生 QR Code → 插入圖片 → 驗證
+ */
+async function runJob(
+	config: ResolvedPipelineConfig,
+	job: JobConfig,
+	roster: Roster,
+	services: PipelineServices,
+	sheetUpdates: SheetUpdate[] | null = null // 串流模式時收集對輸出檔案的修改
+): Promise<JobResult> {
+	const {
+		readExcelService,
+		qrcodeService,
+		qrcodeGenerator,
+		writeExcelService,
+	} = services;
+	const { worksheet, type, imageColumn, options } = job;
+	const result: JobResult = {
+		worksheet,
+		type,
+		success: false,
+		rowCount: 0,
+		qrGenerated: 0,
+		qrSkipped: 0,
+		qrRemoved: 0,
+		imagesInserted: 0,
+	};
+
+	console.log(`🚀 開始處理 ${worksheet} Excel 和 QR Code...`);
+
+	// 1. 名單已在檢查時讀取並過濾有效資料
+	const staffList = roster.rows;
+
+	// 2. 建立 QR Code 內容產生器（檢查樣板欄位、讀取簽章金鑰）
+	const buildPayload = createPayloadBuilder(job, roster.fields);
+	console.log(
+		`🔣 QR Code 內容格式：${job.payload.format}${
+			job.signature ? `（${job.signature.algorithm} 簽章）` : ""
+		}`
+	);
+
+	result.rowCount = staffList.length;
+	console.log(`👥 找到 ${staffList.length} 筆有效資料`);
+
+	if (staffList.length === 0) {
+		throw new Error(`工作表 ${worksheet} 沒有找到有效的資料`);
+	}
+
+	const qrcodeFolder = qrcodeService.getOutputFolder(type);
+	console.log(`📁 QR Code 資料夾：${qrcodeFolder}`);
+
+	// 3. 依檔名樣板決定每個 ID 的檔名（去除不安全的字元，重複時加上編號）
+	const fileNameTemplate = new FileNameTemplate(job.fileName);
+	fileNameTemplate.assertFields(roster.fields);
+	const { names: fileNames, renamed } = fileNameTemplate.assign(staffList);
+	if (job.fileName !== DEFAULT_FILE_NAME_TEMPLATE) {
+		console.log(`🏷️ 檔名樣板：${job.fileName}`);
+	}
+	if (renamed.length > 0) {
+		console.warn(
+			`⚠️ ${renamed.length} 個檔名重複，已依名單順序加上編號：${renamed
+				.slice(0, 5)
+				.join("、")}${renamed.length > 5 ? "…" : ""}`
+		);
+	}
+	const fileNameOf = (staff: StaffData) => fileNames.get(staff.id) as string;
+
+	// 4. 讀取產生紀錄，刪除名單中已不存在的 QR Code（資料夾內其他檔案不受影響）
+	const manifest = QRManifest.load(qrcodeFolder, type);
+	manifest.keepFiles(
+		[...fileNames.values()].flatMap((name) =>
+			options.imageFormats.map(
+				(format) => `${name}.${QR_IMAGE_EXTENSIONS[format]}`
+			)
+		)
+	);
+	const renderHash = hashRenderOptions(job.render);
+	if (config.force) {
+		console.log("♻️ 已指定 --force，全部重新產生");
+	} else if (manifest.size > 0) {
+		console.log(`📒 產生紀錄：${manifest.size} 筆`);
+	}
+
+	result.qrRemoved = manifest.removeStale(
+		new Set(staffList.map((staff) => staff.id))
+	);
+	if (result.qrRemoved > 0) {
+		console.log(`🧹 已刪除 ${result.qrRemoved} 筆已移除名單的 QR Code`);
+	}
+
+	// 5. 內容、繪製選項與檔名未變更的略過，其餘以固定併發數產生（失敗時退避重試）
+	//    重複的 ID 共用同一個檔案，只依第一筆產生，避免同時寫入同一個檔案
+	const seenIds = new Set<string>();
+	const uniqueStaff: StaffData[] = [];
+	for (const staff of staffList) {
+		if (!seenIds.has(staff.id)) {
+			seenIds.add(staff.id);
+			uniqueStaff.push(staff);
+		}
+	}
+	if (uniqueStaff.length < staffList.length) {
+		console.warn(
+			`⚠️ ${
+				staffList.length - uniqueStaff.length
+			} 筆資料的 ID 重複，只依第一筆產生 QR Code`
+		);
+	}
+	const pending = uniqueStaff
+		.map((staff) => ({
+			staff,
+			payloadHash: hashContent(buildPayload.fingerprint(staff)),
+		}))
+		.filter(
+			({ staff, payloadHash }) =>
+				config.force ||
+				!manifest.isFresh(
+					staff.id,
+					payloadHash,
+					renderHash,
+					options.imageFormats,
+					fileNameOf(staff)
+				)
+		);
+	result.qrSkipped = uniqueStaff.length - pending.length;
+
+	const { concurrency, workerThreads, retries, retryDelay } = config.generation;
+	console.log(
+		`🔄 開始產生 ${pending.length} 個 QR Code（併發 ${concurrency}${
+			workerThreads ? "，worker threads" : ""
+		}）...`
+	);
+
+	const progressStep = Math.max(10, Math.ceil(pending.length / 10));
+	const pool = new TaskPool({
+		concurrency,
+		retries,
+		retryDelay,
+		onProgress: (done, total) => {
+			if (done % progressStep === 0 && done < total) {
+				console.log(`⏳ 已處理 ${done}/${total}`);
+			}
+		},
+	});
+	const generation = await pool.run(pending, async ({ staff, payloadHash }) => {
+		const payload = buildPayload(staff);
+		const generated = await qrcodeGenerator.generateQRCode(
+			fileNameOf(staff),
+			type,
+			payload,
+			job.render,
+			options.imageFormats
+		);
+		manifest.update(staff.id, payloadHash, renderHash, generated, payload);
+		return { id: staff.id, generated };
+	});
+
+	// 每筆資料的產生結果，供附加欄位使用
+	const statuses = new Map<string, QRCodeStatus>();
+	for (const failure of generation.failures) {
+		console.error(
+			`❌ QR Code 產生失敗: ${failure.item.staff.id} - ${failure.error.message}（嘗試 ${failure.attempts} 次）`
+		);
+		statuses.set(failure.item.staff.id, {
+			state: "failed",
+			reason: failure.error.message,
+		});
+	}
+	const generatedIds = new Set(generation.results.map(({ id }) => id));
+	for (const staff of staffList) {
+		const entry = manifest.get(staff.id);
+		if (statuses.has(staff.id) || !entry) {
+			continue;
+		}
+		const file = options.imageFormats
+			.map((format) => entry.files[format])
+			.find((item) => item !== undefined);
+		statuses.set(staff.id, {
+			state: generatedIds.has(staff.id) ? "ok" : "skipped",
+			// 舊版紀錄沒有內容；未簽章時內容固定，可以重新產生
+			payload:
+				entry.payload ?? (job.signature ? undefined : buildPayload(staff)),
+			filePath: file && manifest.getFilePath(file),
+			updatedAt: new Date(entry.updatedAt),
+		});
+	}
+
+	manifest.save();
+	result.qrGenerated = generation.stats.succeeded;
+	result.generationStats = generation.stats;
+	console.log(
+		`✅ QR Code 產生完成：${result.qrGenerated} 個產生、${result.qrSkipped} 個未變更略過（共 ${uniqueStaff.length} 筆）`
+	);
+	console.log(`⏱️ ${formatStats(generation.stats)}`);
+
+	// 6. 準備嵌入 Excel 的圖片：本次產生的直接使用記憶體中的內容，
+	//    未變更而略過的讀取既有檔案，嵌入格式未寫入磁碟時在記憶體中產生
+	const embedFormat = getEmbedFormat(options);
+	const embedded = new Map<string, Buffer>();
+	for (const { id, generated } of generation.results) {
+		const image = generated.find((item) => item.format === embedFormat);
+		if (image) {
+			embedded.set(id, image.data);
+		}
+	}
+
+	const writesEmbedFormat = options.imageFormats.includes(embedFormat);
+	const embedding = await new TaskPool({
+		concurrency,
+		retries,
+		retryDelay,
+	}).run(
+		uniqueStaff.filter((staff) => !embedded.has(staff.id)),
+		async (staff) => {
+			if (writesEmbedFormat) {
+				embedded.set(
+					staff.id,
+					await fs.promises.readFile(
+						path.join(
+							qrcodeFolder,
+							`${fileNameOf(staff)}.${QR_IMAGE_EXTENSIONS[embedFormat]}`
+						)
+					)
+				);
+				return;
+			}
+			// 沿用紀錄中的內容，簽章 QR Code 重複執行時不會改變
+			const status = statuses.get(staff.id);
+			const payload = status?.payload ?? buildPayload(staff);
+			if (status) {
+				status.payload = payload;
+			}
+			embedded.set(
+				staff.id,
+				await qrcodeGenerator.renderQRCode(payload, embedFormat, job.render)
+			);
+		}
+	);
+	for (const failure of embedding.failures) {
+		console.warn(
+			`⚠️ 無法取得 QR Code 圖片：${failure.item.id} - ${failure.error.message}`
+		);
+		statuses.set(failure.item.id, {
+			state: "failed",
+			reason: `無法取得圖片：${failure.error.message}`,
+		});
+	}
+
+	// 7. 準備圖片插入配置，依資料在工作表中的行號定位（沒有 ID 的行不會讓後面錯位）
+	const validImageConfigs = staffList
+		.map((staff, index) => ({
+			buffer: embedded.get(staff.id) as Buffer,
+			cell: `${imageColumn}${roster.rowNumbers[index]}`,
+			width: options.imageWidth,
+			height: options.imageHeight,
+			maintainAspectRatio: true,
+			fit: options.imageFit,
+			padding: options.imagePadding,
+			editAs: "oneCell" as const, // 排序或插入列時圖片跟著資料列移動
+		}))
+		.filter((imageConfig) => imageConfig.buffer !== undefined);
+
+	console.log(
+		`🖼️ 準備插入 ${validImageConfigs.length}/${staffList.length} 個 QR Code 圖片`
+	);
+
+	// 8. 解碼每張圖片，確認可以掃描且內容與預期相符（不符的圖片仍會插入，狀態標為失敗）
+	if (options.decodeCheck) {
+		console.log(`🔎 解碼驗證 ${validImageConfigs.length} 張圖片...`);
+		// 以索引取行號，重複的 ID 各自對應自己的行
+		result.decodeCheck = checkDecodedImages(
+			staffList
+				.map((staff, index) => ({
+					id: staff.id,
+					row: roster.rowNumbers[index],
+					buffer: embedded.get(staff.id) as Buffer,
+					expected: statuses.get(staff.id)?.payload,
+				}))
+				.filter((image) => image.buffer !== undefined)
+		);
+		printDecodeSummary(result.decodeCheck);
+		for (const mismatch of result.decodeCheck.mismatches) {
+			const status = statuses.get(mismatch.id);
+			statuses.set(mismatch.id, {
+				...status,
+				state: "failed",
+				reason: mismatch.actual === null ? "無法解碼" : "解碼內容不符",
+			});
+		}
+	}
+
+	if (sheetUpdates) {
+		// 9. 串流模式：附加欄位與圖片在所有工作表處理完後一次寫入（見 runJobs），寫入後依實際插入數更新
+		sheetUpdates.push({
+			worksheetName: worksheet,
+			headerRow: options.headerRows,
+			columns: buildOutputColumns(job, roster, statuses, config.out),
+			images: validImageConfigs,
+		});
+		result.imagesInserted = validImageConfigs.length;
+		console.log("🌊 附加欄位與圖片將以串流寫入輸出檔案");
+	} else {
+		// 9. 寫入附加欄位（內容、檔案連結、狀態、產生時間），沒有圖片時也會寫入狀態
+		const outputColumns = buildOutputColumns(job, roster, statuses, config.out);
+		if (outputColumns.length > 0) {
+			const columnsResult = await writeExcelService.writeColumns(
+				config.out,
+				outputColumns,
+				worksheet,
+				options.headerRows
+			);
+			if (!columnsResult.success) {
+				throw new Error(`附加欄位寫入失敗：${columnsResult.error?.message}`);
+			}
+			console.log(
+				`🏷️ 已寫入附加欄位：${outputColumns
+					.map(({ column, header }) => `${column}「${header}」`)
+					.join("、")}`
+			);
+		}
+
+		if (validImageConfigs.length === 0) {
+			console.warn("⚠️ 沒有有效的 QR Code 圖片可以插入");
+			return result;
+		}
+
+		// 10. 使用安全的方法插入圖片
+		console.log("🔄 正在安全插入圖片到輸出檔案...");
+
+		const insertResult = await writeExcelService.insertImagesSafely(
+			config.out,
+			validImageConfigs,
+			worksheet
+		);
+
+		if (!insertResult.success) {
+			throw new Error(`圖片插入失敗：${insertResult.error?.message}`);
+		}
+
+		result.imagesInserted = insertResult.imagesInserted || 0;
+		console.log(`🖼️ 成功插入：${result.imagesInserted} 張圖片`);
+
+		// 如果有部分失敗，給出提示
+		if (result.imagesInserted < validImageConfigs.length) {
+			const failedCount = validImageConfigs.length - result.imagesInserted;
+			console.log(`⚠️ 有 ${failedCount} 張圖片插入失敗`);
+			console.log(
+				"💡 可能原因：圖片格式不支援、檔案權限問題、或 Excel 檔案被鎖定"
+			);
+		}
+
+		// 11. 最終驗證
+		console.log("🔍 驗證檔案修改結果...");
+		const verifyResult = await readExcelService.readSingleExcelFile(
+			config.out,
+			{
+				worksheetName: worksheet,
+			}
+		);
+
+		if (verifyResult.success) {
+			console.log(`✅ 檔案驗證通過！包含 ${verifyResult.rowCount} 行資料`);
+		} else {
+			console.warn("⚠️ 檔案驗證異常，但圖片可能已經插入");
+		}
+	}
+
+	result.success =
+		result.qrGenerated + result.qrSkipped === uniqueStaff.length &&
+		result.imagesInserted === staffList.length &&
+		(result.decodeCheck?.mismatches.length ?? 0) === 0;
+	return result;
+}
+
+/**
+ * 耗時統計文字
+ * @param {TaskPoolStats} stats - 耗時統計
+ * @returns {string} 如「耗時 1.2 秒，平均 35 ms/個，最慢 120 ms，每秒 280 個，重試 0 次」
+ */
+export function formatStats(stats: TaskPoolStats): string {
+	return `耗時 ${(stats.durationMs / 1000).toFixed(1)} 秒，平均 ${Math.round(
+		stats.averageMs
+	)} ms/個，最慢 ${stats.maxMs} ms，每秒 ${Math.round(
+		stats.throughput
+	)} 個，重試 ${stats.retried} 次`;
+}
+
+/**
+ * 依序執行所有工作，單一工作失敗不影響其他工作
+ * @param {ResolvedPipelineConfig} config - 工作設定
+ * @returns {Promise<PipelineResult>} 所有工作的執行結果
+ */
+export async function runPipeline(
+	config: ResolvedPipelineConfig
+): Promise<PipelineResult> {
+	const qrcodeService = new QRCodeService(config.images);
+	const workerPool = config.generation.workerThreads
+		? new QRCodeWorkerPool(config.images, config.generation.concurrency)
+		: null;
+	const services: PipelineServices = {
+		readExcelService: new ReadExcelFile(),
+		qrcodeService,
+		qrcodeGenerator: workerPool || qrcodeService,
+		writeExcelService: new WriteExcelFile(),
+	};
+
+	try {
+		return await runJobs(config, services);
+	} finally {
+		await workerPool?.close();
+	}
+}
+
+async function runJobs(
+	config: ResolvedPipelineConfig,
+	services: PipelineServices
+): Promise<PipelineResult> {
+	console.log(`📂 處理檔案：${config.input}`);
+
+	if (!services.readExcelService.checkFileExists(config.input)) {
+		throw new Error(`檔案不存在：${config.input}`);
+	}
+
+	// 覆寫前先備份上次的輸出檔案
+	const backupService = new BackupService(
+		config.backup.retention,
+		config.backup.folder
+	);
+	const backupPath = backupService.createBackup(config.out);
+	if (backupPath) {
+		console.log(`🗄️ 已備份上次的輸出檔案：${backupPath}`);
+	}
+
+	// 複製原始檔案作為輸出檔案，原始檔案不會被修改；其他格式 (.xls、.csv、.json) 先轉換為 .xlsx
+	// 串流模式在所有工作表處理完後才從原始檔案串流寫出輸出檔案
+	const isXlsx = path.extname(config.input).toLowerCase() === ".xlsx";
+	if (config.stream) {
+		if (!isXlsx) {
+			throw new Error("串流模式僅支援 .xlsx 輸入檔案");
+		}
+		console.log("🌊 串流模式：逐列讀取名單，最後一次寫出輸出檔案");
+	} else if (isXlsx) {
+		copyFileAtomically(config.input, config.out);
+		console.log(`💾 已建立新檔案：${path.basename(config.out)}`);
+	} else {
+		const converted = await services.writeExcelService.saveWorkbook(
+			config.out,
+			await loadWorkbook(config.input)
+		);
+		if (!converted.success) {
+			throw converted.error;
+		}
+		console.log(`💾 已建立新檔案：${path.basename(config.out)}`);
+	}
+
+	// 先讀取所有名單並檢查，重複 ID 需要跨工作表比對
+	const rosters = new Map<JobConfig, Roster | Error>();
+	for (const job of config.jobs) {
+		try {
+			rosters.set(
+				job,
+				await loadRoster(
+					services.readExcelService,
+					config.input,
+					job,
+					config.stream
+				)
+			);
+		} catch (error) {
+			rosters.set(job, error as Error);
+		}
+	}
+
+	const validation = validateRosters(
+		[...rosters.values()].filter(
+			(roster): roster is Roster => !(roster instanceof Error)
+		)
+	);
+	printReportSummary(validation);
+
+	// 警告（如數字 ID、組別非數字）已自動處理或不影響產生，只有錯誤會擋下
+	const blocked = Boolean(config.strict) && validation.errorCount > 0;
+	if (blocked) {
+		console.error("❌ 已指定 --strict 且名單檢查未通過，不產生 QR Code");
+	}
+
+	const sheetUpdates: SheetUpdate[] | null = config.stream ? [] : null;
+	const jobResults: JobResult[] = [];
+	for (const job of config.jobs) {
+		const roster = rosters.get(job) as Roster | Error;
+		try {
+			if (roster instanceof Error) {
+				throw roster;
+			}
+			if (blocked) {
+				throw new Error("名單檢查未通過 (--strict)");
+			}
+			jobResults.push(
+				await runJob(config, job, roster, services, sheetUpdates)
+			);
+		} catch (error) {
+			console.error(`❌ 工作表 ${job.worksheet} 處理失敗：${error}`);
+			jobResults.push({
+				worksheet: job.worksheet,
+				type: job.type,
+				success: false,
+				rowCount: roster instanceof Error ? 0 : roster.rows.length,
+				qrGenerated: 0,
+				qrSkipped: 0,
+				qrRemoved: 0,
+				imagesInserted: 0,
+				error: error as Error,
+			});
+		}
+	}
+
+	// 檢查結果與解碼不符的圖片寫入輸出檔案的「檢查報告」工作表
+	const decodeIssues = config.jobs.flatMap((job, index) => {
+		const decodeCheck = jobResults[index].decodeCheck;
+		return decodeCheck
+			? toReportIssues(job.worksheet, job.imageColumn, decodeCheck)
+			: [];
+	});
+	const reportRows = reportToRows({
+		...validation,
+		issues: [...validation.issues, ...decodeIssues],
+		errorCount: validation.errorCount + decodeIssues.length,
+	});
+
+	if (sheetUpdates) {
+		// 串流模式：從原始檔案逐列複製，寫入附加欄位、圖片與檢查報告
+		const writeResult = await services.writeExcelService.writeWorkbookStream(
+			config.input,
+			config.out,
+			sheetUpdates,
+			[{ worksheetName: REPORT_WORKSHEET_NAME, data: reportRows }]
+		);
+		if (!writeResult.success) {
+			throw new Error(`輸出檔案寫入失敗：${writeResult.error?.message}`);
+		}
+		for (const jobResult of jobResults) {
+			const inserted = writeResult.imagesBySheet?.get(jobResult.worksheet);
+			if (inserted === undefined) {
+				continue;
+			}
+			if (inserted < jobResult.imagesInserted) {
+				console.log(
+					`⚠️ ${jobResult.worksheet} 有 ${
+						jobResult.imagesInserted - inserted
+					} 張圖片插入失敗`
+				);
+				jobResult.success = false;
+			}
+			jobResult.imagesInserted = inserted;
+		}
+		console.log(`📝 已寫入「${REPORT_WORKSHEET_NAME}」工作表`);
+	} else {
+		const reportResult = await services.writeExcelService.writeWorksheet(
+			config.out,
+			reportRows,
+			{ worksheetName: REPORT_WORKSHEET_NAME }
+		);
+		if (reportResult.success) {
+			console.log(`📝 已寫入「${REPORT_WORKSHEET_NAME}」工作表`);
+		}
+	}
+
+	return {
+		success: !blocked && jobResults.every((jobResult) => jobResult.success),
+		input: config.input,
+		out: config.out,
+		jobs: jobResults,
+		validation,
+		backupPath,
+	};
+}
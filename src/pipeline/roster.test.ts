@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { after, before, mock, test } from "node:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import ReadExcelFile from "../service/read_excel_file";
+import { normalizeJob } from "./job_config";
+import { loadRoster } from "./roster";
+
+let tempDir: string;
+let input: string;
+
+before(async () => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "roster-test-"));
+	input = path.join(tempDir, "record.xlsx");
+
+	// 沒有 code、acount、family 欄位，第 3 行的組別不是數字
+	const workbook = new ExcelJS.Workbook();
+	workbook.addWorksheet("夥伴名單").addRows([
+		["id", "staff_name", "team"],
+		["XSG0001", "王蘭君", 1],
+		["XSG0002", "賴嘉俞", "STAFF"],
+	]);
+	await workbook.xlsx.writeFile(input);
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+for (const stream of [false, true]) {
+	test(`loadRoster${
+		stream ? "（串流）" : ""
+	} 的警告也經由 log 輸出`, async () => {
+		const messages: string[] = [];
+		const log = (message: string) => messages.push(message);
+		const warn = mock.method(console, "warn", () => {});
+		const job = normalizeJob({
+			worksheet: "夥伴名單",
+			type: "member",
+			columns: { team: { type: "number" } },
+		});
+
+		try {
+			const roster = await loadRoster(
+				new ReadExcelFile(log),
+				input,
+				job,
+				stream,
+				log
+			);
+			assert.deepEqual(
+				roster.rows.map((row) => row.id),
+				["XSG0001"]
+			);
+			assert.equal(warn.mock.callCount(), 0);
+		} finally {
+			warn.mock.restore();
+		}
+
+		assert.ok(
+			messages.includes("⚠️ 找不到欄位：code、acount、family，將以空值處理"),
+			messages.join("\n")
+		);
+		assert.ok(
+			messages.includes("⚠️ 1 行有無法轉換的欄位，不會產生 QR Code"),
+			messages.join("\n")
+		);
+	});
+}
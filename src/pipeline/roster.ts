@@ -0,0 +1,222 @@
+import ColumnMapper, {
+	ColumnMapping,
+	columnLetter,
+	ColumnMappingError,
+	mergeColumnMapping,
+	ResolvedColumns,
+	STAFF_COLUMN_MAPPING,
+} from "../service/column_mapping";
+import { normalizeId } from "../service/id_normalizer";
+import ReadExcelFile, { toHeaders, toRecord } from "../service/read_excel_file";
+import RowValidator, {
+	FieldValue,
+	RowError,
+	RowSchema,
+	unwrapCellValue,
+} from "../service/row_schema";
+import { ProgressLog } from "../service/workbook_reader";
+import { JobConfig } from "./job_config";
+
+export interface StaffData {
+	id: string;
+	code: string | null;
+	acount: string | null;
+	staff_name: string | null;
+	family: string | null;
+	team: string | null; // 組別，眷屬或工作人員可能是代碼（如 F、STAFF）
+	[field: string]: FieldValue | null; // columns 新增的欄位，依設定的型別轉換
+}
+
+export interface RosterRecord {
+	row: number; // 工作表中的行號
+	id: string | null; // 正規化後的 ID，沒有 ID 時為 null
+	values: Record<string, any>; // 依欄位對應後的原始值（未轉換）
+	errors?: RowError[]; // 無法轉換的欄位，此行不會產生 QR Code
+}
+
+export interface Roster {
+	worksheet: string;
+	type: string;
+	fields: string[]; // 可供樣板引用的欄位名稱
+	rows: StaffData[]; // 有效資料（已過濾沒有 ID 的行，ID 已依 idNormalization 正規化）
+	rowNumbers: number[]; // rows 中每筆資料在工作表中的行號
+	records: RosterRecord[]; // 所有資料行，供名單檢查使用
+}
+
+/**
+ * 將儲存格中的 ID 轉為文字，Excel 常把純數字 ID 存成數字
+ * @param {unknown} value - 儲存格值
+ * @returns {string | null} ID，無法使用時為 null
+ */
+export function coerceId(value: unknown): string | null {
+	const unwrapped = unwrapCellValue(value);
+	if (typeof unwrapped === "number" && Number.isFinite(unwrapped)) {
+		return String(unwrapped);
+	}
+	if (typeof unwrapped === "string" && unwrapped.trim() !== "") {
+		return unwrapped.trim();
+	}
+	return null;
+}
+
+/**
+ * 依欄位對應建立名單的型別定義，未指定型別的欄位為文字
+ * @param {ColumnMapping} mapping - 欄位對應
+ * @returns {RowSchema} 每個欄位的型別、是否必填與預設值
+ */
+export function buildRowSchema(mapping: ColumnMapping): RowSchema {
+	return Object.fromEntries(
+		Object.entries(mapping).map(([field, rule]) => [
+			field,
+			{
+				type: rule.type ?? "string",
+				required: rule.required,
+				default: rule.default,
+			},
+		])
+	);
+}
+
+/**
+ * 讀取工作表並依標題對應欄位
+ * @param {ReadExcelFile} readExcelService - Excel 讀取服務
+ * @param {string} input - Excel 檔案路徑
+ * @param {JobConfig} job - 工作設定
+ * @param {boolean} stream - 以串流逐列讀取（僅 .xlsx），不將整個活頁簿與工作表資料載入記憶體
+ * @param {ProgressLog} log - 過程訊息的輸出方式
+ * @returns {Promise<Roster>} 名單資料
+ */
+export async function loadRoster(
+	readExcelService: ReadExcelFile,
+	input: string,
+	job: JobConfig,
+	stream = false,
+	log: ProgressLog = console.log
+): Promise<Roster> {
+	const { worksheet, type, columns, idNormalization, options } = job;
+	const mapping = mergeColumnMapping(STAFF_COLUMN_MAPPING, columns);
+	const mapper = new ColumnMapper(mapping);
+	const source = `工作表 ${worksheet}`;
+	const toRosterRecord = (
+		values: Record<string, any>,
+		row: number
+	): RosterRecord => {
+		const rawId = coerceId(values.id);
+		const id = rawId === null ? null : normalizeId(rawId, idNormalization);
+		return { row, id: id || null, values };
+	};
+
+	let headers: string[] = [];
+	let resolved: ResolvedColumns | undefined;
+	const records: RosterRecord[] = [];
+	if (stream) {
+		// 逐列對應欄位，只保留對應後的欄位值，不保留整個工作表的資料
+		log(`📖 正在讀取（串流）：${input}`);
+		try {
+			for await (const { rowNumber, values } of readExcelService.streamRows(
+				input,
+				{ worksheetName: worksheet }
+			)) {
+				if (rowNumber === options.headerRows) {
+					headers = toHeaders(values);
+					resolved = mapper.resolve(headers, source);
+				} else if (rowNumber > options.headerRows) {
+					if (!resolved) {
+						break;
+					}
+					records.push(
+						toRosterRecord(
+							mapper.mapRow(toRecord(headers, values), resolved),
+							rowNumber
+						)
+					);
+				}
+			}
+			if (!resolved) {
+				throw new Error(`找不到標題列：第 ${options.headerRows} 行`);
+			}
+		} catch (error) {
+			if (error instanceof ColumnMappingError) {
+				throw error;
+			}
+			throw new Error(`讀取 Excel 失敗：${(error as Error).message}`);
+		}
+	} else {
+		const sheetData = await readExcelService.readSingleExcelFile(input, {
+			worksheetName: worksheet,
+			header: true,
+			headerRow: options.headerRows,
+		});
+
+		if (!sheetData.success) {
+			throw new Error(`讀取 Excel 失敗：${sheetData.error?.message}`);
+		}
+
+		headers = sheetData.headers || [];
+		resolved = mapper.resolve(headers, source);
+		const sourceRows = sheetData.rowNumbers || [];
+		mapper.mapRows(sheetData.data, resolved).forEach((values, index) => {
+			records.push(
+				toRosterRecord(
+					values,
+					sourceRows[index] ?? index + options.headerRows + 1
+				)
+			);
+		});
+	}
+
+	log(`📊 成功讀取 ${records.length} 行資料，${headers.length} 欄`);
+	log(
+		`🧭 欄位對應：${Object.entries(resolved.fields)
+			.map(([field, header]) => `${field}←${header}`)
+			.join("、")}`
+	);
+	if (resolved.missing.length > 0) {
+		log(`⚠️ 找不到欄位：${resolved.missing.join("、")}，將以空值處理`);
+	}
+
+	// 依型別轉換每個欄位，過濾掉沒有 ID 或有無法轉換欄位的行，被略過的行會列在檢查報告
+	const validator = new RowValidator<StaffData>(buildRowSchema(mapping));
+	const location = {
+		worksheet,
+		row: 0,
+		columns: Object.fromEntries(
+			Object.entries(resolved.fields).map(([field, header]) => [
+				field,
+				columnLetter(headers.indexOf(header) + 1),
+			])
+		),
+	};
+
+	const rows: StaffData[] = [];
+	const rowNumbers: number[] = [];
+	for (const record of records) {
+		const { id } = record;
+		if (id === null) {
+			continue;
+		}
+		const result = validator.validate(record.values, {
+			...location,
+			row: record.row,
+		});
+		if (!result.success) {
+			record.errors = result.errors;
+			continue;
+		}
+		rows.push({ ...result.record, id });
+		rowNumbers.push(record.row);
+	}
+	const invalidRows = records.filter((record) => record.errors).length;
+	if (invalidRows > 0) {
+		log(`⚠️ ${invalidRows} 行有無法轉換的欄位，不會產生 QR Code`);
+	}
+
+	return {
+		worksheet,
+		type,
+		fields: Object.keys(mapping),
+		rows,
+		rowNumbers,
+		records,
+	};
+}
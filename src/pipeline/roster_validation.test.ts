@@ -0,0 +1,196 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { Roster, RosterRecord } from "./roster";
+import { IssueCode, validateRosters } from "./roster_validation";
+
+function roster(
+	worksheet: string,
+	type: string,
+	records: Omit<RosterRecord, "row">[]
+): Roster {
+	return {
+		worksheet,
+		type,
+		fields: [],
+		rows: [],
+		rowNumbers: [],
+		records: records.map((record, index) => ({ ...record, row: index + 2 })),
+	};
+}
+
+function staff(
+	id: string | null,
+	values: Record<string, unknown> = {}
+): Omit<RosterRecord, "row"> {
+	return {
+		id,
+		values: { id, staff_name: "王蘭君", team: 1, family: null, ...values },
+	};
+}
+
+/**
+ * 只比對問題的嚴重程度、代碼與行號
+ */
+function summarize(rosters: Roster[]): [string, IssueCode, string, number][] {
+	return validateRosters(rosters).issues.map((issue) => [
+		issue.severity,
+		issue.code,
+		issue.worksheet,
+		issue.row,
+	]);
+}
+
+describe("validateRosters", () => {
+	test("沒有問題時為空報告", () => {
+		const report = validateRosters([
+			roster("夥伴名單", "member", [staff("A001"), staff("A002")]),
+		]);
+		assert.deepEqual(report, {
+			issues: [],
+			errorCount: 0,
+			warningCount: 0,
+			infoCount: 0,
+			checkedRows: 2,
+		});
+	});
+
+	test("同類型 ID 重複為錯誤，只在其他類型重複為警告", () => {
+		const report = validateRosters([
+			roster("夥伴名單", "member", [
+				staff("A001"),
+				staff("A002"),
+				staff("A001"),
+			]),
+			roster("來賓", "guest", [staff("A002")]),
+		]);
+		assert.deepEqual(
+			report.issues.map((issue) => [
+				issue.severity,
+				issue.code,
+				issue.worksheet,
+				issue.row,
+			]),
+			[
+				["error", "duplicate_id", "夥伴名單", 2],
+				["warning", "duplicate_id", "夥伴名單", 3],
+				["error", "duplicate_id", "夥伴名單", 4],
+				["warning", "duplicate_id", "來賓", 2],
+			]
+		);
+		assert.match(report.issues[0].message, /夥伴名單!2、夥伴名單!4/);
+		assert.equal(report.errorCount, 2);
+		assert.equal(report.warningCount, 2);
+	});
+
+	test("數字 ID、前後空白與正規化後的 ID", () => {
+		assert.deepEqual(
+			summarize([
+				roster("夥伴名單", "member", [
+					{ id: "1001", values: { id: 1001, staff_name: "甲", team: 1 } },
+					{ id: "A002", values: { id: " A002\t", staff_name: "乙", team: 1 } },
+					{ id: "A003", values: { id: "ａ003", staff_name: "丙", team: 1 } },
+					{ id: "A004", values: { id: " a004 ", staff_name: "丁", team: 1 } },
+				]),
+			]),
+			[
+				["warning", "numeric_id", "夥伴名單", 2],
+				["warning", "padded_id", "夥伴名單", 3],
+				["info", "normalized_id", "夥伴名單", 4],
+				["warning", "padded_id", "夥伴名單", 5],
+				["info", "normalized_id", "夥伴名單", 5],
+			]
+		);
+	});
+
+	test("缺少或無法辨識的 ID 為錯誤，整行空白不列入", () => {
+		assert.deepEqual(
+			summarize([
+				roster("夥伴名單", "member", [
+					{ id: null, values: { id: null, staff_name: "甲", team: 1 } },
+					{ id: null, values: { id: "   ", staff_name: null, team: null } },
+					{ id: null, values: { id: true, staff_name: "乙", team: 1 } },
+				]),
+			]),
+			[
+				["error", "missing_id", "夥伴名單", 2],
+				["error", "invalid_id", "夥伴名單", 4],
+			]
+		);
+	});
+
+	test("姓名空白、組別空白或不是數字為警告", () => {
+		const report = validateRosters([
+			roster("夥伴名單", "member", [
+				staff("A001", { staff_name: " " }),
+				staff("A002", { team: "STAFF" }),
+				staff("A003", { team: null }),
+				staff("A004", { team: " 12 " }),
+				staff("A005", { team: "3" }),
+			]),
+		]);
+		assert.deepEqual(
+			report.issues.map((issue) => [issue.code, issue.row, issue.message]),
+			[
+				["empty_name", 2, "姓名空白"],
+				["non_numeric_team", 3, "組別不是數字：STAFF"],
+				["non_numeric_team", 4, "組別空白"],
+			]
+		);
+		assert.equal(report.errorCount, 0);
+	});
+
+	test("無法轉換的欄位為錯誤，不重複列出組別警告", () => {
+		assert.deepEqual(
+			validateRosters([
+				roster("夥伴名單", "member", [
+					{
+						...staff("A001", { team: "#N/A" }),
+						errors: [
+							{
+								worksheet: "夥伴名單",
+								row: 2,
+								column: "F",
+								field: "team",
+								value: "#N/A",
+								message: "不是數字",
+							},
+						],
+					},
+				]),
+			]).issues.map((issue) => [issue.severity, issue.code, issue.message]),
+			[["error", "invalid_value", "F 欄 team：不是數字，此行不會產生 QR Code"]]
+		);
+	});
+
+	test("眷屬以帳號或姓名對應夥伴，對應不到時為警告", () => {
+		assert.deepEqual(
+			summarize([
+				roster("夥伴名單", "member", [
+					staff("A001", { acount: "lan", staff_name: "王蘭君" }),
+				]),
+				roster("眷屬名單", "family", [
+					staff("F001", {
+						family: "王小明",
+						acount: "lan",
+						staff_name: "錯字",
+					}),
+					staff("F002", {
+						family: "王小華",
+						acount: null,
+						staff_name: "王蘭君",
+					}),
+					staff("F003", {
+						family: "賴小美",
+						acount: "nobody",
+						staff_name: "無",
+					}),
+					staff("F004", { family: "林小安", acount: null, staff_name: null }),
+				]),
+			]),
+			[
+				["warning", "unknown_family", "眷屬名單", 4],
+				["warning", "unknown_family", "眷屬名單", 5],
+			]
+		);
+	});
+});
@@ -0,0 +1,377 @@
+import { cellText, unwrapCellValue } from "../service/row_schema";
+import { coerceId, Roster, RosterRecord } from "./roster";
+
+export type IssueSeverity = "error" | "warning" | "info";
+
+export type IssueCode =
+	| "missing_id" // 有資料但沒有 ID，不會產生 QR Code
+	| "invalid_id" // ID 不是文字或數字，不會產生 QR Code
+	| "numeric_id" // ID 存成數字，已轉為文字
+	| "padded_id" // ID 前後有空白，已去除
+	| "normalized_id" // ID 依 idNormalization 正規化（全形、大小寫、補 0、前綴）
+	| "duplicate_id" // ID 重複
+	| "empty_name" // 姓名空白
+	| "non_numeric_team" // 組別不是數字
+	| "unknown_family" // 眷屬對應不到名單中的夥伴
+	| "invalid_value" // 欄位無法依型別轉換（如錯誤值、非數字），不會產生 QR Code
+	| "decode_mismatch"; // 產生的 QR Code 無法解碼或內容不符
+
+export interface ValidationIssue {
+	severity: IssueSeverity;
+	code: IssueCode;
+	worksheet: string;
+	row: number; // 工作表中的行號
+	id: string | null;
+	field: string; // 有問題的欄位
+	value: unknown; // 原始值
+	message: string;
+}
+
+export interface ValidationReport {
+	issues: ValidationIssue[];
+	errorCount: number; // 錯誤，--strict 時不產生 QR Code
+	warningCount: number; // 警告，不影響 --strict
+	infoCount: number; // 提示（如 ID 已正規化），不影響 --strict
+	checkedRows: number;
+}
+
+export const REPORT_WORKSHEET_NAME = "檢查報告";
+
+const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+	error: "錯誤",
+	warning: "警告",
+	info: "提示",
+};
+
+const SEVERITY_ICONS: Record<IssueSeverity, string> = {
+	error: "❌",
+	warning: "⚠️",
+	info: "ℹ️",
+};
+
+const ISSUE_LABELS: Record<IssueCode, string> = {
+	missing_id: "缺少 ID",
+	invalid_id: "ID 格式錯誤",
+	numeric_id: "數字 ID",
+	padded_id: "ID 含空白",
+	normalized_id: "ID 已正規化",
+	duplicate_id: "ID 重複",
+	empty_name: "姓名空白",
+	non_numeric_team: "組別非數字",
+	unknown_family: "未知的眷屬",
+	invalid_value: "欄位格式錯誤",
+	decode_mismatch: "解碼不符",
+};
+
+const isBlank = (value: unknown) => cellText(value).trim() === "";
+
+/**
+ * 有填 family 的行視為眷屬，其餘視為夥伴
+ */
+const isFamilyRecord = (record: RosterRecord) => !isBlank(record.values.family);
+
+/**
+ * 檢查名單：ID 格式與重複、姓名空白、組別與眷屬對應，並列出正規化後有變動的 ID
+ * 重複 ID 以正規化後的 ID 跨工作表比對；同一類型內重複會覆蓋彼此的圖片，列為錯誤
+ * @param {Roster[]} rosters - 所有工作表的名單
+ * @returns {ValidationReport} 檢查結果
+ */
+export function validateRosters(rosters: Roster[]): ValidationReport {
+	const issues: ValidationIssue[] = [];
+	const occurrences = new Map<
+		string,
+		{ roster: Roster; record: RosterRecord }[]
+	>();
+	const staffKeys = new Set<string>();
+
+	for (const roster of rosters) {
+		for (const record of roster.records) {
+			if (!isFamilyRecord(record)) {
+				for (const field of ["acount", "staff_name"]) {
+					if (!isBlank(record.values[field])) {
+						staffKeys.add(`${field}:${cellText(record.values[field]).trim()}`);
+					}
+				}
+			}
+		}
+	}
+
+	for (const roster of rosters) {
+		const add = (
+			record: RosterRecord,
+			severity: IssueSeverity,
+			code: IssueCode,
+			field: string,
+			message: string
+		) =>
+			issues.push({
+				severity,
+				code,
+				worksheet: roster.worksheet,
+				row: record.row,
+				id: record.id,
+				field,
+				value: record.values[field] ?? null,
+				message,
+			});
+
+		for (const record of roster.records) {
+			const { values } = record;
+			const rawId = unwrapCellValue(values.id);
+			const { id } = record;
+
+			if (id === null) {
+				if (isBlank(rawId)) {
+					// 整行空白（如只有格式）不列入報告
+					const hasData = Object.values(values).some(
+						(value) => !isBlank(value)
+					);
+					if (hasData) {
+						add(
+							record,
+							"error",
+							"missing_id",
+							"id",
+							"缺少 ID，此行不會產生 QR Code"
+						);
+					}
+				} else {
+					add(
+						record,
+						"error",
+						"invalid_id",
+						"id",
+						`ID 格式無法辨識（${typeof rawId}），此行不會產生 QR Code`
+					);
+				}
+				continue;
+			}
+
+			const coercedId = coerceId(rawId);
+			if (typeof rawId === "number") {
+				add(
+					record,
+					"warning",
+					"numeric_id",
+					"id",
+					`ID 存成數字，已轉為文字 "${coercedId}"`
+				);
+			} else if (rawId !== coercedId) {
+				add(
+					record,
+					"warning",
+					"padded_id",
+					"id",
+					`ID 前後有空白，已去除為 "${coercedId}"`
+				);
+			}
+			if (coercedId !== id) {
+				add(
+					record,
+					"info",
+					"normalized_id",
+					"id",
+					`ID 已正規化：「${coercedId}」→「${id}」`
+				);
+			}
+
+			for (const error of record.errors ?? []) {
+				issues.push({
+					severity: "error",
+					code: "invalid_value",
+					worksheet: roster.worksheet,
+					row: record.row,
+					id,
+					field: error.field,
+					value: error.value,
+					message: `${error.column ? `${error.column} 欄 ` : ""}${
+						error.field
+					}：${error.message}，此行不會產生 QR Code`,
+				});
+			}
+
+			const list = occurrences.get(id) || [];
+			list.push({ roster, record });
+			occurrences.set(id, list);
+
+			if (isFamilyRecord(record)) {
+				// 帳號或姓名其中之一與夥伴相符即可（帳號常有拼寫差異）
+				const ownerFields = ["acount", "staff_name"].filter(
+					(field) => !isBlank(values[field])
+				);
+				if (ownerFields.length === 0) {
+					add(
+						record,
+						"warning",
+						"unknown_family",
+						"staff_name",
+						"眷屬沒有填寫對應的夥伴"
+					);
+				} else if (
+					!ownerFields.some((field) =>
+						staffKeys.has(`${field}:${cellText(values[field]).trim()}`)
+					)
+				) {
+					add(
+						record,
+						"warning",
+						"unknown_family",
+						ownerFields[0],
+						`眷屬對應的夥伴 "${ownerFields
+							.map((field) => cellText(values[field]))
+							.join(" / ")}" 不在名單中`
+					);
+				}
+			} else {
+				if (isBlank(values.staff_name)) {
+					add(record, "warning", "empty_name", "staff_name", "姓名空白");
+				}
+				const team = values.team;
+				if (isBlank(team)) {
+					add(record, "warning", "non_numeric_team", "team", "組別空白");
+				} else if (
+					// 無法轉換的組別已列為錯誤
+					!record.errors?.some((error) => error.field === "team") &&
+					!/^\d+$/.test(cellText(team).trim())
+				) {
+					add(
+						record,
+						"warning",
+						"non_numeric_team",
+						"team",
+						`組別不是數字：${cellText(team)}`
+					);
+				}
+			}
+		}
+	}
+
+	for (const [id, list] of occurrences) {
+		if (list.length < 2) {
+			continue;
+		}
+		const locations = list
+			.map(({ roster, record }) => `${roster.worksheet}!${record.row}`)
+			.join("、");
+		for (const { roster, record } of list) {
+			const sameType = list.filter(
+				(other) => other.roster.type === roster.type
+			);
+			issues.push({
+				severity: sameType.length > 1 ? "error" : "warning",
+				code: "duplicate_id",
+				worksheet: roster.worksheet,
+				row: record.row,
+				id,
+				field: "id",
+				value: record.values.id,
+				message:
+					sameType.length > 1
+						? `ID 重複（${locations}），QR Code 圖片會互相覆蓋`
+						: `ID 在其他工作表也出現（${locations}）`,
+			});
+		}
+	}
+
+	issues.sort(
+		(a, b) =>
+			rosters.findIndex((roster) => roster.worksheet === a.worksheet) -
+				rosters.findIndex((roster) => roster.worksheet === b.worksheet) ||
+			a.row - b.row
+	);
+
+	return {
+		issues,
+		errorCount: issues.filter((issue) => issue.severity === "error").length,
+		warningCount: issues.filter((issue) => issue.severity === "warning").length,
+		infoCount: issues.filter((issue) => issue.severity === "info").length,
+		checkedRows: rosters.reduce(
+			(sum, roster) => sum + roster.records.length,
+			0
+		),
+	};
+}
+
+/**
+ * 轉換為「檢查報告」工作表的資料（第一列為標題）
+ * @param {ValidationReport} report - 檢查結果
+ * @returns {any[][]} 工作表資料
+ */
+export function reportToRows(report: ValidationReport): any[][] {
+	const header = [
+		"嚴重度",
+		"類型",
+		"工作表",
+		"行號",
+		"ID",
+		"欄位",
+		"原始值",
+		"說明",
+	];
+	if (report.issues.length === 0) {
+		return [
+			header,
+			[
+				"✅",
+				"",
+				"",
+				"",
+				"",
+				"",
+				"",
+				`檢查 ${report.checkedRows} 行，沒有發現問題`,
+			],
+		];
+	}
+
+	return [
+		header,
+		...report.issues.map((issue) => [
+			SEVERITY_LABELS[issue.severity],
+			ISSUE_LABELS[issue.code],
+			issue.worksheet,
+			issue.row,
+			issue.id,
+			issue.field,
+			cellText(issue.value),
+			issue.message,
+		]),
+	];
+}
+
+/**
+ * 在主控台列出檢查摘要
+ * @param {ValidationReport} report - 檢查結果
+ * @param {number} limit - 最多列出幾筆
+ */
+export function printReportSummary(report: ValidationReport, limit = 10): void {
+	// 提示只計數，不逐筆列出（設定前綴時每一行都會有）
+	const problems = report.issues.filter((issue) => issue.severity !== "info");
+	const infoNote =
+		report.infoCount > 0
+			? `，${report.infoCount} 則提示請見「${REPORT_WORKSHEET_NAME}」工作表`
+			: "";
+
+	if (problems.length === 0) {
+		console.log(`✅ 名單檢查通過（${report.checkedRows} 行）${infoNote}`);
+		return;
+	}
+
+	console.warn(
+		`⚠️ 名單檢查：${report.errorCount} 個錯誤、${report.warningCount} 個警告（${report.checkedRows} 行）${infoNote}`
+	);
+	for (const issue of problems.slice(0, limit)) {
+		console.warn(
+			`   ${SEVERITY_ICONS[issue.severity]} ${issue.worksheet} 第 ${
+				issue.row
+			} 行：${issue.message}`
+		);
+	}
+	if (problems.length > limit) {
+		console.warn(
+			`   ...其餘 ${
+				problems.length - limit
+			} 筆請見「${REPORT_WORKSHEET_NAME}」工作表`
+		);
+	}
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import crypto from "crypto";
+import path from "path";
+import PayloadSigner from "../service/payload_signer";
+import { normalizeJob } from "./job_config";
+import { verifyScannedPayload } from "./verify_payload";
+
+// 編譯後位於 dist-test/pipeline，範例名單在專案根目錄
+const RECORD_PATH = path.resolve(__dirname, "../../record.xlsx");
+const SECRET = "verify-payload-test-secret";
+
+test("verifyScannedPayload 在名單中找出對應資料，找不到時為 not_found", async () => {
+	const signer = new PayloadSigner(
+		"hmac-sha256",
+		crypto.createSecretKey(Buffer.from(SECRET, "utf8"))
+	);
+	process.env.VERIFY_PAYLOAD_TEST_KEY = SECRET;
+	const options = {
+		signature: {
+			algorithm: "hmac-sha256" as const,
+			keyEnv: "VERIFY_PAYLOAD_TEST_KEY",
+		},
+		input: RECORD_PATH,
+		jobs: [normalizeJob({ worksheet: "夥伴名單", type: "member" })],
+		log: () => undefined,
+	};
+
+	try {
+		const found = await verifyScannedPayload(
+			signer.sign("XSG0001", "member", "XSG0001"),
+			options
+		);
+		assert.equal(found.valid, true, found.message);
+		assert.equal(found.worksheet, "夥伴名單");
+		assert.equal(found.row?.id, "XSG0001");
+
+		const missing = await verifyScannedPayload(
+			signer.sign("NOBODY", "member", "NOBODY"),
+			options
+		);
+		assert.equal(missing.valid, false);
+		assert.equal(missing.reason, "not_found");
+	} finally {
+		delete process.env.VERIFY_PAYLOAD_TEST_KEY;
+	}
+});
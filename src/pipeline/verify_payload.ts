@@ -0,0 +1,95 @@
+import PayloadSigner, {
+	decodeSignedClaims,
+	SignatureConfig,
+	VerifyResult,
+} from "../service/payload_signer";
+import ReadExcelFile from "../service/read_excel_file";
+import { ProgressLog } from "../service/workbook_reader";
+import { JobConfig } from "./job_config";
+import { loadRoster, StaffData } from "./roster";
+
+export interface PayloadVerifyOptions {
+	signature?: SignatureConfig; // 指定時優先於工作設定中的簽章設定
+	input?: string; // 名單 Excel 檔案，未指定時只驗證簽章
+	jobs: JobConfig[]; // 名單工作表
+	event?: string; // 要求的活動標籤，未指定時使用簽章設定中的 event
+	now?: Date;
+	log?: ProgressLog; // 讀取名單的過程訊息，預設為 console.log
+}
+
+export interface PayloadVerifyResult extends VerifyResult {
+	worksheet?: string; // 找到資料的工作表
+	row?: StaffData; // 名單中對應的資料
+}
+
+/**
+ * 依 payload 中的類型挑選簽章設定，找不到時使用第一個有簽章的工作
+ */
+function pickSignature(
+	scanned: string,
+	options: PayloadVerifyOptions
+): SignatureConfig | undefined {
+	if (options.signature) {
+		return options.signature;
+	}
+
+	const signedJobs = options.jobs.filter((job) => job.signature);
+	const claims = decodeSignedClaims(scanned);
+	const matched = signedJobs.find((job) => job.type === claims?.t);
+	return (matched || signedJobs[0])?.signature;
+}
+
+/**
+ * 驗證掃描到的簽章 QR Code，並在名單中找出對應資料
+ * @param {string} scanned - 掃描結果
+ * @param {PayloadVerifyOptions} options - 驗證選項
+ * @returns {Promise<PayloadVerifyResult>} 驗證結果
+ */
+export async function verifyScannedPayload(
+	scanned: string,
+	options: PayloadVerifyOptions
+): Promise<PayloadVerifyResult> {
+	const signature = pickSignature(scanned, options);
+	if (!signature) {
+		throw new Error(
+			"沒有可用的簽章設定，請指定 --algorithm 或在設定檔加上 signature"
+		);
+	}
+
+	const signer = PayloadSigner.fromConfig(signature);
+	const result: PayloadVerifyResult = signer.verify(scanned, {
+		now: options.now,
+		event: options.event ?? signature.event,
+	});
+
+	if (!result.valid || !options.input || !result.claims) {
+		return result;
+	}
+
+	// 優先查詢同類型的工作表，沒有對應類型時查詢全部
+	const claims = result.claims;
+	const sameType = options.jobs.filter((job) => job.type === claims.t);
+	const log = options.log ?? console.log;
+	const readExcelService = new ReadExcelFile(log);
+
+	for (const job of sameType.length > 0 ? sameType : options.jobs) {
+		const roster = await loadRoster(
+			readExcelService,
+			options.input,
+			job,
+			false,
+			log
+		);
+		const row = roster.rows.find((staff) => staff.id === claims.id);
+		if (row) {
+			return { ...result, worksheet: job.worksheet, row };
+		}
+	}
+
+	return {
+		valid: false,
+		reason: "not_found",
+		message: `名單中找不到 ID：${claims.id}`,
+		claims,
+	};
+}
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { normalizeJob } from "../pipeline/job_config";
+import { createQRServer, listen, ServerOptions } from "./http_server";
+
+// 編譯後位於 dist-test/server，範例名單在專案根目錄
+const RECORD_PATH = path.resolve(__dirname, "../../record.xlsx");
+const SIGNING_KEY_ENV = "QRCODE_SERVER_TEST_KEY";
+
+interface Response {
+	status: number;
+	headers: http.IncomingHttpHeaders;
+	body: Buffer;
+}
+
+const servers: http.Server[] = [];
+
+async function start(options: Partial<ServerOptions> = {}): Promise<string> {
+	const server = createQRServer({
+		host: "127.0.0.1",
+		port: 0,
+		maxUploadBytes: 1024 * 1024,
+		allowSigning: false,
+		jobs: [],
+		...options,
+	});
+	servers.push(server);
+	return listen(server, { host: "127.0.0.1", port: 0 });
+}
+
+/**
+ * 以 http.request 送出請求；413 時服務不讀完上傳內容就關閉連線，收到回應後忽略寫入錯誤
+ */
+function request(
+	url: string,
+	{ method = "GET", body }: { method?: string; body?: Buffer } = {}
+): Promise<Response> {
+	return new Promise((resolve, reject) => {
+		let responded = false;
+		const req = http.request(url, { method }, (res) => {
+			responded = true;
+			const chunks: Buffer[] = [];
+			res.on("data", (chunk: Buffer) => chunks.push(chunk));
+			res.on("end", () =>
+				resolve({
+					status: res.statusCode ?? 0,
+					headers: res.headers,
+					body: Buffer.concat(chunks),
+				})
+			);
+			res.on("error", reject);
+		});
+		req.on("error", (error) => {
+			if (!responded) {
+				reject(error);
+			}
+		});
+		req.end(body);
+	});
+}
+
+function errorCode(response: Response): string {
+	assert.match(String(response.headers["content-type"]), /^application\/json/);
+	return JSON.parse(response.body.toString("utf8")).error.code;
+}
+
+let baseUrl: string;
+
+before(async () => {
+	baseUrl = await start();
+});
+
+after(async () => {
+	for (const server of servers) {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	}
+	delete process.env[SIGNING_KEY_ENV];
+});
+
+test("GET /health 回應 200", async () => {
+	const response = await request(`${baseUrl}/health`);
+	assert.equal(response.status, 200);
+	assert.equal(JSON.parse(response.body.toString("utf8")).status, "ok");
+});
+
+test("GET /qr/:id?format=svg 回應 SVG", async () => {
+	const response = await request(`${baseUrl}/qr/ABC?format=svg`);
+	assert.equal(response.status, 200);
+	assert.equal(response.headers["content-type"], "image/svg+xml");
+	assert.match(response.body.toString("utf8"), /<svg/);
+});
+
+test("GET /qr 路徑編碼錯誤時回應 400 JSON", async () => {
+	const response = await request(`${baseUrl}/qr/%E0%A4`);
+	assert.equal(response.status, 400);
+	assert.equal(errorCode(response), "invalid_parameter");
+});
+
+test("GET /qr 的 size 不是整數時回應 400 JSON", async () => {
+	const response = await request(`${baseUrl}/qr/ABC?size=abc`);
+	assert.equal(response.status, 400);
+	assert.equal(errorCode(response), "invalid_parameter");
+});
+
+test("GET /qr 未允許時不簽發簽章 QR Code", async () => {
+	process.env[SIGNING_KEY_ENV] = "server-test-signing-key";
+	const jobs = [
+		normalizeJob({
+			worksheet: "夥伴名單",
+			type: "member",
+			signature: { algorithm: "hmac-sha256", keyEnv: SIGNING_KEY_ENV },
+		}),
+	];
+
+	const refused = await request(`${await start({ jobs })}/qr/ABC`);
+	assert.equal(refused.status, 403);
+	assert.equal(errorCode(refused), "signing_not_allowed");
+
+	const allowed = await request(
+		`${await start({ jobs, allowSigning: true })}/qr/ABC`
+	);
+	assert.equal(allowed.status, 200);
+	assert.equal(allowed.headers["content-type"], "image/png");
+});
+
+test("POST /workbooks 超過上傳上限時回應 413", async () => {
+	const response = await request(`${baseUrl}/workbooks`, {
+		method: "POST",
+		body: Buffer.alloc(2 * 1024 * 1024),
+	});
+	assert.equal(response.status, 413);
+	assert.equal(errorCode(response), "payload_too_large");
+});
+
+test("POST /workbooks 上傳 record.xlsx 回應處理後的活頁簿", async () => {
+	const url = await start({ maxUploadBytes: 20 * 1024 * 1024 });
+	const response = await request(
+		`${url}/workbooks?sheet=${encodeURIComponent("夥伴名單:member")}`,
+		{ method: "POST", body: fs.readFileSync(RECORD_PATH) }
+	);
+	assert.equal(response.status, 200, response.body.toString("utf8"));
+	assert.equal(
+		response.headers["content-type"],
+		"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+	);
+	assert.equal(response.headers["x-validation-errors"], "0");
+	assert.deepEqual([...response.body.subarray(0, 2)], [0x50, 0x4b]);
+});
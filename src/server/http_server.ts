@@ -0,0 +1,544 @@
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { runExport } from "../pipeline/export";
+import {
+	ConfigError,
+	DEFAULT_BACKUP_OPTIONS,
+	DEFAULT_GENERATION_OPTIONS,
+	JobConfig,
+	normalizeJob,
+} from "../pipeline/job_config";
+import { createPayloadBuilder } from "../pipeline/payload";
+import { runPipeline } from "../pipeline/pipeline";
+import { normalizeId } from "../service/id_normalizer";
+import QRCodeService, {
+	QR_IMAGE_FORMATS,
+	QRImageFormat,
+} from "../service/qrcode";
+
+export interface ServerOptions {
+	host: string; // 監聽位址，預設只接受本機連線
+	port: number; // 連接埠，0 表示自動選擇
+	maxUploadBytes: number; // POST /workbooks 的上傳大小上限
+	allowSigning: boolean; // 允許以設有 signature 的工作簽發 QR Code（服務沒有驗證機制，預設不允許）
+	jobs: JobConfig[]; // 設定檔中的工作：GET /qr 依 type 套用，POST /workbooks 未指定 sheet 時使用
+}
+
+export const DEFAULT_SERVER_HOST = "127.0.0.1";
+export const DEFAULT_SERVER_PORT = 3000;
+export const DEFAULT_MAX_UPLOAD_MB = 20;
+
+/**
+ * 回應錯誤，以 { error: { code, message } } 的 JSON 回傳
+ */
+export class HttpError extends Error {
+	constructor(
+		readonly status: number,
+		readonly code: string,
+		message: string,
+		readonly details?: unknown
+	) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
+const CONTENT_TYPES: Record<QRImageFormat | "xlsx" | "zip", string> = {
+	png: "image/png",
+	svg: "image/svg+xml",
+	jpeg: "image/jpeg",
+	xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	zip: "application/zip",
+};
+
+// GET /qr 的 size 範圍 (px)
+const MIN_QR_SIZE = 21;
+const MAX_QR_SIZE = 4096;
+
+// .xlsx 是 ZIP 格式，開頭為 PK\x03\x04
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * 建立 HTTP 服務（尚未監聽），路由：
+ * - GET /health：服務狀態
+ * - GET /qr/:id?format=png|svg|jpeg&size=&type=：即時產生單一 QR Code
+ * - POST /workbooks?sheet=&format=xlsx|zip&filename=&strict=：上傳 .xlsx，回傳處理後的活頁簿或圖片 ZIP
+ * @param {ServerOptions} options - 服務設定
+ * @returns {http.Server} HTTP 服務
+ */
+export function createQRServer(options: ServerOptions): http.Server {
+	const qrcodeService = new QRCodeService();
+	const startedAt = Date.now();
+	// 同一時間只處理一個活頁簿，其餘排隊（產生 QR Code 與寫入 Excel 都很吃 CPU 與記憶體）
+	let workbookQueue: Promise<unknown> = Promise.resolve();
+	const workbooks = { processing: 0, queued: 0, processed: 0 };
+
+	const routes: {
+		method: string;
+		pattern: RegExp;
+		handle: (
+			req: http.IncomingMessage,
+			res: http.ServerResponse,
+			url: URL,
+			params: string[]
+		) => Promise<void>;
+	}[] = [
+		{
+			method: "GET",
+			pattern: /^\/health\/?$/,
+			handle: async (req, res) =>
+				sendJson(res, 200, {
+					status: "ok",
+					uptime: Math.round((Date.now() - startedAt) / 1000),
+					workbooks,
+					jobs: options.jobs.map((job) => ({
+						worksheet: job.worksheet,
+						type: job.type,
+					})),
+				}),
+		},
+		{
+			method: "GET",
+			pattern: /^\/qr\/([^/]+)\/?$/,
+			handle: async (req, res, url, [rawId]) => {
+				const { format, data } = await renderQRCode(
+					qrcodeService,
+					options,
+					decodePathSegment(rawId),
+					url.searchParams
+				);
+				res.writeHead(200, {
+					"Content-Type": CONTENT_TYPES[format],
+					"Content-Length": data.length,
+					"Cache-Control": "no-store",
+				});
+				res.end(data);
+			},
+		},
+		{
+			method: "POST",
+			pattern: /^\/workbooks\/?$/,
+			handle: async (req, res, url) => {
+				const body = await readBody(req, options.maxUploadBytes);
+				workbooks.queued++;
+				const task = workbookQueue.then(async () => {
+					workbooks.queued--;
+					workbooks.processing++;
+					try {
+						return await processWorkbook(body, options, url.searchParams);
+					} finally {
+						workbooks.processing--;
+						workbooks.processed++;
+					}
+				});
+				workbookQueue = task.catch(() => undefined);
+
+				const result = await task;
+				res.writeHead(200, {
+					"Content-Type": CONTENT_TYPES[result.format],
+					"Content-Length": result.data.length,
+					"Content-Disposition": contentDisposition(result.fileName),
+					...result.headers,
+				});
+				res.end(result.data);
+			},
+		},
+	];
+
+	return http.createServer(async (req, res) => {
+		const url = new URL(req.url || "/", "http://localhost");
+		try {
+			const matched = routes.filter((route) =>
+				route.pattern.test(url.pathname)
+			);
+			if (matched.length === 0) {
+				throw new HttpError(404, "not_found", `找不到路徑：${url.pathname}`);
+			}
+			const route = matched.find((item) => item.method === req.method);
+			if (!route) {
+				res.setHeader("Allow", matched.map((item) => item.method).join(", "));
+				throw new HttpError(
+					405,
+					"method_not_allowed",
+					`${url.pathname} 不支援 ${req.method}`
+				);
+			}
+			const params = (url.pathname.match(route.pattern) || []).slice(1);
+			await route.handle(req, res, url, params);
+		} catch (error) {
+			const httpError =
+				error instanceof HttpError
+					? error
+					: new HttpError(500, "internal_error", (error as Error).message);
+			if (httpError.status >= 500) {
+				console.error(`❌ ${req.method} ${url.pathname}：${error}`);
+			}
+			if (res.headersSent) {
+				res.destroy();
+				return;
+			}
+			if (httpError.status === 413) {
+				// 不再讀取剩下的上傳內容，回應後關閉連線
+				res.setHeader("Connection", "close");
+				res.on("finish", () => req.destroy());
+			}
+			sendJson(res, httpError.status, {
+				error: {
+					code: httpError.code,
+					message: httpError.message,
+					...(httpError.details === undefined
+						? {}
+						: { details: httpError.details }),
+				},
+			});
+		}
+	});
+}
+
+/**
+ * 啟動服務，回傳實際監聽的網址（port 為 0 時自動選擇）
+ * @param {http.Server} server - createQRServer 建立的服務
+ * @param {ServerOptions} options - 服務設定
+ * @returns {Promise<string>} 如 http://127.0.0.1:3000
+ */
+export function listen(
+	server: http.Server,
+	options: Pick<ServerOptions, "host" | "port">
+): Promise<string> {
+	return new Promise((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(options.port, options.host, () => {
+			server.off("error", reject);
+			const address = server.address();
+			const port =
+				typeof address === "object" && address ? address.port : options.port;
+			const host = options.host.includes(":")
+				? `[${options.host}]`
+				: options.host;
+			resolve(`http://${host}:${port}`);
+		});
+	});
+}
+
+function sendJson(
+	res: http.ServerResponse,
+	status: number,
+	body: unknown
+): void {
+	const data = Buffer.from(JSON.stringify(body));
+	res.writeHead(status, {
+		"Content-Type": "application/json; charset=utf-8",
+		"Content-Length": data.length,
+	});
+	res.end(data);
+}
+
+function decodePathSegment(segment: string): string {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		throw new HttpError(400, "invalid_parameter", `無效的路徑編碼：${segment}`);
+	}
+}
+
+/**
+ * 下載檔名，非 ASCII 的檔名以 RFC 5987 編碼
+ */
+function contentDisposition(fileName: string): string {
+	const fallback = fileName.replace(/[^\x20-\x7E]|["\\]/g, "_");
+	return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+		fileName
+	)}`;
+}
+
+/**
+ * 讀取上傳內容，超過上限時回應 413（有 Content-Length 時不等上傳完成）
+ */
+function readBody(req: http.IncomingMessage, limit: number): Promise<Buffer> {
+	const tooLarge = () =>
+		new HttpError(
+			413,
+			"payload_too_large",
+			`上傳檔案超過 ${(limit / 1024 / 1024).toFixed(1)} MB 上限`
+		);
+
+	const length = Number(req.headers["content-length"]);
+	if (Number.isFinite(length) && length > limit) {
+		return Promise.reject(tooLarge());
+	}
+
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > limit) {
+				req.removeAllListeners("data");
+				reject(tooLarge());
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on("end", () => resolve(Buffer.concat(chunks)));
+		req.on("error", reject);
+	});
+}
+
+/**
+ * 依工作類型取得工作設定，未指定時使用第一個；沒有設定檔時使用預設值
+ */
+function pickJob(jobs: JobConfig[], type: string | null): JobConfig {
+	if (type === null) {
+		return jobs[0] || normalizeJob({ worksheet: "qr", type: "qr" });
+	}
+	const job = jobs.find((item) => item.type === type);
+	if (!job && jobs.length === 0) {
+		throw new HttpError(
+			400,
+			"invalid_parameter",
+			"服務未以設定檔啟動，不可指定 type"
+		);
+	}
+	if (!job) {
+		throw new HttpError(
+			400,
+			"invalid_parameter",
+			`未知的 type：${type}，可用：${jobs.map((item) => item.type).join(", ")}`
+		);
+	}
+	return job;
+}
+
+/**
+ * 服務沒有驗證機制，任何能連線的人都能指定 ID；設有 signature 的工作需明確允許才簽發
+ */
+function assertSigningAllowed(job: JobConfig, allowSigning: boolean): void {
+	if (job.signature && !allowSigning) {
+		throw new HttpError(
+			403,
+			"signing_not_allowed",
+			`${job.type} 設有簽章，服務未允許簽發簽章 QR Code（以 --allow-signing 或 server.allowSigning 啟用）`
+		);
+	}
+}
+
+/**
+ * GET /qr/:id：套用工作設定中的 ID 正規化、payload 樣板（只能引用 id）、簽章與繪製選項
+ */
+async function renderQRCode(
+	qrcodeService: QRCodeService,
+	{ jobs, allowSigning }: Pick<ServerOptions, "jobs" | "allowSigning">,
+	rawId: string,
+	params: URLSearchParams
+): Promise<{ format: QRImageFormat; data: Buffer }> {
+	const format = (params.get("format") || "png") as QRImageFormat;
+	if (!QR_IMAGE_FORMATS.includes(format)) {
+		throw new HttpError(
+			400,
+			"invalid_parameter",
+			`format 必須是 ${QR_IMAGE_FORMATS.join("/")}`
+		);
+	}
+
+	const size = params.get("size");
+	const width = size === null ? undefined : Number(size);
+	if (
+		width !== undefined &&
+		(!Number.isInteger(width) || width < MIN_QR_SIZE || width > MAX_QR_SIZE)
+	) {
+		throw new HttpError(
+			400,
+			"invalid_parameter",
+			`size 必須是 ${MIN_QR_SIZE} 到 ${MAX_QR_SIZE} 之間的整數`
+		);
+	}
+
+	const job = pickJob(jobs, params.get("type"));
+	assertSigningAllowed(job, allowSigning);
+	const id = normalizeId(rawId, job.idNormalization);
+	if (id === "") {
+		throw new HttpError(400, "invalid_parameter", "id 不可空白");
+	}
+
+	let buildPayload;
+	try {
+		buildPayload = createPayloadBuilder(job, ["id"]);
+	} catch (error) {
+		throw new HttpError(
+			422,
+			"payload_requires_roster",
+			`${job.type} 的 payload 需要名單欄位，無法只依 ID 產生：${
+				(error as Error).message
+			}`
+		);
+	}
+
+	try {
+		const data = await qrcodeService.renderQRCode(
+			buildPayload({
+				id,
+				code: null,
+				acount: null,
+				staff_name: null,
+				family: null,
+				team: null,
+			}),
+			format,
+			width === undefined ? job.render : { ...job.render, width }
+		);
+		return { format, data };
+	} catch (error) {
+		throw new HttpError(
+			422,
+			"render_failed",
+			`無法產生 QR Code：${(error as Error).message}`
+		);
+	}
+}
+
+/**
+ * POST /workbooks：在暫存資料夾中執行 generate（與 export），回傳結果後刪除暫存資料夾
+ */
+async function processWorkbook(
+	body: Buffer,
+	{
+		jobs: configJobs,
+		allowSigning,
+	}: Pick<ServerOptions, "jobs" | "allowSigning">,
+	params: URLSearchParams
+): Promise<{
+	format: "xlsx" | "zip";
+	fileName: string;
+	data: Buffer;
+	headers: Record<string, string>;
+}> {
+	if (!body.subarray(0, 4).equals(ZIP_SIGNATURE)) {
+		throw new HttpError(
+			415,
+			"unsupported_media_type",
+			"請以 request body 上傳 .xlsx 檔案（如 curl --data-binary @record.xlsx）"
+		);
+	}
+
+	const format = params.get("format") || "xlsx";
+	if (format !== "xlsx" && format !== "zip") {
+		throw new HttpError(400, "invalid_parameter", "format 必須是 xlsx/zip");
+	}
+
+	const sheets = params.getAll("sheet");
+	let jobs = configJobs;
+	if (sheets.length > 0) {
+		try {
+			jobs = sheets.map((sheet, index) => {
+				const separator = sheet.lastIndexOf(":");
+				if (separator <= 0 || separator === sheet.length - 1) {
+					throw new ConfigError(`sheet[${index}] 缺少類型：${sheet}`);
+				}
+				return normalizeJob(
+					{
+						worksheet: sheet.slice(0, separator).trim(),
+						type: sheet.slice(separator + 1).trim(),
+					},
+					`sheet[${index}]`
+				);
+			});
+		} catch (error) {
+			throw new HttpError(
+				400,
+				"invalid_parameter",
+				`sheet 格式應為 <工作表:類型>：${(error as ConfigError).message}`
+			);
+		}
+	}
+	if (jobs.length === 0) {
+		throw new HttpError(
+			400,
+			"invalid_parameter",
+			"請以 sheet=<工作表:類型> 指定工作表，或以設定檔啟動服務"
+		);
+	}
+	for (const job of jobs) {
+		assertSigningAllowed(job, allowSigning);
+	}
+
+	const baseName =
+		path
+			.basename(params.get("filename") || "upload.xlsx")
+			.replace(/\.xlsx$/i, "")
+			.replace(/[\\/:*?"<>|]/g, "_") || "upload";
+	const tempDir = await fs.promises.mkdtemp(
+		path.join(os.tmpdir(), "qrcode-product-")
+	);
+	try {
+		const input = path.join(tempDir, `${baseName}.xlsx`);
+		await fs.promises.writeFile(input, body);
+		const out = path.join(tempDir, `${baseName}_with_qrcode.xlsx`);
+
+		const strict = params.get("strict") === "true";
+		const result = await runPipeline({
+			input,
+			out,
+			images: tempDir,
+			jobs,
+			strict,
+			generation: DEFAULT_GENERATION_OPTIONS,
+			backup: { ...DEFAULT_BACKUP_OPTIONS, retention: 0 },
+		});
+		const { errorCount, warningCount } = result.validation;
+		if (strict && errorCount > 0) {
+			throw new HttpError(
+				422,
+				"validation_failed",
+				`名單檢查未通過：${errorCount} 個錯誤、${warningCount} 個警告`,
+				{
+					issues: result.validation.issues
+						.filter((issue) => issue.severity !== "info")
+						.map((issue) => ({
+							worksheet: issue.worksheet,
+							row: issue.row,
+							severity: issue.severity,
+							code: issue.code,
+							message: issue.message,
+						})),
+				}
+			);
+		}
+		if (result.jobs.every((job) => !job.success && job.qrGenerated === 0)) {
+			throw new HttpError(422, "processing_failed", "所有工作表都處理失敗", {
+				jobs: result.jobs.map((job) => ({
+					worksheet: job.worksheet,
+					error: job.error?.message,
+				})),
+				errorCount,
+				warningCount,
+			});
+		}
+
+		const headers = {
+			"X-QRCode-Success": String(result.success),
+			"X-Validation-Errors": String(errorCount),
+			"X-Validation-Warnings": String(warningCount),
+		};
+		if (format === "xlsx") {
+			return {
+				format,
+				fileName: path.basename(out),
+				data: await fs.promises.readFile(out),
+				headers,
+			};
+		}
+
+		const zipPath = path.join(tempDir, `${baseName}_qrcodes.zip`);
+		await runExport({ input, out: zipPath, images: tempDir, jobs });
+		return {
+			format,
+			fileName: path.basename(zipPath),
+			data: await fs.promises.readFile(zipPath),
+			headers,
+		};
+	} finally {
+		await fs.promises.rm(tempDir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import BackupService from "./backup";
+
+let tempDir: string;
+let filePath: string;
+let now: number;
+
+beforeEach(() => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "backup-test-"));
+	filePath = path.join(tempDir, "record.xlsx");
+	now = Date.UTC(2026, 2, 14, 9, 30, 15, 123);
+	mock.method(Date, "now", () => now);
+});
+
+afterEach(() => {
+	mock.restoreAll();
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * 寫入內容後建立備份，每次間隔一秒
+ */
+function backupVersions(service: BackupService, versions: string[]): string[] {
+	return versions.map((content) => {
+		fs.writeFileSync(filePath, content);
+		const backupPath = service.createBackup(filePath) as string;
+		now += 1000;
+		return backupPath;
+	});
+}
+
+const contents = (entries: { filePath: string }[]) =>
+	entries.map((entry) => fs.readFileSync(entry.filePath, "utf8"));
+
+describe("BackupService", () => {
+	test("檔名使用 UTC 時間戳記", () => {
+		const [backupPath] = backupVersions(new BackupService(), ["v1"]);
+		assert.equal(
+			backupPath,
+			path.join(tempDir, ".backups", "record.20260314-093015-123.xlsx")
+		);
+		const [entry] = new BackupService().listBackups(filePath);
+		assert.equal(entry.timestamp, "20260314-093015-123");
+		assert.equal(entry.createdAt.getTime(), now - 1000);
+		assert.equal(entry.size, 2);
+	});
+
+	test("日光節約時間結束時備份仍依建立順序排列", () => {
+		const originalTZ = process.env.TZ;
+		process.env.TZ = "America/New_York";
+		try {
+			// 當地 01:30 (EDT) 之後是 01:10 (EST)
+			now = Date.UTC(2026, 10, 1, 5, 30);
+			const service = new BackupService(5);
+			backupVersions(service, ["夏令時間"]);
+			now = Date.UTC(2026, 10, 1, 6, 10);
+			backupVersions(service, ["標準時間"]);
+
+			assert.deepEqual(contents(service.listBackups(filePath)), [
+				"標準時間",
+				"夏令時間",
+			]);
+			assert.equal(service.restore(filePath).success, true);
+			assert.equal(fs.readFileSync(filePath, "utf8"), "標準時間");
+		} finally {
+			if (originalTZ === undefined) {
+				delete process.env.TZ;
+			} else {
+				process.env.TZ = originalTZ;
+			}
+		}
+	});
+
+	test("只保留最新的備份", () => {
+		const service = new BackupService(3);
+		const paths = backupVersions(service, ["v1", "v2", "v3", "v4", "v5"]);
+
+		const backups = service.listBackups(filePath);
+		assert.deepEqual(contents(backups), ["v5", "v4", "v3"]);
+		assert.equal(fs.existsSync(paths[0]), false);
+		assert.equal(fs.existsSync(paths[1]), false);
+
+		assert.deepEqual(new BackupService(1).prune(filePath), [
+			backups[1].filePath,
+			backups[2].filePath,
+		]);
+		assert.deepEqual(contents(service.listBackups(filePath)), ["v5"]);
+	});
+
+	test("同一毫秒內的備份不會互相覆蓋", () => {
+		const service = new BackupService(5);
+		fs.writeFileSync(filePath, "v1");
+		service.createBackup(filePath);
+		fs.writeFileSync(filePath, "v2");
+		service.createBackup(filePath);
+
+		assert.deepEqual(
+			service.listBackups(filePath).map((entry) => entry.timestamp),
+			["20260314-093015-124", "20260314-093015-123"]
+		);
+	});
+
+	test("保留數為 0 或檔案不存在時不建立備份", () => {
+		assert.equal(new BackupService(5).createBackup(filePath), null);
+		fs.writeFileSync(filePath, "v1");
+		assert.equal(new BackupService(0).createBackup(filePath), null);
+		assert.equal(fs.existsSync(path.join(tempDir, ".backups")), false);
+		assert.deepEqual(new BackupService().listBackups(filePath), []);
+	});
+
+	test("只列出同一個檔案的備份，可指定備份資料夾", () => {
+		const folder = path.join(tempDir, "backups");
+		const service = new BackupService(5, folder);
+		backupVersions(service, ["v1"]);
+		fs.writeFileSync(path.join(folder, "record.20260314-093015-123.csv"), "");
+		fs.writeFileSync(path.join(folder, "record2.20260314-093015-123.xlsx"), "");
+		fs.writeFileSync(path.join(folder, "record.latest.xlsx"), "");
+
+		assert.deepEqual(
+			service.listBackups(filePath).map((entry) => entry.filePath),
+			[path.join(folder, "record.20260314-093015-123.xlsx")]
+		);
+	});
+
+	test("還原前先備份目前的檔案，可再還原回來", () => {
+		const service = new BackupService(5);
+		backupVersions(service, ["v1", "v2"]);
+		fs.writeFileSync(filePath, "目前");
+
+		const result = service.restore(filePath);
+		assert.equal(result.success, true, result.error?.message);
+		assert.equal(fs.readFileSync(filePath, "utf8"), "v2");
+		assert.equal(
+			fs.readFileSync(result.previousBackup as string, "utf8"),
+			"目前"
+		);
+
+		now += 1000;
+		const undo = service.restore(
+			filePath,
+			path.basename(result.previousBackup as string)
+		);
+		assert.equal(undo.success, true, undo.error?.message);
+		assert.equal(fs.readFileSync(filePath, "utf8"), "目前");
+		assert.deepEqual(contents(service.listBackups(filePath)), [
+			"v2",
+			"目前",
+			"v2",
+			"v1",
+		]);
+	});
+
+	test("還原超過保留數的舊備份時先還原再刪除", () => {
+		const service = new BackupService(2);
+		const [, oldest] = backupVersions(service, ["v1", "v2", "v3"]);
+		assert.deepEqual(contents(service.listBackups(filePath)), ["v3", "v2"]);
+		fs.writeFileSync(filePath, "目前");
+
+		const timestamp = path.basename(oldest).split(".")[1];
+		const result = service.restore(filePath, timestamp);
+		assert.equal(result.success, true, result.error?.message);
+		assert.equal(result.restoredFrom, oldest);
+		assert.equal(fs.readFileSync(filePath, "utf8"), "v2");
+		// 還原前的備份與最新的備份保留，還原來源超過保留數被刪除
+		assert.deepEqual(contents(service.listBackups(filePath)), ["目前", "v3"]);
+	});
+
+	test("找不到備份時還原失敗且不修改檔案", () => {
+		const service = new BackupService(5);
+		fs.writeFileSync(filePath, "目前");
+
+		const none = service.restore(filePath);
+		assert.equal(none.success, false);
+		assert.match(none.error?.message ?? "", /沒有可用的備份：record\.xlsx/);
+
+		backupVersions(service, ["v1"]);
+		const missing = service.restore(filePath, "20000101-000000-000");
+		assert.equal(missing.success, false);
+		assert.match(missing.error?.message ?? "", /找不到備份/);
+		assert.equal(fs.readFileSync(filePath, "utf8"), "v1");
+		assert.equal(service.listBackups(filePath).length, 1);
+	});
+});
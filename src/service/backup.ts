@@ -0,0 +1,242 @@
+import fs from "fs";
+import path from "path";
+
+export const DEFAULT_BACKUP_RETENTION = 5;
+
+export const DEFAULT_BACKUP_FOLDER = ".backups";
+
+export interface BackupEntry {
+	filePath: string; // 備份檔（絕對路徑）
+	timestamp: string; // 檔名中的時間戳記，UTC (如: 20260314-093015-123)
+	createdAt: Date;
+	size: number; // bytes
+}
+
+export interface RestoreResult {
+	success: boolean;
+	filePath: string; // 還原的檔案
+	restoredFrom?: string; // 使用的備份
+	previousBackup?: string | null; // 還原前目前檔案的備份，可再還原回來
+	error?: Error;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+/**
+ * 時間戳記 (UTC YYYYMMDD-HHmmss-SSS)，可依字串排序
+ * 不使用本地時間：日光節約時間結束時時鐘倒退，較新的備份會排在較舊的前面
+ */
+function formatTimestamp(date: Date): string {
+	return (
+		`${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+			date.getUTCDate()
+		)}-` +
+		`${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+			date.getUTCSeconds()
+		)}-` +
+		pad(date.getUTCMilliseconds(), 3)
+	);
+}
+
+function parseTimestamp(timestamp: string): Date {
+	const [, y, mo, d, h, mi, s, ms] = timestamp.match(
+		/^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})-(\d{3})$/
+	) as RegExpMatchArray;
+	return new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, +ms));
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 取得目標檔同資料夾的暫存檔路徑，更名時才能保證不跨磁碟
+ * @param {string} target - 目標檔案
+ */
+export function getTempPath(target: string): string {
+	return path.join(
+		path.dirname(target),
+		`.${path.basename(target)}.${process.pid}.${Date.now()}.tmp`
+	);
+}
+
+/**
+ * 先複製到暫存檔再更名，中斷時不會留下寫到一半的目標檔
+ * @param {string} source - 來源檔案
+ * @param {string} target - 目標檔案
+ */
+export function copyFileAtomically(source: string, target: string): void {
+	fs.mkdirSync(path.dirname(target), { recursive: true });
+	const tempPath = getTempPath(target);
+	try {
+		fs.copyFileSync(source, tempPath);
+		fs.renameSync(tempPath, target);
+	} finally {
+		if (fs.existsSync(tempPath)) {
+			fs.unlinkSync(tempPath);
+		}
+	}
+}
+
+export default class BackupService {
+	/**
+	 * @param {number} retention - 每個檔案保留的備份數，0 表示不建立備份
+	 * @param {string} backupFolder - 備份資料夾，預設為檔案所在資料夾的 .backups
+	 */
+	constructor(
+		private readonly retention: number = DEFAULT_BACKUP_RETENTION,
+		private readonly backupFolder?: string
+	) {}
+
+	/**
+	 * 取得檔案的備份資料夾
+	 */
+	getBackupFolder(filePath: string): string {
+		return (
+			this.backupFolder ||
+			path.join(path.dirname(path.resolve(filePath)), DEFAULT_BACKUP_FOLDER)
+		);
+	}
+
+	/**
+	 * 建立帶時間戳記的備份 (<備份資料夾>/<檔名>.<時間戳記><副檔名>)，並刪除超過保留數的舊備份
+	 * @param {string} filePath - 要備份的檔案
+	 * @returns {string | null} 備份檔路徑，檔案不存在或保留數為 0 時為 null
+	 */
+	createBackup(filePath: string): string | null {
+		const backupPath = this.snapshot(filePath);
+		if (backupPath) {
+			this.prune(filePath);
+		}
+		return backupPath;
+	}
+
+	/**
+	 * 複製一份備份，不刪除舊備份
+	 * @private
+	 */
+	private snapshot(filePath: string): string | null {
+		if (this.retention < 1 || !fs.existsSync(filePath)) {
+			return null;
+		}
+
+		const ext = path.extname(filePath);
+		const base = path.basename(filePath, ext);
+		const folder = this.getBackupFolder(filePath);
+
+		// 同一毫秒內重複備份時往後遞增，避免覆蓋
+		let time = Date.now();
+		let backupPath: string;
+		do {
+			backupPath = path.join(
+				folder,
+				`${base}.${formatTimestamp(new Date(time++))}${ext}`
+			);
+		} while (fs.existsSync(backupPath));
+
+		copyFileAtomically(filePath, backupPath);
+		return backupPath;
+	}
+
+	/**
+	 * 列出檔案的所有備份（新到舊）
+	 * @param {string} filePath - 原始檔案
+	 * @returns {BackupEntry[]} 備份清單
+	 */
+	listBackups(filePath: string): BackupEntry[] {
+		const folder = this.getBackupFolder(filePath);
+		if (!fs.existsSync(folder)) {
+			return [];
+		}
+
+		const ext = path.extname(filePath);
+		const base = path.basename(filePath, ext);
+		const pattern = new RegExp(
+			`^${escapeRegExp(base)}\\.(\\d{8}-\\d{6}-\\d{3})${escapeRegExp(ext)}$`
+		);
+
+		return fs
+			.readdirSync(folder)
+			.map((name) => ({ name, match: name.match(pattern) }))
+			.filter(({ match }) => match !== null)
+			.map(({ name, match }) => {
+				const backupPath = path.join(folder, name);
+				const timestamp = (match as RegExpMatchArray)[1];
+				return {
+					filePath: backupPath,
+					timestamp,
+					createdAt: parseTimestamp(timestamp),
+					size: fs.statSync(backupPath).size,
+				};
+			})
+			.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+	}
+
+	/**
+	 * 刪除超過保留數的舊備份
+	 * @returns {string[]} 刪除的備份檔
+	 */
+	prune(filePath: string): string[] {
+		const removed = this.listBackups(filePath)
+			.slice(this.retention)
+			.map((entry) => entry.filePath);
+		for (const backupPath of removed) {
+			fs.unlinkSync(backupPath);
+		}
+		return removed;
+	}
+
+	/**
+	 * 找出指定的備份
+	 * @param {string} filePath - 原始檔案
+	 * @param {string} selector - 備份檔路徑、檔名或時間戳記，未指定時使用最新的備份
+	 * @returns {BackupEntry} 備份
+	 */
+	findBackup(filePath: string, selector?: string): BackupEntry {
+		const backups = this.listBackups(filePath);
+		const entry = selector
+			? backups.find(
+					(backup) =>
+						backup.timestamp === selector ||
+						path.basename(backup.filePath) === selector ||
+						backup.filePath === path.resolve(selector)
+			  )
+			: backups[0];
+
+		if (!entry) {
+			throw new Error(
+				selector
+					? `找不到備份：${selector}`
+					: `沒有可用的備份：${path.basename(filePath)}`
+			);
+		}
+		return entry;
+	}
+
+	/**
+	 * 從備份還原檔案，還原前會先備份目前的檔案
+	 * @param {string} filePath - 要還原的檔案
+	 * @param {string} selector - 備份檔路徑、檔名或時間戳記，未指定時使用最新的備份
+	 * @returns {RestoreResult} 還原結果
+	 */
+	restore(filePath: string, selector?: string): RestoreResult {
+		try {
+			const entry = this.findBackup(filePath, selector);
+			// 先還原再刪除舊備份，避免要還原的備份剛好超過保留數被刪除
+			const previousBackup = this.snapshot(filePath);
+			copyFileAtomically(entry.filePath, filePath);
+			if (previousBackup) {
+				this.prune(filePath);
+			}
+
+			return {
+				success: true,
+				filePath,
+				restoredFrom: entry.filePath,
+				previousBackup,
+			};
+		} catch (error) {
+			return { success: false, filePath, error: error as Error };
+		}
+	}
+}
@@ -0,0 +1,310 @@
+import fs from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+
+const MM_TO_PT = 72 / 25.4;
+
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+
+export interface BadgeLayout {
+	columns: number; // 每頁欄數
+	rows: number; // 每頁列數
+	labelWidth: number; // 標籤寬度 (mm)
+	labelHeight: number; // 標籤高度 (mm)
+	marginTop: number; // 頁面上邊界 (mm)
+	marginLeft: number; // 頁面左邊界 (mm)
+	gapX: number; // 標籤水平間距 (mm)
+	gapY: number; // 標籤垂直間距 (mm)
+	padding: number; // 標籤內邊距 (mm)
+}
+
+export interface BadgeOptions {
+	layout: BadgeLayout;
+	fontPath?: string; // TTF/OTF 字型檔，中文姓名需要 CJK 字型（如 Noto Sans TC）
+	fontSize: number; // 姓名字級 (pt)，其他行為 70%
+	cutLines: boolean; // 是否畫出標籤外框
+}
+
+export interface BadgeItem {
+	qrCode: Buffer; // QR Code PNG/JPEG
+	title: string; // 大字標題（姓名）
+	lines: string[]; // 其他資訊（組別、家族等）
+}
+
+export interface BadgeResult {
+	success: boolean;
+	filePath: string;
+	badgeCount: number;
+	pageCount: number;
+	error?: Error;
+}
+
+/**
+ * A4 標籤紙預設版型 (Avery / 相容規格)
+ */
+export const BADGE_PRESETS: Record<string, BadgeLayout> = {
+	// 3 x 7，63.5 x 38.1 mm
+	"avery-l7160": {
+		columns: 3,
+		rows: 7,
+		labelWidth: 63.5,
+		labelHeight: 38.1,
+		marginTop: 15.15,
+		marginLeft: 7.25,
+		gapX: 2.54,
+		gapY: 0,
+		padding: 2,
+	},
+	// 2 x 7，99.1 x 38.1 mm
+	"avery-l7163": {
+		columns: 2,
+		rows: 7,
+		labelWidth: 99.1,
+		labelHeight: 38.1,
+		marginTop: 15.15,
+		marginLeft: 4.65,
+		gapX: 2.5,
+		gapY: 0,
+		padding: 2.5,
+	},
+	// 2 x 5，99.1 x 57 mm
+	"avery-l7173": {
+		columns: 2,
+		rows: 5,
+		labelWidth: 99.1,
+		labelHeight: 57,
+		marginTop: 6,
+		marginLeft: 4.65,
+		gapX: 2.5,
+		gapY: 0,
+		padding: 3,
+	},
+	// 2 x 4，99.1 x 67.7 mm
+	"avery-l7165": {
+		columns: 2,
+		rows: 4,
+		labelWidth: 99.1,
+		labelHeight: 67.7,
+		marginTop: 13.1,
+		marginLeft: 4.65,
+		gapX: 2.5,
+		gapY: 0,
+		padding: 3,
+	},
+};
+
+export const DEFAULT_BADGE_PRESET = "avery-l7163";
+
+/**
+ * 依欄列數與邊界自動計算標籤尺寸，鋪滿 A4
+ */
+export function createGridLayout(
+	columns: number,
+	rows: number,
+	margin = 10,
+	gap = 2
+): BadgeLayout {
+	return {
+		columns,
+		rows,
+		labelWidth: (A4_WIDTH_MM - margin * 2 - gap * (columns - 1)) / columns,
+		labelHeight: (A4_HEIGHT_MM - margin * 2 - gap * (rows - 1)) / rows,
+		marginTop: margin,
+		marginLeft: margin,
+		gapX: gap,
+		gapY: gap,
+		padding: 2,
+	};
+}
+
+/**
+ * 檢查版型是否超出 A4
+ */
+export function assertLayoutFits(layout: BadgeLayout): void {
+	const width =
+		layout.marginLeft +
+		layout.columns * layout.labelWidth +
+		(layout.columns - 1) * layout.gapX;
+	const height =
+		layout.marginTop +
+		layout.rows * layout.labelHeight +
+		(layout.rows - 1) * layout.gapY;
+
+	if (layout.columns < 1 || layout.rows < 1) {
+		throw new Error("欄數與列數至少為 1");
+	}
+	if (width > A4_WIDTH_MM + 0.01 || height > A4_HEIGHT_MM + 0.01) {
+		throw new Error(
+			`版型超出 A4 (${width.toFixed(1)} x ${height.toFixed(1)} mm)`
+		);
+	}
+	if (
+		layout.labelWidth <= layout.padding * 2 ||
+		layout.labelHeight <= layout.padding * 2
+	) {
+		throw new Error("標籤尺寸小於內邊距");
+	}
+}
+
+export default class BadgePdfService {
+	/**
+	 * 產生名牌 PDF，每張標籤左側為 QR Code、右側為姓名與資訊
+	 * @param {BadgeItem[]} badges - 名牌資料
+	 * @param {string} filePath - 輸出 PDF 路徑
+	 * @param {BadgeOptions} options - 版型與字型
+	 * @returns {Promise<BadgeResult>} 產生結果
+	 */
+	async generateBadges(
+		badges: BadgeItem[],
+		filePath: string,
+		options: BadgeOptions
+	): Promise<BadgeResult> {
+		const { layout } = options;
+		const perPage = layout.columns * layout.rows;
+		const pageCount = Math.max(1, Math.ceil(badges.length / perPage));
+
+		try {
+			assertLayoutFits(layout);
+
+			if (options.fontPath && !fs.existsSync(options.fontPath)) {
+				throw new Error(`字型檔不存在：${options.fontPath}`);
+			}
+			if (
+				!options.fontPath &&
+				badges.some((badge) =>
+					/[^\x00-\x7F]/.test([badge.title, ...badge.lines].join(""))
+				)
+			) {
+				console.warn(
+					"⚠️ 名牌包含中文但未指定字型，中文字將無法顯示，請指定 CJK 字型（如 Noto Sans TC）"
+				);
+			}
+
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+			const doc = new PDFDocument({
+				size: "A4",
+				margin: 0,
+				autoFirstPage: false,
+			});
+			const stream = fs.createWriteStream(filePath);
+			const finished = new Promise<void>((resolve, reject) => {
+				stream.on("finish", () => resolve());
+				stream.on("error", reject);
+				doc.on("error", reject);
+			});
+			doc.pipe(stream);
+
+			if (options.fontPath) {
+				doc.registerFont("badge", options.fontPath);
+				doc.font("badge");
+			}
+
+			badges.forEach((badge, index) => {
+				const position = index % perPage;
+				if (position === 0) {
+					doc.addPage();
+				}
+
+				const column = position % layout.columns;
+				const row = Math.floor(position / layout.columns);
+				const x =
+					layout.marginLeft + column * (layout.labelWidth + layout.gapX);
+				const y = layout.marginTop + row * (layout.labelHeight + layout.gapY);
+
+				this.drawBadge(doc, badge, x * MM_TO_PT, y * MM_TO_PT, options);
+			});
+
+			if (badges.length === 0) {
+				doc.addPage();
+			}
+
+			doc.end();
+			await finished;
+
+			console.log(
+				`✅ 名牌 PDF 產生完成：${path.basename(filePath)}（${
+					badges.length
+				} 張，${pageCount} 頁）`
+			);
+
+			return {
+				success: true,
+				filePath,
+				badgeCount: badges.length,
+				pageCount,
+			};
+		} catch (error) {
+			console.error(`❌ 名牌 PDF 產生失敗：${error}`);
+			return {
+				success: false,
+				filePath,
+				badgeCount: 0,
+				pageCount: 0,
+				error: error as Error,
+			};
+		}
+	}
+
+	/**
+	 * 繪製單張名牌
+	 */
+	private drawBadge(
+		doc: PDFKit.PDFDocument,
+		badge: BadgeItem,
+		x: number,
+		y: number,
+		options: BadgeOptions
+	): void {
+		const { layout, fontSize } = options;
+		const width = layout.labelWidth * MM_TO_PT;
+		const height = layout.labelHeight * MM_TO_PT;
+		const padding = layout.padding * MM_TO_PT;
+
+		if (options.cutLines) {
+			doc
+				.save()
+				.lineWidth(0.3)
+				.strokeColor("#cccccc")
+				.rect(x, y, width, height)
+				.stroke()
+				.restore();
+		}
+
+		// QR Code 為正方形，邊長取標籤高度（扣除內邊距），且不超過寬度的一半
+		const qrSize = Math.min(height - padding * 2, width / 2 - padding);
+		doc.image(badge.qrCode, x + padding, y + (height - qrSize) / 2, {
+			width: qrSize,
+			height: qrSize,
+		});
+
+		const textX = x + padding * 2 + qrSize;
+		const textWidth = width - (textX - x) - padding;
+		const detailSize = fontSize * 0.7;
+		const textHeight = fontSize * 1.2 + badge.lines.length * detailSize * 1.3;
+		let textY = y + Math.max(padding, (height - textHeight) / 2);
+
+		doc
+			.fillColor("#000000")
+			.fontSize(fontSize)
+			.text(badge.title, textX, textY, {
+				width: textWidth,
+				height: fontSize * 1.2,
+				ellipsis: true,
+				lineBreak: false,
+			});
+		textY += fontSize * 1.2;
+
+		doc.fillColor("#444444").fontSize(detailSize);
+		for (const line of badge.lines) {
+			doc.text(line, textX, textY, {
+				width: textWidth,
+				height: detailSize * 1.3,
+				ellipsis: true,
+				lineBreak: false,
+			});
+			textY += detailSize * 1.3;
+		}
+	}
+}
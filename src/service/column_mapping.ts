@@ -0,0 +1,185 @@
+import { FieldType, FieldValue } from "./row_schema";
+
+export interface ColumnRule {
+	aliases: string[]; // 可接受的標題文字（不分大小寫，前後空白忽略）
+	required: boolean; // 缺少欄位或儲存格空白時是否視為錯誤
+	type?: FieldType; // 儲存格的型別，預設 string
+	default?: FieldValue; // 儲存格空白時使用的值
+}
+
+export type ColumnMapping = Record<string, ColumnRule>;
+
+/**
+ * 欄位對應設定的簡寫：只給別名陣列，或部分的 ColumnRule
+ */
+export type ColumnMappingInput = Record<string, string[] | Partial<ColumnRule>>;
+
+export interface ResolvedColumns {
+	fields: Record<string, string>; // 欄位名稱 -> 實際標題
+	missing: string[]; // 找不到的非必要欄位
+	unmapped: string[]; // 沒有對應到任何欄位的標題
+}
+
+/**
+ * 員工名單的預設欄位對應
+ */
+export const STAFF_COLUMN_MAPPING: ColumnMapping = {
+	id: { aliases: ["id", "員工編號", "編號"], required: true },
+	code: { aliases: ["code", "代碼"], required: false },
+	acount: { aliases: ["acount", "account", "帳號"], required: false },
+	staff_name: { aliases: ["staff_name", "name", "姓名"], required: false },
+	family: {
+		aliases: ["family", "family_name", "家族", "眷屬姓名"],
+		required: false,
+	},
+	team: { aliases: ["team", "組別"], required: false },
+};
+
+/**
+ * 缺少必要欄位
+ */
+export class ColumnMappingError extends Error {
+	constructor(message: string, public readonly missing: string[]) {
+		super(message);
+		this.name = "ColumnMappingError";
+	}
+}
+
+function normalizeHeader(header: string): string {
+	return header.trim().toLowerCase();
+}
+
+/**
+ * 欄位編號轉換為字母 (如: 7 -> 'G')
+ * @param {number} col - 欄位編號（從 1 開始）
+ * @returns {string} 欄位字母
+ */
+export function columnLetter(col: number): string {
+	let letter = "";
+	while (col > 0) {
+		const remainder = (col - 1) % 26;
+		letter = String.fromCharCode(65 + remainder) + letter;
+		col = Math.floor((col - 1) / 26);
+	}
+	return letter;
+}
+
+/**
+ * 合併預設對應與自訂設定，自訂別名會加在預設別名之前
+ * @param {ColumnMapping} base - 預設對應
+ * @param {ColumnMappingInput} overrides - 自訂設定，可新增欄位
+ */
+export function mergeColumnMapping(
+	base: ColumnMapping,
+	overrides: ColumnMappingInput = {}
+): ColumnMapping {
+	const merged: ColumnMapping = {};
+	for (const [field, rule] of Object.entries(base)) {
+		merged[field] = { ...rule, aliases: [...rule.aliases] };
+	}
+
+	for (const [field, input] of Object.entries(overrides)) {
+		const rule: Partial<ColumnRule> = Array.isArray(input)
+			? { aliases: input }
+			: input;
+		const current = merged[field] || { aliases: [field], required: false };
+
+		merged[field] = {
+			aliases: [...(rule.aliases || []), ...current.aliases].filter(
+				(alias, index, aliases) => aliases.indexOf(alias) === index
+			),
+			required: rule.required ?? current.required,
+			type: rule.type ?? current.type,
+			default: rule.default ?? current.default,
+		};
+	}
+
+	return merged;
+}
+
+export default class ColumnMapper {
+	constructor(private readonly mapping: ColumnMapping) {}
+
+	/**
+	 * 依標題列找出每個欄位對應的實際標題
+	 * @param {string[]} headers - 標題列
+	 * @param {string} source - 錯誤訊息中使用的來源名稱（如工作表名稱）
+	 * @returns {ResolvedColumns} 對應結果
+	 */
+	resolve(headers: string[], source = "工作表"): ResolvedColumns {
+		const byNormalized = new Map<string, string>();
+		for (const header of headers) {
+			const key = normalizeHeader(header);
+			if (!byNormalized.has(key)) {
+				byNormalized.set(key, header);
+			}
+		}
+
+		const fields: Record<string, string> = {};
+		const missing: string[] = [];
+		const missingRequired: string[] = [];
+
+		for (const [field, rule] of Object.entries(this.mapping)) {
+			const alias = rule.aliases.find((alias) =>
+				byNormalized.has(normalizeHeader(alias))
+			);
+
+			if (alias) {
+				fields[field] = byNormalized.get(normalizeHeader(alias)) as string;
+			} else if (rule.required) {
+				missingRequired.push(field);
+			} else {
+				missing.push(field);
+			}
+		}
+
+		if (missingRequired.length > 0) {
+			const details = missingRequired
+				.map(
+					(field) =>
+						`${field}（可接受的標題：${this.mapping[field].aliases.join(
+							"、"
+						)}）`
+				)
+				.join("；");
+			throw new ColumnMappingError(
+				`${source} 缺少必要欄位：${details}`,
+				missingRequired
+			);
+		}
+
+		const mappedHeaders = new Set(Object.values(fields));
+		const unmapped = headers.filter((header) => !mappedHeaders.has(header));
+
+		return { fields, missing, unmapped };
+	}
+
+	/**
+	 * 將以標題為 key 的資料轉換為以欄位名稱為 key 的資料
+	 * 找不到的欄位值為 null
+	 */
+	mapRows(
+		rows: Record<string, any>[],
+		resolved: ResolvedColumns
+	): Record<string, any>[] {
+		return rows.map((row) => this.mapRow(row, resolved));
+	}
+
+	/**
+	 * 轉換單筆資料，供串流讀取逐列使用
+	 * @param {Record<string, any>} row - 以標題為 key 的資料
+	 * @param {ResolvedColumns} resolved - resolve 的結果
+	 * @returns {Record<string, any>} 以欄位名稱為 key 的資料
+	 */
+	mapRow(
+		row: Record<string, any>,
+		resolved: ResolvedColumns
+	): Record<string, any> {
+		const record: Record<string, any> = {};
+		for (const field of Object.keys(this.mapping)) {
+			const header = resolved.fields[field];
+			record[field] = header === undefined ? null : row[header] ?? null;
+		}
+		return record;
+	}
+}
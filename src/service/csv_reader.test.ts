@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { escapeCsvFormula, formatCsv, parseCsv } from "./csv_reader";
+
+test("escapeCsvFormula 讓公式開頭的文字維持文字", () => {
+	for (const text of [
+		"=1+1",
+		"+886912345678",
+		"-2",
+		"@SUM(A1)",
+		"\tA",
+		"\rA",
+	]) {
+		assert.equal(escapeCsvFormula(text), `'${text}`);
+	}
+	for (const text of ["XSG0001", "王蘭君", "", "a=b", "'=1"]) {
+		assert.equal(escapeCsvFormula(text), text);
+	}
+});
+
+test("formatCsv 加上 BOM，含分隔符號、引號或換行的欄位加上引號", () => {
+	const text = formatCsv([
+		["id", "name"],
+		["A001", 'say "hi", ok'],
+		["A002", "line1\nline2"],
+	]);
+	assert.equal(
+		text,
+		'\uFEFFid,name\r\nA001,"say ""hi"", ok"\r\nA002,"line1\nline2"\r\n'
+	);
+	assert.deepEqual(parseCsv(text.slice(1), ",").slice(1, 3), [
+		["A001", 'say "hi", ok'],
+		["A002", "line1\nline2"],
+	]);
+});
@@ -0,0 +1,184 @@
+import fs from "fs";
+import iconv from "iconv-lite";
+
+export type CsvEncoding = "utf8" | "utf16le" | "utf16be" | "cp950";
+
+export interface CsvData {
+	rows: string[][];
+	encoding: CsvEncoding; // 偵測到的編碼
+	delimiter: string; // 偵測到的分隔符號
+}
+
+/**
+ * 可偵測的分隔符號（依優先順序）
+ */
+export const CSV_DELIMITERS = [",", "\t", ";", "|"];
+
+// 偵測分隔符號時取樣的長度與行數
+const SAMPLE_LENGTH = 64 * 1024;
+const SAMPLE_ROWS = 50;
+
+/**
+ * 偵測編碼：有 BOM 時依 BOM，否則為合法 UTF-8 時視為 UTF-8，其餘視為 Big5 (cp950，繁中 Windows Excel 匯出的編碼)
+ * @param {Buffer} buffer - 檔案內容
+ * @returns {{ encoding: CsvEncoding; bomLength: number }} 編碼與 BOM 長度
+ */
+export function detectEncoding(buffer: Buffer): {
+	encoding: CsvEncoding;
+	bomLength: number;
+} {
+	if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+		return { encoding: "utf8", bomLength: 3 };
+	}
+	if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+		return { encoding: "utf16le", bomLength: 2 };
+	}
+	if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+		return { encoding: "utf16be", bomLength: 2 };
+	}
+	try {
+		new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+		return { encoding: "utf8", bomLength: 0 };
+	} catch {
+		return { encoding: "cp950", bomLength: 0 };
+	}
+}
+
+/**
+ * 解析 CSV 文字 (RFC 4180)：支援引號、引號內的分隔符號與換行，以及 "" 跳脫
+ * @param {string} text - CSV 文字
+ * @param {string} delimiter - 分隔符號
+ * @returns {string[][]} 每一行的欄位
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char !== '"') {
+				field += char;
+			} else if (text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else {
+				quoted = false;
+			}
+		} else if (char === '"' && field === "") {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = "";
+		} else if (char === "\r" || char === "\n") {
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows;
+}
+
+/**
+ * 以 = + - @ 或 Tab、CR 開頭的文字在 Excel 開啟時會被當成公式，開頭加上 ' 使其維持文字
+ * @param {string} text - 欄位值
+ * @returns {string} 不會被當成公式的文字
+ */
+export function escapeCsvFormula(text: string): string {
+	return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * 產生 CSV 文字 (RFC 4180)：含分隔符號、引號或換行的欄位加上引號
+ * 開頭加上 UTF-8 BOM，Excel 直接開啟時中文不會變成亂碼
+ * @param {unknown[][]} rows - 每一行的欄位，null/undefined 為空白
+ * @param {string} delimiter - 分隔符號
+ * @returns {string} CSV 文字（CRLF 換行）
+ */
+export function formatCsv(rows: unknown[][], delimiter = ","): string {
+	const escape = (value: unknown) => {
+		const text = value === null || value === undefined ? "" : String(value);
+		return text.includes(delimiter) || /["\r\n]/.test(text)
+			? `"${text.replace(/"/g, '""')}"`
+			: text;
+	};
+	return (
+		"\uFEFF" +
+		rows.map((row) => row.map(escape).join(delimiter)).join("\r\n") +
+		"\r\n"
+	);
+}
+
+/**
+ * 偵測分隔符號：取樣前幾行，選擇欄位數大於 1 且各行欄位數最一致的分隔符號
+ * @param {string} text - CSV 文字
+ * @returns {string} 分隔符號，無法判斷時為逗號
+ */
+export function detectDelimiter(text: string): string {
+	const truncated = text.length > SAMPLE_LENGTH;
+	const sample = text.slice(0, SAMPLE_LENGTH);
+
+	let best = { delimiter: ",", ratio: 0, columns: 0 };
+	for (const delimiter of CSV_DELIMITERS) {
+		const rows = parseCsv(sample, delimiter);
+		if (truncated) {
+			rows.pop(); // 取樣最後一行可能不完整
+		}
+		const counts = rows
+			.slice(0, SAMPLE_ROWS)
+			.filter((row) => row.length > 1 || row[0] !== "")
+			.map((row) => row.length);
+		if (counts.length === 0 || counts[0] < 2) {
+			continue;
+		}
+
+		const ratio =
+			counts.filter((count) => count === counts[0]).length / counts.length;
+		if (
+			ratio > best.ratio ||
+			(ratio === best.ratio && counts[0] > best.columns)
+		) {
+			best = { delimiter, ratio, columns: counts[0] };
+		}
+	}
+	return best.delimiter;
+}
+
+/**
+ * 讀取 CSV 檔案，自動偵測編碼與分隔符號
+ * 第一行為 Excel 的 sep=; 提示時使用該分隔符號
+ * @param {string} filePath - CSV 檔案路徑
+ * @returns {CsvData} 每一行的欄位（皆為文字，保留 ID 前面的 0）
+ */
+export function readCsv(filePath: string): CsvData {
+	const buffer = fs.readFileSync(filePath);
+	const { encoding, bomLength } = detectEncoding(buffer);
+	let text = iconv.decode(
+		buffer.subarray(bomLength),
+		encoding === "utf16be" ? "utf16-be" : encoding
+	);
+
+	let delimiter: string;
+	const hint = text.match(/^sep=(.)\r?\n/i);
+	if (hint) {
+		delimiter = hint[1];
+		text = text.slice(hint[0].length);
+	} else {
+		delimiter = detectDelimiter(text);
+	}
+
+	return { rows: parseCsv(text, delimiter), encoding, delimiter };
+}
@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import FileNameTemplate, {
+	FileNameError,
+	resolveInside,
+	sanitizeFileName,
+} from "./file_naming";
+import QRCodeService from "./qrcode";
+
+let tempDir: string;
+
+before(() => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "file-naming-test-"));
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("sanitizeFileName", () => {
+	const cases: [string, string][] = [
+		["XSG0001", "XSG0001"],
+		["../../etc/passwd", "_._.._etc_passwd"],
+		["/etc/passwd", "_etc_passwd"],
+		["C:\\Windows\\system32", "C__Windows_system32"],
+		['a<b>c:d"e|f?g*h', "a_b_c_d_e_f_g_h"],
+		["tab\there\u0000", "tab_here_"],
+		[".hidden", "_hidden"],
+		["trailing. . ", "trailing"],
+		["CON", "_CON"],
+		["nul.txt", "_nul.txt"],
+		["com1", "_com1"],
+		["Lpt9.png", "_Lpt9.png"],
+		["console", "console"],
+		["", "_"],
+		["...", "_"],
+		["  ", "_"],
+	];
+	for (const [input, expected] of cases) {
+		test(`${JSON.stringify(input)} → ${JSON.stringify(expected)}`, () => {
+			assert.equal(sanitizeFileName(input), expected);
+		});
+	}
+
+	test("過長時以字元（非 UTF-16 單位）截斷為 100 個", () => {
+		const result = sanitizeFileName("😀".repeat(150));
+		assert.equal(Array.from(result).length, 100);
+		assert.equal(result, "😀".repeat(100));
+	});
+});
+
+describe("resolveInside", () => {
+	test("資料夾內的相對路徑回傳絕對路徑", () => {
+		assert.equal(
+			resolveInside(tempDir, "team/XSG0001.png"),
+			path.join(tempDir, "team", "XSG0001.png")
+		);
+		assert.equal(
+			resolveInside(tempDir, "team/../XSG0001.png"),
+			path.join(tempDir, "XSG0001.png")
+		);
+	});
+
+	for (const escaped of [
+		"../victim.png",
+		"../../victim.png",
+		"team/../../victim.png",
+		"..",
+		".",
+		"",
+		"/etc/passwd",
+		path.join(path.dirname(tempDir), "sibling.png"),
+		`${tempDir}-sibling/x.png`,
+	]) {
+		test(`拒絕超出資料夾的路徑 ${JSON.stringify(escaped)}`, () => {
+			assert.throws(() => resolveInside(tempDir, escaped), FileNameError);
+		});
+	}
+});
+
+describe("FileNameTemplate", () => {
+	test("拒絕不以 .{ext} 結尾、以 / 開頭或含 .. 的樣板", () => {
+		for (const template of [
+			"{id}.png",
+			"/{id}.{ext}",
+			"../{id}.{ext}",
+			"{team}/../{id}.{ext}",
+			"{team}//{id}.{ext}",
+			"{ext}/{id}.{ext}",
+		]) {
+			assert.throws(
+				() => new FileNameTemplate(template),
+				FileNameError,
+				template
+			);
+		}
+	});
+
+	test("ID 中的 ../、絕對路徑與保留名稱不會產生子資料夾", () => {
+		const { names } = new FileNameTemplate().assign([
+			{ id: "../../victim" },
+			{ id: "/etc/passwd" },
+			{ id: "C:\\Windows\\win.ini" },
+			{ id: "AUX" },
+		]);
+		assert.deepEqual(
+			[...names.values()],
+			["_._.._victim", "_etc_passwd", "C__Windows_win.ini", "_AUX"]
+		);
+		for (const name of names.values()) {
+			assert.equal(name.includes("/"), false);
+			resolveInside(tempDir, `${name}.png`);
+		}
+	});
+
+	test("不分大小寫重複時依名單順序加上 _2、_3，重複的 ID 共用檔名", () => {
+		const { names, renamed } = new FileNameTemplate(
+			"{staff_name}.{ext}"
+		).assign([
+			{ id: "A001", staff_name: "Amy" },
+			{ id: "A002", staff_name: "amy" },
+			{ id: "A003", staff_name: "AMY" },
+			{ id: "A001", staff_name: "Other" },
+			{ id: "A004", staff_name: "Amy_2" },
+		]);
+		assert.deepEqual(Object.fromEntries(names), {
+			A001: "Amy",
+			A002: "amy_2",
+			A003: "AMY_3",
+			A004: "Amy_2_2",
+		});
+		assert.deepEqual(renamed, ["A002", "A003", "A004"]);
+	});
+
+	test("{team}/ 子資料夾中的 ../ 與分隔符號不會超出輸出資料夾", async () => {
+		const template = new FileNameTemplate("{team}/{staff_name}_{id}.{ext}");
+		const rows = [
+			{ id: "A001", team: "../..", staff_name: "王蘭君" },
+			{ id: "A002", team: "/tmp", staff_name: "../x" },
+			{ id: "A003", team: "..\\..", staff_name: "賴嘉俞" },
+			{ id: "A004", team: "", staff_name: "" },
+		];
+		const { names } = template.assign(rows);
+		assert.deepEqual(Object.fromEntries(names), {
+			A001: "_._/王蘭君_A001",
+			A002: "_tmp/_._x_A002",
+			A003: "_._/賴嘉俞_A003",
+			A004: "_/_A004",
+		});
+
+		const service = new QRCodeService(tempDir);
+		const folder = service.getOutputFolder("member");
+		for (const row of rows) {
+			const [generated] = await service.generateQRCode(
+				names.get(row.id) as string,
+				"member",
+				row.id
+			);
+			assert.equal(
+				path.relative(folder, generated.filePath).startsWith(".."),
+				false,
+				generated.filePath
+			);
+			assert.ok(fs.existsSync(generated.filePath));
+		}
+	});
+
+	test("generateQRCode 拒絕超出資料夾的檔名並保留原因", async () => {
+		const service = new QRCodeService(tempDir);
+		const originalError = console.error;
+		console.error = () => undefined;
+		try {
+			await assert.rejects(
+				service.generateQRCode("../escaped", "member", "X"),
+				/Failed to generate QR code: 檔案路徑超出輸出資料夾：\.\.\/escaped\.png/
+			);
+		} finally {
+			console.error = originalError;
+		}
+		assert.equal(fs.existsSync(path.join(tempDir, "escaped.png")), false);
+	});
+});
@@ -0,0 +1,160 @@
+import path from "path";
+import { CompiledTemplate } from "./payload_template";
+
+export const DEFAULT_FILE_NAME_TEMPLATE = "{id}.{ext}";
+
+/**
+ * 檔名樣板設定錯誤，或檔案路徑超出輸出資料夾
+ */
+export class FileNameError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "FileNameError";
+	}
+}
+
+export interface FileNameAssignment {
+	names: Map<string, string>; // ID -> 相對於 QR Code 資料夾的檔名（不含副檔名，以 / 分隔子資料夾）
+	renamed: string[]; // 檔名重複而加上編號的 ID
+}
+
+// Windows 不允許的字元、路徑分隔符號與控制字元
+const FORBIDDEN_CHARACTERS = /[<>:"/\\|?*\u0000-\u001F\u007F]/g;
+// Windows 保留的裝置名稱（含副檔名時也不可使用）
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+const MAX_SEGMENT_LENGTH = 100;
+const EXT_PLACEHOLDER = ".{ext}";
+
+/**
+ * 將文字轉為可在 Windows、macOS 與 Linux 使用的單一檔名或資料夾名稱
+ * 不允許的字元與開頭的 . 改為 _，去除結尾的 . 與空白，保留名稱前加上 _，過長時截斷
+ * @param {string} name - 原始文字
+ * @returns {string} 安全的名稱，空白時為 _
+ */
+export function sanitizeFileName(name: string): string {
+	let result = name
+		.replace(FORBIDDEN_CHARACTERS, "_")
+		.trim()
+		.replace(/^\./, "_") // 避免成為隱藏檔
+		.replace(/[. ]+$/, "");
+	if (RESERVED_NAMES.test(result)) {
+		result = `_${result}`;
+	}
+	result = Array.from(result).slice(0, MAX_SEGMENT_LENGTH).join("");
+	return result === "" ? "_" : result;
+}
+
+/**
+ * 取得資料夾內的絕對路徑，超出資料夾（如 ..、絕對路徑）時丟出錯誤
+ * @param {string} root - 資料夾
+ * @param {string} relativePath - 相對路徑
+ * @returns {string} 絕對路徑
+ */
+export function resolveInside(root: string, relativePath: string): string {
+	const resolved = path.resolve(root, relativePath);
+	const relative = path.relative(root, resolved);
+	if (
+		relative === "" ||
+		relative === ".." ||
+		relative.startsWith(`..${path.sep}`) ||
+		path.isAbsolute(relative)
+	) {
+		throw new FileNameError(`檔案路徑超出輸出資料夾：${relativePath}`);
+	}
+	return resolved;
+}
+
+/**
+ * QR Code 圖片的檔名樣板，如 '{team}/{staff_name}_{id}.{ext}'
+ * 以 / 分隔子資料夾，每一層都以 sanitizeFileName 處理，結果一定在 QR Code 資料夾內
+ */
+export default class FileNameTemplate {
+	private readonly segments: CompiledTemplate[];
+
+	/**
+	 * @param {string} template - 檔名樣板，必須以 .{ext} 結尾
+	 */
+	constructor(readonly template: string = DEFAULT_FILE_NAME_TEMPLATE) {
+		if (typeof template !== "string" || !template.endsWith(EXT_PLACEHOLDER)) {
+			throw new FileNameError(`必須是以 ${EXT_PLACEHOLDER} 結尾的字串`);
+		}
+		const stem = template.slice(0, -EXT_PLACEHOLDER.length);
+		if (stem.includes("{ext}")) {
+			throw new FileNameError("{ext} 只能出現在結尾");
+		}
+
+		const parts = stem.split(/[\\/]/);
+		if (parts.some((part) => ["", ".", ".."].includes(part.trim()))) {
+			throw new FileNameError(
+				`不可包含空白、. 或 .. 的資料夾名稱，也不可以 / 開頭：${template}`
+			);
+		}
+		try {
+			this.segments = parts.map((part) => new CompiledTemplate(part));
+		} catch (error) {
+			throw new FileNameError((error as Error).message);
+		}
+	}
+
+	/**
+	 * 樣板引用到的所有資料欄位
+	 */
+	get fields(): string[] {
+		const fields = this.segments.flatMap((segment) => segment.fields);
+		return fields.filter((field, index) => fields.indexOf(field) === index);
+	}
+
+	/**
+	 * 檢查樣板引用的欄位是否都存在
+	 * @param {string[]} availableFields - 可用的欄位名稱
+	 */
+	assertFields(availableFields: string[]): void {
+		const missing = this.fields.filter(
+			(field) => !availableFields.includes(field)
+		);
+		if (missing.length > 0) {
+			throw new FileNameError(
+				`fileName 引用了不存在的欄位：${missing.join(", ")}`
+			);
+		}
+	}
+
+	/**
+	 * 依資料列產生檔名（不含副檔名），欄位值中的 / 不會產生子資料夾
+	 * @param {Record<string, any>} row - 以欄位名稱為 key 的資料
+	 * @returns {string} 相對路徑，以 / 分隔
+	 */
+	render(row: Record<string, any>): string {
+		return this.segments
+			.map((segment) => sanitizeFileName(segment.render(row)))
+			.join("/");
+	}
+
+	/**
+	 * 產生整份名單的檔名，重複時（不分大小寫）依名單順序在後者加上 _2、_3…
+	 * @param {{ id: string }[]} rows - 名單資料
+	 * @returns {FileNameAssignment} 每個 ID 的檔名
+	 */
+	assign(rows: ({ id: string } & Record<string, any>)[]): FileNameAssignment {
+		const names = new Map<string, string>();
+		const renamed: string[] = [];
+		const used = new Set<string>();
+
+		for (const row of rows) {
+			if (names.has(row.id)) {
+				continue; // 重複的 ID 共用同一個檔案（名單檢查已列為錯誤）
+			}
+			const base = this.render(row);
+			let name = base;
+			for (let n = 2; used.has(name.toLowerCase()); n++) {
+				name = `${base}_${n}`;
+			}
+			if (name !== base) {
+				renamed.push(row.id);
+			}
+			used.add(name.toLowerCase());
+			names.set(row.id, name);
+		}
+		return { names, renamed };
+	}
+}
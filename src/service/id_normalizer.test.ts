@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+	DEFAULT_ID_NORMALIZATION,
+	IdNormalization,
+	normalizeId,
+	normalizeIdNormalization,
+} from "./id_normalizer";
+
+function normalize(id: string, options: Partial<IdNormalization> = {}) {
+	return normalizeId(id, { ...DEFAULT_ID_NORMALIZATION, ...options });
+}
+
+describe("normalizeId", () => {
+	test("NFKC 將全形英數字與全形空白轉為半形", () => {
+		assert.equal(normalize("ＸＳＧ００１"), "XSG001");
+		assert.equal(normalize("　A001　"), "A001");
+		assert.equal(normalize("ｘｓｇ-００１", { case: "upper" }), "XSG-001");
+		assert.equal(normalize("ＸＳＧ００１", { nfkc: false }), "ＸＳＧ００１");
+	});
+
+	test("去除零寬字元與前後空白，全部去除後為空字串", () => {
+		assert.equal(normalize("\uFEFFXSG\u200B00\u200C1\u200D\u2060"), "XSG001");
+		assert.equal(normalize(" \tXSG001\n"), "XSG001");
+		assert.equal(normalize("\u200B \uFEFF"), "");
+		assert.equal(normalize("\u200B", { prefix: "XSG", padDigits: 4 }), "");
+	});
+
+	test("大小寫轉換", () => {
+		assert.equal(normalize("Xsg001"), "Xsg001");
+		assert.equal(normalize("Xsg001", { case: "upper" }), "XSG001");
+		assert.equal(normalize("Xsg001", { case: "lower" }), "xsg001");
+	});
+
+	test("結尾數字補 0，超過位數時不截斷", () => {
+		assert.equal(normalize("XSG1", { padDigits: 4 }), "XSG0001");
+		assert.equal(normalize("12", { padDigits: 4 }), "0012");
+		assert.equal(normalize("XSG123456", { padDigits: 4 }), "XSG123456");
+		assert.equal(normalize("1A", { padDigits: 4 }), "1A");
+	});
+
+	test("補 0 與前綴一起使用", () => {
+		const options = { padDigits: 4, prefix: "XSG" };
+		assert.equal(normalize("1", options), "XSG0001");
+		assert.equal(normalize("XSG1", options), "XSG0001");
+		assert.equal(normalize("XSG0001", options), "XSG0001");
+		assert.equal(normalize("１２", options), "XSG0012");
+		assert.equal(normalize("XSG-7", options), "XSG-0007");
+	});
+
+	test("前綴依大小寫設定轉換，比對時不分大小寫", () => {
+		assert.equal(normalize("1", { case: "upper", prefix: "xsg" }), "XSG1");
+		assert.equal(normalize("xsg1", { case: "upper", prefix: "xsg" }), "XSG1");
+		assert.equal(normalize("XSG1", { case: "lower", prefix: "XSG" }), "xsg1");
+		assert.equal(normalize("xsg1", { prefix: "XSG" }), "xsg1");
+		assert.equal(normalize("1", { prefix: "ＸＳＧ" }), "XSG1");
+		assert.equal(normalize("1", { nfkc: false, prefix: "ＸＳＧ" }), "ＸＳＧ1");
+	});
+});
+
+describe("normalizeIdNormalization", () => {
+	test("補齊預設值並去除前綴空白", () => {
+		assert.deepEqual(normalizeIdNormalization({}), DEFAULT_ID_NORMALIZATION);
+		assert.deepEqual(
+			normalizeIdNormalization({
+				nfkc: false,
+				case: "upper",
+				padDigits: 4,
+				prefix: " XSG ",
+			}),
+			{ nfkc: false, case: "upper", padDigits: 4, prefix: "XSG" }
+		);
+	});
+
+	test("設定格式錯誤時拋出錯誤", () => {
+		for (const [input, message] of [
+			[null, /必須是物件/],
+			[[], /必須是物件/],
+			[{ nfkc: "yes" }, /nfkc/],
+			[{ case: "title" }, /case 必須是 preserve\/upper\/lower/],
+			[{ padDigits: 0 }, /padDigits/],
+			[{ padDigits: 1.5 }, /padDigits/],
+			[{ padDigits: 33 }, /padDigits/],
+			[{ prefix: " " }, /prefix/],
+			[{ prefix: 1 }, /prefix/],
+		] as [unknown, RegExp][]) {
+			assert.throws(() => normalizeIdNormalization(input), message);
+		}
+	});
+});
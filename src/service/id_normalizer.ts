@@ -0,0 +1,103 @@
+export type IdCase = "preserve" | "upper" | "lower";
+
+export const ID_CASES: IdCase[] = ["preserve", "upper", "lower"];
+
+export interface IdNormalization {
+	nfkc: boolean; // 全形英數字轉半形（Unicode NFKC）
+	case: IdCase; // 大小寫轉換
+	padDigits?: number; // 結尾數字補 0 至此位數，未指定時不補
+	prefix?: string; // ID 沒有此前綴時補上，未指定時不補
+}
+
+export const DEFAULT_ID_NORMALIZATION: IdNormalization = {
+	nfkc: true,
+	case: "preserve",
+};
+
+// 輸入法或複製貼上常夾帶的零寬字元
+const ZERO_WIDTH_CHARACTERS = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+/**
+ * 正規化 ID：NFKC → 去除零寬字元與前後空白 → 大小寫 → 結尾數字補 0 → 補前綴
+ * 同一個人的 ID 不論以全形、半形或不同大小寫輸入，都會得到相同的 QR Code 檔名
+ * @param {string} id - 原始 ID（已轉為文字）
+ * @param {IdNormalization} options - 正規化設定
+ * @returns {string} 正規化後的 ID，全部去除後為空字串
+ */
+export function normalizeId(id: string, options: IdNormalization): string {
+	let result = options.nfkc ? id.normalize("NFKC") : id;
+	result = result.replace(ZERO_WIDTH_CHARACTERS, "").trim();
+	if (result === "") {
+		return result;
+	}
+
+	const applyCase = (text: string) =>
+		options.case === "upper"
+			? text.toUpperCase()
+			: options.case === "lower"
+			? text.toLowerCase()
+			: text;
+	result = applyCase(result);
+
+	if (options.padDigits !== undefined) {
+		const padDigits = options.padDigits;
+		result = result.replace(/\d+$/, (digits) =>
+			digits.padStart(padDigits, "0")
+		);
+	}
+
+	if (options.prefix !== undefined) {
+		const prefix = applyCase(
+			options.nfkc ? options.prefix.normalize("NFKC") : options.prefix
+		);
+		// 不分大小寫比對，case 為 preserve 時 "xsg0001" 不會變成 "XSGxsg0001"
+		if (!result.toLowerCase().startsWith(prefix.toLowerCase())) {
+			result = prefix + result;
+		}
+	}
+	return result;
+}
+
+/**
+ * 驗證並補齊 ID 正規化設定
+ * @param {unknown} input - 設定檔中的 idNormalization
+ * @returns {IdNormalization} 完整設定
+ */
+export function normalizeIdNormalization(input: unknown): IdNormalization {
+	if (typeof input !== "object" || input === null || Array.isArray(input)) {
+		throw new Error("必須是物件");
+	}
+
+	const raw = input as Record<string, unknown>;
+	const options: IdNormalization = { ...DEFAULT_ID_NORMALIZATION };
+
+	if (raw.nfkc !== undefined) {
+		if (typeof raw.nfkc !== "boolean") {
+			throw new Error("nfkc 必須是布林值");
+		}
+		options.nfkc = raw.nfkc;
+	}
+	if (raw.case !== undefined) {
+		if (!ID_CASES.includes(raw.case as IdCase)) {
+			throw new Error(`case 必須是 ${ID_CASES.join("/")}`);
+		}
+		options.case = raw.case as IdCase;
+	}
+	if (raw.padDigits !== undefined) {
+		if (
+			!Number.isInteger(raw.padDigits) ||
+			(raw.padDigits as number) < 1 ||
+			(raw.padDigits as number) > 32
+		) {
+			throw new Error("padDigits 必須是 1 到 32 之間的整數");
+		}
+		options.padDigits = raw.padDigits as number;
+	}
+	if (raw.prefix !== undefined) {
+		if (typeof raw.prefix !== "string" || raw.prefix.trim() === "") {
+			throw new Error("prefix 必須是非空字串");
+		}
+		options.prefix = raw.prefix.trim();
+	}
+	return options;
+}
@@ -0,0 +1,335 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import PayloadSigner, {
+	decodeSignedClaims,
+	DEFAULT_KEY_ENV,
+	loadSigningKey,
+	normalizeSignatureConfig,
+	SignatureError,
+} from "./payload_signer";
+
+const HMAC_SECRET = "payload-signer-test-secret";
+const ISSUED_AT = new Date("2026-10-01T00:00:00Z");
+
+let tempDir: string;
+let privateKeyPem: string;
+let publicKeyPem: string;
+
+before(() => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "payload-signer-test-"));
+	const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+	privateKeyPem = privateKey.export({ type: "pkcs8", format: "pem" }) as string;
+	publicKeyPem = publicKey.export({ type: "spki", format: "pem" }) as string;
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+	delete process.env[DEFAULT_KEY_ENV];
+	delete process.env.PAYLOAD_SIGNER_TEST_KEY;
+});
+
+function hmacSigner(
+	options: { event?: string; expiresAt?: string } = {},
+	secret = HMAC_SECRET
+): PayloadSigner {
+	return new PayloadSigner(
+		"hmac-sha256",
+		crypto.createSecretKey(Buffer.from(secret, "utf8")),
+		options
+	);
+}
+
+/**
+ * 替換簽章 payload 中的一段 (0: 前綴、1: 內容、2: 簽章)
+ */
+function replacePart(signed: string, index: number, value: string): string {
+	const parts = signed.split(".");
+	parts[index] = value;
+	return parts.join(".");
+}
+
+describe("HMAC-SHA256", () => {
+	test("簽章後可驗證並取回內容", () => {
+		const signer = hmacSigner({ event: "2026-尾牙" });
+		const signed = signer.sign("XSG0001", "member", "XSG0001", ISSUED_AT);
+
+		assert.match(signed, /^QRS1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+		const result = signer.verify(signed);
+		assert.equal(result.valid, true);
+		assert.deepEqual(result.claims, {
+			id: "XSG0001",
+			t: "member",
+			v: "XSG0001",
+			alg: "hmac-sha256",
+			iat: ISSUED_AT.getTime() / 1000,
+			evt: "2026-尾牙",
+		});
+	});
+
+	test("內容被竄改時為 bad_signature", () => {
+		const signer = hmacSigner();
+		const signed = signer.sign("XSG0001", "member", "XSG0001");
+		const claims = decodeSignedClaims(signed);
+		const forged = replacePart(
+			signed,
+			1,
+			Buffer.from(JSON.stringify({ ...claims, id: "XSG9999" })).toString(
+				"base64url"
+			)
+		);
+
+		const result = signer.verify(forged);
+		assert.equal(result.valid, false);
+		assert.equal(result.reason, "bad_signature");
+		assert.equal(result.claims?.id, "XSG9999");
+	});
+
+	test("簽章被竄改或金鑰不同時為 bad_signature", () => {
+		const signed = hmacSigner().sign("XSG0001", "member", "XSG0001");
+		const signature = signed.split(".")[2];
+		const flipped = `${signature[0] === "A" ? "B" : "A"}${signature.slice(1)}`;
+
+		assert.equal(
+			hmacSigner().verify(replacePart(signed, 2, flipped)).reason,
+			"bad_signature"
+		);
+		assert.equal(
+			hmacSigner({}, "another-secret-at-least-16").verify(signed).reason,
+			"bad_signature"
+		);
+	});
+
+	test("超過 expiresAt 時為 expired", () => {
+		const signer = hmacSigner({ expiresAt: "2026-12-31T23:59:59Z" });
+		const signed = signer.sign("XSG0001", "member", "XSG0001", ISSUED_AT);
+
+		assert.equal(
+			signer.verify(signed, { now: new Date("2026-12-31T23:59:59Z") }).valid,
+			true
+		);
+		const result = signer.verify(signed, {
+			now: new Date("2027-01-01T00:00:00Z"),
+		});
+		assert.equal(result.valid, false);
+		assert.equal(result.reason, "expired");
+	});
+
+	test("活動標籤不符或缺少時為 event_mismatch", () => {
+		const tagged = hmacSigner({ event: "2026-尾牙" }).sign(
+			"XSG0001",
+			"member",
+			"XSG0001"
+		);
+		const untagged = hmacSigner().sign("XSG0001", "member", "XSG0001");
+
+		assert.equal(
+			hmacSigner().verify(tagged, { event: "2026-尾牙" }).valid,
+			true
+		);
+		assert.equal(
+			hmacSigner().verify(tagged, { event: "2027-尾牙" }).reason,
+			"event_mismatch"
+		);
+		assert.equal(
+			hmacSigner().verify(untagged, { event: "2026-尾牙" }).reason,
+			"event_mismatch"
+		);
+	});
+
+	test("不是簽章格式時為 malformed", () => {
+		const signer = hmacSigner();
+		const signed = signer.sign("XSG0001", "member", "XSG0001");
+
+		for (const scanned of [
+			"XSG0001",
+			"QRS1.abc",
+			replacePart(signed, 0, "QRS2"),
+			replacePart(signed, 1, "not-json"),
+			replacePart(signed, 2, "not base64!"),
+		]) {
+			assert.equal(signer.verify(scanned).reason, "malformed", scanned);
+		}
+	});
+});
+
+describe("Ed25519", () => {
+	test("私鑰簽章、公鑰驗證", () => {
+		const signer = new PayloadSigner(
+			"ed25519",
+			crypto.createPrivateKey(privateKeyPem)
+		);
+		const verifier = new PayloadSigner(
+			"ed25519",
+			crypto.createPublicKey(publicKeyPem)
+		);
+		const signed = signer.sign("XSG0001", "member", "XSG0001");
+
+		assert.equal(verifier.verify(signed).valid, true);
+		assert.equal(signer.keyFingerprint, verifier.keyFingerprint);
+	});
+
+	test("內容被竄改或公鑰不同時為 bad_signature", () => {
+		const signer = new PayloadSigner(
+			"ed25519",
+			crypto.createPrivateKey(privateKeyPem)
+		);
+		const signed = signer.sign("XSG0001", "member", "XSG0001");
+		const claims = decodeSignedClaims(signed);
+		const forged = replacePart(
+			signed,
+			1,
+			Buffer.from(JSON.stringify({ ...claims, v: "XSG9999" })).toString(
+				"base64url"
+			)
+		);
+		const otherKey = crypto.generateKeyPairSync("ed25519").publicKey;
+
+		assert.equal(
+			new PayloadSigner("ed25519", crypto.createPublicKey(publicKeyPem)).verify(
+				forged
+			).reason,
+			"bad_signature"
+		);
+		assert.equal(
+			new PayloadSigner("ed25519", otherKey).verify(signed).reason,
+			"bad_signature"
+		);
+	});
+
+	test("公鑰無法簽章", () => {
+		const verifier = new PayloadSigner(
+			"ed25519",
+			crypto.createPublicKey(publicKeyPem)
+		);
+		assert.throws(
+			() => verifier.sign("XSG0001", "member", "XSG0001"),
+			SignatureError
+		);
+	});
+
+	test("演算法與金鑰不符時為 unsupported_algorithm", () => {
+		const signed = new PayloadSigner(
+			"ed25519",
+			crypto.createPrivateKey(privateKeyPem)
+		).sign("XSG0001", "member", "XSG0001");
+
+		const result = hmacSigner().verify(signed);
+		assert.equal(result.valid, false);
+		assert.equal(result.reason, "unsupported_algorithm");
+	});
+});
+
+describe("loadSigningKey", () => {
+	test("HMAC 密鑰少於 16 字元時拒絕", () => {
+		process.env[DEFAULT_KEY_ENV] = "  too-short-key  ";
+		assert.throws(
+			() => loadSigningKey({ algorithm: "hmac-sha256" }),
+			(error: Error) =>
+				error instanceof SignatureError &&
+				/至少需要 16 個字元/.test(error.message)
+		);
+
+		process.env[DEFAULT_KEY_ENV] = "exactly-16-chars";
+		assert.equal(loadSigningKey({ algorithm: "hmac-sha256" }).type, "secret");
+	});
+
+	test("金鑰檔優先於環境變數", () => {
+		const keyFile = path.join(tempDir, "signing.key");
+		fs.writeFileSync(keyFile, `${HMAC_SECRET}\n`);
+		process.env[DEFAULT_KEY_ENV] = "environment-secret-value";
+
+		const fromFile = PayloadSigner.fromConfig({
+			algorithm: "hmac-sha256",
+			keyFile,
+		});
+		assert.equal(fromFile.keyFingerprint, hmacSigner().keyFingerprint);
+
+		const fromEnv = PayloadSigner.fromConfig({ algorithm: "hmac-sha256" });
+		assert.equal(
+			fromEnv.keyFingerprint,
+			hmacSigner({}, "environment-secret-value").keyFingerprint
+		);
+	});
+
+	test("keyEnv 指定環境變數，PEM 中的 \\n 轉為換行", () => {
+		process.env.PAYLOAD_SIGNER_TEST_KEY = privateKeyPem.replace(/\n/g, "\\n");
+		const key = loadSigningKey({
+			algorithm: "ed25519",
+			keyEnv: "PAYLOAD_SIGNER_TEST_KEY",
+		});
+		assert.equal(key.type, "private");
+		assert.equal(key.asymmetricKeyType, "ed25519");
+	});
+
+	test("金鑰檔不存在、環境變數未設定或金鑰類型不符時拒絕", () => {
+		assert.throws(
+			() =>
+				loadSigningKey({
+					algorithm: "hmac-sha256",
+					keyFile: path.join(tempDir, "missing.key"),
+				}),
+			/金鑰檔不存在/
+		);
+		assert.throws(
+			() => loadSigningKey({ algorithm: "hmac-sha256" }),
+			/環境變數 QRCODE_SIGNING_KEY 未設定/
+		);
+
+		const rsaKeyFile = path.join(tempDir, "rsa.pem");
+		fs.writeFileSync(
+			rsaKeyFile,
+			crypto
+				.generateKeyPairSync("rsa", { modulusLength: 1024 })
+				.privateKey.export({ type: "pkcs8", format: "pem" })
+		);
+		assert.throws(
+			() => loadSigningKey({ algorithm: "ed25519", keyFile: rsaKeyFile }),
+			/無法讀取 Ed25519 金鑰/
+		);
+	});
+});
+
+describe("normalizeSignatureConfig", () => {
+	test("keyFile 以基準資料夾解析，拒絕不支援的演算法與無效的到期時間", () => {
+		assert.deepEqual(
+			normalizeSignatureConfig(
+				{ algorithm: "ed25519", keyFile: "keys/signing.pem" },
+				tempDir
+			),
+			{
+				algorithm: "ed25519",
+				keyFile: path.join(tempDir, "keys/signing.pem"),
+				keyEnv: undefined,
+				event: undefined,
+				expiresAt: undefined,
+			}
+		);
+		assert.throws(
+			() => normalizeSignatureConfig({ algorithm: "rsa" }, tempDir),
+			/不支援的簽章演算法/
+		);
+		assert.throws(
+			() =>
+				normalizeSignatureConfig(
+					{ algorithm: "hmac-sha256", expiresAt: "明年" },
+					tempDir
+				),
+			/expiresAt 必須是 ISO 8601 日期/
+		);
+		assert.throws(
+			() =>
+				normalizeSignatureConfig(
+					{ algorithm: "hmac-sha256", event: "" },
+					tempDir
+				),
+			/event 必須是非空字串/
+		);
+	});
+});
@@ -0,0 +1,354 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+export type SignatureAlgorithm = "hmac-sha256" | "ed25519";
+
+export const SIGNATURE_ALGORITHMS: SignatureAlgorithm[] = [
+	"hmac-sha256",
+	"ed25519",
+];
+
+export const SIGNED_PAYLOAD_PREFIX = "QRS1";
+
+export const DEFAULT_KEY_ENV = "QRCODE_SIGNING_KEY";
+
+export interface SignatureConfig {
+	algorithm: SignatureAlgorithm;
+	keyFile?: string; // 金鑰檔（絕對路徑）：HMAC 為密鑰文字，Ed25519 為 PEM
+	keyEnv?: string; // 未指定 keyFile 時讀取的環境變數，預設 QRCODE_SIGNING_KEY
+	event?: string; // 活動標籤，驗證時可要求相符
+	expiresAt?: string; // 到期時間 (ISO 8601)
+}
+
+export interface SignedClaims {
+	id: string; // 名單 ID
+	t: string; // QR Code 類型 (job type)
+	v: string; // 原始 payload
+	alg: SignatureAlgorithm;
+	iat: number; // 簽發時間 (epoch 秒)
+	exp?: number; // 到期時間 (epoch 秒)
+	evt?: string; // 活動標籤
+}
+
+export type VerifyFailureReason =
+	| "malformed" // 不是簽章格式
+	| "unsupported_algorithm" // 演算法與金鑰不符
+	| "bad_signature" // 簽章不符（內容被竄改或金鑰錯誤）
+	| "expired" // 已過期
+	| "event_mismatch" // 活動標籤不符
+	| "not_found"; // 名單中找不到
+
+export interface VerifyResult {
+	valid: boolean;
+	reason?: VerifyFailureReason;
+	message?: string;
+	claims?: SignedClaims;
+}
+
+export interface VerifyOptions {
+	now?: Date; // 驗證基準時間，預設為現在
+	event?: string; // 要求的活動標籤
+}
+
+/**
+ * 簽章設定或金鑰錯誤
+ */
+export class SignatureError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "SignatureError";
+	}
+}
+
+function toBase64Url(buffer: Buffer): string {
+	return buffer
+		.toString("base64")
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Buffer {
+	if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+		throw new Error("無效的 base64url 字串");
+	}
+	return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+/**
+ * 解析簽章 payload 的內容（不驗證簽章）
+ * @param {string} scanned - 掃描結果
+ * @returns {SignedClaims | null} 內容，格式不符時為 null
+ */
+export function decodeSignedClaims(scanned: string): SignedClaims | null {
+	const parts = scanned.trim().split(".");
+	if (parts.length !== 3 || parts[0] !== SIGNED_PAYLOAD_PREFIX) {
+		return null;
+	}
+
+	try {
+		const claims = JSON.parse(fromBase64Url(parts[1]).toString("utf8"));
+		if (typeof claims.id !== "string" || typeof claims.v !== "string") {
+			return null;
+		}
+		return claims as SignedClaims;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * 驗證並補齊簽章設定
+ * @param {unknown} input - 設定檔中的 signature
+ * @param {string} baseDir - keyFile 相對路徑的基準資料夾
+ * @returns {SignatureConfig} 完整設定
+ */
+export function normalizeSignatureConfig(
+	input: unknown,
+	baseDir: string
+): SignatureConfig {
+	if (typeof input !== "object" || input === null || Array.isArray(input)) {
+		throw new SignatureError("必須是物件");
+	}
+
+	const { algorithm, keyFile, keyEnv, event, expiresAt } = input as Record<
+		string,
+		unknown
+	>;
+
+	if (!SIGNATURE_ALGORITHMS.includes(algorithm as SignatureAlgorithm)) {
+		throw new SignatureError(
+			`不支援的簽章演算法：${algorithm}，可用：${SIGNATURE_ALGORITHMS.join(
+				", "
+			)}`
+		);
+	}
+
+	for (const [field, value] of Object.entries({ keyFile, keyEnv, event })) {
+		if (value !== undefined && (typeof value !== "string" || value === "")) {
+			throw new SignatureError(`${field} 必須是非空字串`);
+		}
+	}
+
+	if (
+		expiresAt !== undefined &&
+		(typeof expiresAt !== "string" || isNaN(Date.parse(expiresAt)))
+	) {
+		throw new SignatureError(`expiresAt 必須是 ISO 8601 日期：${expiresAt}`);
+	}
+
+	return {
+		algorithm: algorithm as SignatureAlgorithm,
+		keyFile: keyFile ? path.resolve(baseDir, keyFile as string) : undefined,
+		keyEnv: keyEnv as string | undefined,
+		event: event as string | undefined,
+		expiresAt: expiresAt as string | undefined,
+	};
+}
+
+/**
+ * 讀取簽章金鑰（金鑰檔優先，其次為環境變數）
+ * @param {SignatureConfig} config - 簽章設定
+ * @returns {crypto.KeyObject} HMAC 密鑰或 Ed25519 私鑰/公鑰
+ */
+export function loadSigningKey(config: SignatureConfig): crypto.KeyObject {
+	let material: string;
+
+	if (config.keyFile) {
+		if (!fs.existsSync(config.keyFile)) {
+			throw new SignatureError(`金鑰檔不存在：${config.keyFile}`);
+		}
+		material = fs.readFileSync(config.keyFile, "utf8");
+	} else {
+		const envName = config.keyEnv || DEFAULT_KEY_ENV;
+		const value = process.env[envName];
+		if (!value) {
+			throw new SignatureError(`找不到簽章金鑰：環境變數 ${envName} 未設定`);
+		}
+		// 環境變數中的 PEM 常以 \n 表示換行
+		material = value.replace(/\\n/g, "\n");
+	}
+
+	if (config.algorithm === "hmac-sha256") {
+		const secret = material.trim();
+		if (secret.length < 16) {
+			throw new SignatureError("HMAC 密鑰長度至少需要 16 個字元");
+		}
+		return crypto.createSecretKey(Buffer.from(secret, "utf8"));
+	}
+
+	try {
+		const key = material.includes("PRIVATE KEY")
+			? crypto.createPrivateKey(material)
+			: crypto.createPublicKey(material);
+		if (key.asymmetricKeyType !== "ed25519") {
+			throw new Error(`金鑰類型為 ${key.asymmetricKeyType}`);
+		}
+		return key;
+	} catch (error) {
+		throw new SignatureError(
+			`無法讀取 Ed25519 金鑰：${(error as Error).message}`
+		);
+	}
+}
+
+export default class PayloadSigner {
+	/**
+	 * @param {SignatureAlgorithm} algorithm - 簽章演算法
+	 * @param {crypto.KeyObject} key - HMAC 密鑰或 Ed25519 金鑰
+	 * @param {Pick<SignatureConfig, "event" | "expiresAt">} options - 簽發時附帶的活動標籤與到期時間
+	 */
+	constructor(
+		private readonly algorithm: SignatureAlgorithm,
+		private readonly key: crypto.KeyObject,
+		private readonly options: Pick<SignatureConfig, "event" | "expiresAt"> = {}
+	) {}
+
+	/**
+	 * 依設定建立簽章服務
+	 */
+	static fromConfig(config: SignatureConfig): PayloadSigner {
+		return new PayloadSigner(config.algorithm, loadSigningKey(config), config);
+	}
+
+	/**
+	 * 金鑰指紋 (SHA-256)，Ed25519 私鑰與公鑰的指紋相同，可用來判斷金鑰是否更換
+	 */
+	get keyFingerprint(): string {
+		const publicKey =
+			this.key.type === "private" ? crypto.createPublicKey(this.key) : this.key;
+		const material =
+			publicKey.type === "secret"
+				? publicKey.export()
+				: publicKey.export({ type: "spki", format: "der" });
+		return crypto.createHash("sha256").update(material).digest("hex");
+	}
+
+	/**
+	 * 產生帶簽章的 payload (QRS1.<claims>.<signature>)
+	 * @param {string} id - 名單 ID
+	 * @param {string} type - QR Code 類型
+	 * @param {string} payload - 原始 payload
+	 * @param {Date} now - 簽發時間
+	 * @returns {string} 簽章後的 payload
+	 */
+	sign(id: string, type: string, payload: string, now = new Date()): string {
+		const claims: SignedClaims = {
+			id,
+			t: type,
+			v: payload,
+			alg: this.algorithm,
+			iat: Math.floor(now.getTime() / 1000),
+		};
+		if (this.options.expiresAt) {
+			claims.exp = Math.floor(Date.parse(this.options.expiresAt) / 1000);
+		}
+		if (this.options.event) {
+			claims.evt = this.options.event;
+		}
+
+		const signingInput = `${SIGNED_PAYLOAD_PREFIX}.${toBase64Url(
+			Buffer.from(JSON.stringify(claims), "utf8")
+		)}`;
+		return `${signingInput}.${toBase64Url(this.createSignature(signingInput))}`;
+	}
+
+	/**
+	 * 驗證掃描到的字串
+	 * @param {string} scanned - 掃描結果
+	 * @param {VerifyOptions} options - 驗證選項
+	 * @returns {VerifyResult} 驗證結果
+	 */
+	verify(scanned: string, options: VerifyOptions = {}): VerifyResult {
+		const claims = decodeSignedClaims(scanned);
+		const parts = scanned.trim().split(".");
+		let signature: Buffer | null = null;
+		try {
+			signature = claims ? fromBase64Url(parts[2]) : null;
+		} catch {
+			signature = null;
+		}
+
+		if (!claims || !signature) {
+			return {
+				valid: false,
+				reason: "malformed",
+				message: "不是有效的簽章 QR Code",
+			};
+		}
+
+		if (claims.alg !== this.algorithm) {
+			return {
+				valid: false,
+				reason: "unsupported_algorithm",
+				message: `簽章演算法為 ${claims.alg}，但金鑰為 ${this.algorithm}`,
+				claims,
+			};
+		}
+
+		if (!this.checkSignature(`${parts[0]}.${parts[1]}`, signature)) {
+			return {
+				valid: false,
+				reason: "bad_signature",
+				message: "簽章不符，內容可能被竄改或金鑰錯誤",
+				claims,
+			};
+		}
+
+		const now = Math.floor((options.now || new Date()).getTime() / 1000);
+		if (claims.exp !== undefined && now > claims.exp) {
+			return {
+				valid: false,
+				reason: "expired",
+				message: `已於 ${new Date(claims.exp * 1000).toISOString()} 過期`,
+				claims,
+			};
+		}
+
+		if (options.event !== undefined && claims.evt !== options.event) {
+			return {
+				valid: false,
+				reason: "event_mismatch",
+				message: `活動標籤不符：${claims.evt || "(無)"}，預期 ${options.event}`,
+				claims,
+			};
+		}
+
+		return { valid: true, claims };
+	}
+
+	private createSignature(signingInput: string): Buffer {
+		const data = Buffer.from(signingInput, "utf8");
+
+		if (this.algorithm === "hmac-sha256") {
+			return crypto.createHmac("sha256", this.key).update(data).digest();
+		}
+
+		if (this.key.type !== "private") {
+			throw new SignatureError("Ed25519 簽章需要私鑰");
+		}
+		return crypto.sign(null, data, this.key);
+	}
+
+	private checkSignature(signingInput: string, signature: Buffer): boolean {
+		const data = Buffer.from(signingInput, "utf8");
+
+		if (this.algorithm === "hmac-sha256") {
+			const expected = crypto
+				.createHmac("sha256", this.key)
+				.update(data)
+				.digest();
+			return (
+				expected.length === signature.length &&
+				crypto.timingSafeEqual(expected, signature)
+			);
+		}
+
+		try {
+			return crypto.verify(null, data, this.key, signature);
+		} catch {
+			return false;
+		}
+	}
+}
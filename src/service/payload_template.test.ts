@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import PayloadTemplate, {
+	escapeMeCard,
+	escapeVCard,
+	PayloadConfigInput,
+	PayloadTemplateError,
+} from "./payload_template";
+
+// 含各種格式特殊字元的值
+const SPECIAL = 'a;b,c:d\\e"f\r\ng\nh\ri';
+const SPECIAL_VCARD = 'a\\;b\\,c:d\\\\e"f\\ng\\nh\\ni';
+const SPECIAL_MECARD = 'a\\;b\\,c\\:d\\\\e\\"f g h i';
+
+describe("escapeVCard / escapeMeCard", () => {
+	const cases: [string, string, string][] = [
+		// [原始值, vCard, MeCard]
+		["王蘭君", "王蘭君", "王蘭君"],
+		["a;b", "a\\;b", "a\\;b"],
+		["a,b", "a\\,b", "a\\,b"],
+		["a:b", "a:b", "a\\:b"],
+		["a\\b", "a\\\\b", "a\\\\b"],
+		['a"b', 'a"b', 'a\\"b'],
+		["a\r\nb\nc\rd", "a\\nb\\nc\\nd", "a b c d"],
+		["\\;", "\\\\\\;", "\\\\\\;"],
+		[SPECIAL, SPECIAL_VCARD, SPECIAL_MECARD],
+	];
+	for (const [value, vcard, mecard] of cases) {
+		test(JSON.stringify(value), () => {
+			assert.equal(escapeVCard(value), vcard);
+			assert.equal(escapeMeCard(value), mecard);
+		});
+	}
+});
+
+describe("PayloadTemplate.render", () => {
+	const row = {
+		id: "XSG0001",
+		staff_name: "王蘭君",
+		team: 3,
+		nickname: "  ",
+		email: "lan@example.com",
+		note: SPECIAL,
+		query: "a&b=c d/é?#",
+		empty: null,
+	};
+
+	const cases: [string, PayloadConfigInput, string][] = [
+		["預設為 ID", "{id}", "XSG0001"],
+		["text 不跳脫", "{id};{note}", `XSG0001;${SPECIAL}`],
+		["{a|b} 在 a 空白時使用 b", "{nickname|staff_name}", "王蘭君"],
+		["{a|b|c} 依序取第一個非空白值", "{empty|nickname|id}", "XSG0001"],
+		["全部空白時為空字串", "[{empty|nickname}]", "[]"],
+		["{{ 與 }} 為大括號本身", "{{{id}}}", "{XSG0001}"],
+		[
+			"url 只編碼欄位值",
+			"https://checkin.example/p/{id}?q={query}&t={team}",
+			"https://checkin.example/p/XSG0001?q=a%26b%3Dc%20d%2F%C3%A9%3F%23&t=3",
+		],
+		[
+			"url 的 {a|b} 編碼選中的值",
+			{ format: "url", template: "https://x.example/?n={nickname|staff_name}" },
+			"https://x.example/?n=%E7%8E%8B%E8%98%AD%E5%90%9B",
+		],
+		[
+			"json 單一欄位保留型別，組合欄位為字串",
+			{
+				format: "json",
+				fields: {
+					id: "{id}",
+					team: "{team}",
+					label: "{team}-{id}",
+					x: "{empty}",
+				},
+			},
+			'{"id":"XSG0001","team":3,"label":"3-XSG0001","x":null}',
+		],
+		[
+			"json 特殊字元由 JSON 跳脫",
+			{ format: "json", fields: ["note"] },
+			JSON.stringify({ note: SPECIAL }),
+		],
+		[
+			"vcard 只跳脫欄位值，樣板文字不跳脫",
+			{
+				format: "vcard",
+				fields: {
+					name: "{nickname|staff_name}",
+					org: "組別 {team}, {note}",
+					email: "{email}",
+					note: "{note}",
+					uid: "{id}",
+				},
+			},
+			[
+				"BEGIN:VCARD",
+				"VERSION:3.0",
+				"N:王蘭君;;;;",
+				"FN:王蘭君",
+				`ORG:組別 3, ${SPECIAL_VCARD}`,
+				"EMAIL:lan@example.com",
+				`NOTE:${SPECIAL_VCARD}`,
+				"UID:XSG0001",
+				"END:VCARD",
+			].join("\r\n"),
+		],
+		[
+			"vcard 省略空白欄位",
+			{ format: "vcard", fields: ["name", "tel"] },
+			"BEGIN:VCARD\r\nVERSION:3.0\r\nN:;;;;\r\nFN:\r\nEND:VCARD",
+		],
+		[
+			"mecard 只跳脫欄位值，樣板文字不跳脫",
+			{
+				format: "mecard",
+				fields: {
+					name: "{staff_name}",
+					note: "{note}",
+					url: "https://x.example/{id}",
+				},
+			},
+			`MECARD:N:王蘭君;URL:https://x.example/XSG0001;NOTE:${SPECIAL_MECARD};;`,
+		],
+		[
+			"mecard 省略空白欄位",
+			{ format: "mecard", fields: { name: "{empty|nickname}", tel: "{team}" } },
+			"MECARD:TEL:3;;",
+		],
+	];
+
+	for (const [name, config, expected] of cases) {
+		test(name, () => {
+			assert.equal(new PayloadTemplate(config).render(row), expected);
+		});
+	}
+});
+
+describe("PayloadTemplate 設定", () => {
+	test("字串設定依開頭判斷 text 或 url", () => {
+		assert.equal(new PayloadTemplate("{id}").format, "text");
+		assert.equal(new PayloadTemplate(" HTTPS://x.example/{id}").format, "url");
+	});
+
+	test("referencedFields 包含備用欄位且不重複", () => {
+		assert.deepEqual(
+			new PayloadTemplate({
+				format: "vcard",
+				fields: { name: "{nickname|staff_name}", note: "{staff_name} {id}" },
+			}).referencedFields,
+			["nickname", "staff_name", "id"]
+		);
+	});
+
+	test("assertFields 列出不存在的欄位", () => {
+		assert.throws(
+			() =>
+				new PayloadTemplate("{id}-{nope|team}").assertFields(["id", "team"]),
+			/不存在的欄位：nope/
+		);
+	});
+
+	const invalid: [string, unknown, RegExp][] = [
+		["大括號未成對", "{id", /樣板語法錯誤/],
+		["空白欄位名稱", "{ }", /樣板語法錯誤/],
+		["備用欄位空白", "{id|}", /樣板語法錯誤/],
+		["巢狀大括號", "{{id}", /樣板語法錯誤/],
+		["不支援的格式", { format: "xml" }, /不支援的 payload 格式/],
+		["text 缺少 template", { format: "text" }, /必須指定 template/],
+		["json 缺少 fields", { format: "json", fields: [] }, /必須指定 fields/],
+		[
+			"vcard 不支援的欄位",
+			{ format: "vcard", fields: ["name", "photo"] },
+			/vcard 不支援的欄位：photo/,
+		],
+		[
+			"mecard 不支援的欄位",
+			{ format: "mecard", fields: { org: "{team}" } },
+			/mecard 不支援的欄位：org/,
+		],
+	];
+	for (const [name, config, message] of invalid) {
+		test(`設定錯誤：${name}`, () => {
+			assert.throws(
+				() => new PayloadTemplate(config as PayloadConfigInput),
+				(error: Error) =>
+					error instanceof PayloadTemplateError && message.test(error.message)
+			);
+		});
+	}
+});
@@ -0,0 +1,390 @@
+export type PayloadFormat = "text" | "url" | "json" | "vcard" | "mecard";
+
+export const PAYLOAD_FORMATS: PayloadFormat[] = [
+	"text",
+	"url",
+	"json",
+	"vcard",
+	"mecard",
+];
+
+export const VCARD_FIELDS = [
+	"name",
+	"org",
+	"title",
+	"tel",
+	"email",
+	"url",
+	"note",
+	"uid",
+] as const;
+
+export const MECARD_FIELDS = ["name", "tel", "email", "url", "note"] as const;
+
+export interface PayloadConfig {
+	format: PayloadFormat;
+	template?: string; // text / url 使用，如 'https://checkin.example/p/{id}?team={team}'
+	fields?: string[] | Record<string, string>; // json / vcard / mecard 使用
+}
+
+/**
+ * 設定檔中的 payload 可以只寫字串：http(s) 開頭視為 url，其餘視為 text
+ */
+export type PayloadConfigInput = string | PayloadConfig;
+
+export const DEFAULT_PAYLOAD: PayloadConfig = {
+	format: "text",
+	template: "{id}",
+};
+
+/**
+ * payload 設定錯誤
+ */
+export class PayloadTemplateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PayloadTemplateError";
+	}
+}
+
+// {a|b}：a 空白時使用 b
+type Segment = { literal: string } | { field: string; fallbacks: string[] };
+
+type RowRecord = Record<string, any>;
+
+const PLACEHOLDER = /\{\{|\}\}|\{([^{}]*)\}|[{}]/g;
+
+/**
+ * 解析樣板字串，{field} 為欄位，{a|b} 在 a 空白時使用 b，{{ 與 }} 為大括號本身
+ */
+function parseTemplate(template: string): Segment[] {
+	const segments: Segment[] = [];
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	PLACEHOLDER.lastIndex = 0;
+	while ((match = PLACEHOLDER.exec(template)) !== null) {
+		if (match.index > lastIndex) {
+			segments.push({ literal: template.slice(lastIndex, match.index) });
+		}
+
+		if (match[0] === "{{" || match[0] === "}}") {
+			segments.push({ literal: match[0][0] });
+		} else if (
+			match[1] !== undefined &&
+			match[1].split("|").every((name) => name.trim() !== "")
+		) {
+			const [field, ...fallbacks] = match[1]
+				.split("|")
+				.map((name) => name.trim());
+			segments.push({ field, fallbacks });
+		} else {
+			throw new PayloadTemplateError(
+				`樣板語法錯誤：${template}（位置 ${match.index}），大括號請寫成 {{ 或 }}`
+			);
+		}
+		lastIndex = PLACEHOLDER.lastIndex;
+	}
+
+	if (lastIndex < template.length) {
+		segments.push({ literal: template.slice(lastIndex) });
+	}
+	return segments;
+}
+
+/**
+ * 儲存格值轉為字串，null/undefined 為空字串，日期為 ISO 8601
+ */
+function stringifyValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	return String(value);
+}
+
+/**
+ * vCard 3.0 文字值跳脫 (RFC 2426)
+ */
+export function escapeVCard(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/\r\n|\r|\n/g, "\\n")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,");
+}
+
+/**
+ * MeCard 值跳脫
+ */
+export function escapeMeCard(value: string): string {
+	return value.replace(/([\\;,:"])/g, "\\$1").replace(/\r\n|\r|\n/g, " ");
+}
+
+/**
+ * 編譯後的樣板片段
+ */
+export class CompiledTemplate {
+	private readonly segments: Segment[];
+
+	constructor(template: string) {
+		this.segments = parseTemplate(template);
+	}
+
+	get fields(): string[] {
+		return this.segments.flatMap((segment) =>
+			"field" in segment ? [segment.field, ...segment.fallbacks] : []
+		);
+	}
+
+	/**
+	 * 只有單一欄位時回傳原始值（json 格式保留數字型別）
+	 */
+	get singleField(): string | null {
+		const [segment] = this.segments;
+		return this.segments.length === 1 &&
+			"field" in segment &&
+			segment.fallbacks.length === 0
+			? segment.field
+			: null;
+	}
+
+	render(row: RowRecord, escape: (value: string) => string = (v) => v) {
+		return this.segments
+			.map((segment) =>
+				"field" in segment
+					? escape(
+							[segment.field, ...segment.fallbacks]
+								.map((field) => stringifyValue(row[field]))
+								.find((value) => value.trim() !== "") ?? ""
+					  )
+					: segment.literal
+			)
+			.join("");
+	}
+}
+
+export default class PayloadTemplate {
+	readonly format: PayloadFormat;
+	private readonly template: CompiledTemplate | null;
+	private readonly fieldTemplates: [string, CompiledTemplate][];
+
+	/**
+	 * @param {PayloadConfigInput} input - payload 設定
+	 */
+	constructor(input: PayloadConfigInput = DEFAULT_PAYLOAD) {
+		const config = PayloadTemplate.normalizeConfig(input);
+		this.format = config.format;
+
+		if (config.format === "text" || config.format === "url") {
+			this.template = new CompiledTemplate(config.template as string);
+			this.fieldTemplates = [];
+			return;
+		}
+
+		this.template = null;
+		const fields = Array.isArray(config.fields)
+			? Object.fromEntries(config.fields.map((field) => [field, `{${field}}`]))
+			: (config.fields as Record<string, string>);
+
+		this.fieldTemplates = Object.entries(fields).map(([key, template]) => [
+			key,
+			new CompiledTemplate(template),
+		]);
+	}
+
+	/**
+	 * 驗證並補齊 payload 設定
+	 * @param {unknown} input - 設定檔中的 payload
+	 * @returns {PayloadConfig} 完整設定
+	 */
+	static normalizeConfig(input: unknown): PayloadConfig {
+		if (typeof input === "string") {
+			return {
+				format: /^https?:\/\//i.test(input.trim()) ? "url" : "text",
+				template: input,
+			};
+		}
+
+		if (typeof input !== "object" || input === null || Array.isArray(input)) {
+			throw new PayloadTemplateError("payload 必須是字串或物件");
+		}
+
+		const { format, template, fields } = input as Record<string, unknown>;
+		if (!PAYLOAD_FORMATS.includes(format as PayloadFormat)) {
+			throw new PayloadTemplateError(
+				`不支援的 payload 格式：${format}，可用格式：${PAYLOAD_FORMATS.join(
+					", "
+				)}`
+			);
+		}
+
+		if (format === "text" || format === "url") {
+			if (typeof template !== "string" || template === "") {
+				throw new PayloadTemplateError(`${format} 格式必須指定 template`);
+			}
+			return { format, template };
+		}
+
+		const isStringArray =
+			Array.isArray(fields) &&
+			fields.length > 0 &&
+			fields.every((field) => typeof field === "string");
+		const isStringRecord =
+			typeof fields === "object" &&
+			fields !== null &&
+			!Array.isArray(fields) &&
+			Object.keys(fields).length > 0 &&
+			Object.values(fields).every((value) => typeof value === "string");
+
+		if (!isStringArray && !isStringRecord) {
+			throw new PayloadTemplateError(
+				`${format} 格式必須指定 fields（欄位陣列或 { 名稱: 樣板 }）`
+			);
+		}
+
+		const allowed: readonly string[] | null =
+			format === "vcard"
+				? VCARD_FIELDS
+				: format === "mecard"
+				? MECARD_FIELDS
+				: null;
+		if (allowed) {
+			const keys = Array.isArray(fields)
+				? (fields as string[])
+				: Object.keys(fields as object);
+			const unknown = keys.filter((key) => !allowed.includes(key));
+			if (unknown.length > 0) {
+				throw new PayloadTemplateError(
+					`${format} 不支援的欄位：${unknown.join(
+						", "
+					)}，可用欄位：${allowed.join(", ")}`
+				);
+			}
+		}
+
+		return {
+			format: format as PayloadFormat,
+			fields: fields as PayloadConfig["fields"],
+		};
+	}
+
+	/**
+	 * 樣板引用到的所有資料欄位
+	 */
+	get referencedFields(): string[] {
+		const fields = this.template
+			? this.template.fields
+			: this.fieldTemplates.flatMap(([, template]) => template.fields);
+		return fields.filter((field, index) => fields.indexOf(field) === index);
+	}
+
+	/**
+	 * 檢查樣板引用的欄位是否都存在
+	 * @param {string[]} availableFields - 可用的欄位名稱
+	 */
+	assertFields(availableFields: string[]): void {
+		const missing = this.referencedFields.filter(
+			(field) => !availableFields.includes(field)
+		);
+		if (missing.length > 0) {
+			throw new PayloadTemplateError(
+				`payload 引用了不存在的欄位：${missing.join(", ")}`
+			);
+		}
+	}
+
+	/**
+	 * 依資料列產生 QR Code 內容
+	 * @param {RowRecord} row - 以欄位名稱為 key 的資料
+	 * @returns {string} QR Code 內容
+	 */
+	render(row: RowRecord): string {
+		switch (this.format) {
+			case "text":
+				return (this.template as CompiledTemplate).render(row);
+			case "url":
+				return (this.template as CompiledTemplate).render(
+					row,
+					encodeURIComponent
+				);
+			case "json":
+				return this.renderJson(row);
+			case "vcard":
+				return this.renderVCard(row);
+			case "mecard":
+				return this.renderMeCard(row);
+		}
+	}
+
+	private renderJson(row: RowRecord): string {
+		const payload: Record<string, unknown> = {};
+		for (const [key, template] of this.fieldTemplates) {
+			const field = template.singleField;
+			payload[key] =
+				field !== null
+					? row[field] === undefined
+						? null
+						: row[field]
+					: template.render(row);
+		}
+		return JSON.stringify(payload);
+	}
+
+	private renderVCard(row: RowRecord): string {
+		const values = this.renderFields(row, escapeVCard);
+		const lines = ["BEGIN:VCARD", "VERSION:3.0"];
+
+		const name = values.get("name") || "";
+		lines.push(`N:${name};;;;`, `FN:${name}`);
+
+		const properties: [string, string][] = [
+			["org", "ORG"],
+			["title", "TITLE"],
+			["tel", "TEL"],
+			["email", "EMAIL"],
+			["url", "URL"],
+			["note", "NOTE"],
+			["uid", "UID"],
+		];
+		for (const [key, property] of properties) {
+			const value = values.get(key);
+			if (value) {
+				lines.push(`${property}:${value}`);
+			}
+		}
+
+		lines.push("END:VCARD");
+		return lines.join("\r\n");
+	}
+
+	private renderMeCard(row: RowRecord): string {
+		const values = this.renderFields(row, escapeMeCard);
+		const properties: [string, string][] = [
+			["name", "N"],
+			["tel", "TEL"],
+			["email", "EMAIL"],
+			["url", "URL"],
+			["note", "NOTE"],
+		];
+
+		const parts = properties
+			.filter(([key]) => values.get(key))
+			.map(([key, property]) => `${property}:${values.get(key)};`);
+		return `MECARD:${parts.join("")};`;
+	}
+
+	private renderFields(
+		row: RowRecord,
+		escape: (value: string) => string
+	): Map<string, string> {
+		return new Map(
+			this.fieldTemplates.map(([key, template]) => [
+				key,
+				template.render(row, escape),
+			])
+		);
+	}
+}
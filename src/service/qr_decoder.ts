@@ -0,0 +1,67 @@
+import jpeg from "jpeg-js";
+import jsQR from "jsqr";
+import { PNG } from "pngjs";
+
+export interface DecodeResult {
+	success: boolean;
+	data?: string; // 解碼出的內容
+	error?: Error;
+}
+
+const PNG_SIGNATURE = Buffer.from([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+/**
+ * 以純 JS 解碼器 (jsQR) 讀取 QR Code 圖片，確認產生的圖片可以掃描
+ */
+export default class QRDecoder {
+	/**
+	 * 解碼 PNG 或 JPEG 圖片
+	 * @param {Buffer} buffer - 圖片內容
+	 * @returns {DecodeResult} 解碼結果，找不到 QR Code 時 success 為 false
+	 */
+	decode(buffer: Buffer): DecodeResult {
+		try {
+			const { width, height, data } = this.toRgba(buffer);
+			const code = jsQR(new Uint8ClampedArray(data), width, height, {
+				inversionAttempts: "attemptBoth",
+			});
+			if (!code) {
+				return { success: false, error: new Error("找不到可解碼的 QR Code") };
+			}
+			return { success: true, data: code.data };
+		} catch (error) {
+			return { success: false, error: error as Error };
+		}
+	}
+
+	/**
+	 * 轉為 RGBA 像素，透明像素與白色背景合成（掃描器看到的是印在白紙上的結果）
+	 * @private
+	 */
+	private toRgba(buffer: Buffer): {
+		width: number;
+		height: number;
+		data: Buffer;
+	} {
+		let image: { width: number; height: number; data: Buffer };
+		if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+			image = PNG.sync.read(buffer);
+		} else if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+			image = jpeg.decode(buffer, { formatAsRGBA: true, useTArray: false });
+		} else {
+			throw new Error("僅支援 PNG 與 JPEG 圖片");
+		}
+
+		const { data } = image;
+		for (let i = 0; i < data.length; i += 4) {
+			const alpha = data[i + 3] / 255;
+			for (let c = 0; c < 3; c++) {
+				data[i + c] = Math.round(data[i + c] * alpha + 255 * (1 - alpha));
+			}
+			data[i + 3] = 255;
+		}
+		return image;
+	}
+}
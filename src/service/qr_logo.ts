@@ -0,0 +1,281 @@
+import fs from "fs";
+import path from "path";
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+
+export interface LogoOptions {
+	path: string; // Logo 圖片（絕對路徑，.png / .jpg / .jpeg）
+	sizeRatio: number; // Logo 寬度佔 QR Code 本體（不含留白）的比例
+	padding: number; // Logo 周圍的留白（模組數）
+}
+
+export interface QRGeometry {
+	modules: number; // QR Code 每邊的模組數
+	margin: number; // 留白模組數
+}
+
+interface RgbaImage {
+	width: number;
+	height: number;
+	data: Buffer; // RGBA
+}
+
+export const DEFAULT_LOGO_SIZE_RATIO = 0.2;
+export const MAX_LOGO_SIZE_RATIO = 0.3;
+
+/**
+ * 容錯等級 H 可修復約 30% 的資料，Logo（含留白）覆蓋的模組不得超過此比例，保留讀取餘裕
+ */
+export const MAX_LOGO_COVERAGE = 0.15;
+
+const LOGO_EXTENSIONS = [".png", ".jpg", ".jpeg"];
+
+/**
+ * 驗證 Logo 設定
+ * @param {unknown} input - 設定檔中的 logo
+ * @param {string} baseDir - 相對路徑的基準資料夾
+ * @returns {LogoOptions} 驗證後的設定
+ */
+export function normalizeLogoOptions(
+	input: unknown,
+	baseDir: string
+): LogoOptions {
+	const raw: Record<string, unknown> =
+		typeof input === "string"
+			? { path: input }
+			: typeof input === "object" && input !== null && !Array.isArray(input)
+			? (input as Record<string, unknown>)
+			: {};
+
+	if (typeof raw.path !== "string" || raw.path === "") {
+		throw new Error("logo 必須是圖片路徑或 { path, sizeRatio, padding }");
+	}
+
+	const logoPath = path.resolve(baseDir, raw.path);
+	if (!LOGO_EXTENSIONS.includes(path.extname(logoPath).toLowerCase())) {
+		throw new Error(`logo 僅支援 ${LOGO_EXTENSIONS.join(", ")}：${logoPath}`);
+	}
+
+	const sizeRatio =
+		raw.sizeRatio === undefined ? DEFAULT_LOGO_SIZE_RATIO : raw.sizeRatio;
+	if (
+		typeof sizeRatio !== "number" ||
+		sizeRatio <= 0 ||
+		sizeRatio > MAX_LOGO_SIZE_RATIO
+	) {
+		throw new Error(
+			`logo.sizeRatio 必須大於 0 且不超過 ${MAX_LOGO_SIZE_RATIO}，過大的 Logo 會讓 QR Code 無法讀取`
+		);
+	}
+
+	const padding = raw.padding === undefined ? 1 : raw.padding;
+	if (
+		!Number.isInteger(padding) ||
+		(padding as number) < 0 ||
+		(padding as number) > 4
+	) {
+		throw new Error("logo.padding 必須是 0 到 4 之間的整數");
+	}
+
+	return { path: logoPath, sizeRatio, padding: padding as number };
+}
+
+/**
+ * 解析色碼 (#RRGGBB / #RRGGBBAA) 為 RGB
+ */
+function parseColor(color: string): [number, number, number] {
+	const hex = color.slice(1, 7);
+	return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [
+		number,
+		number,
+		number
+	];
+}
+
+export default class QRLogoCompositor {
+	private readonly cache = new Map<
+		string,
+		{ file: Buffer; image: RgbaImage }
+	>();
+
+	/**
+	 * 讀取並解碼 Logo（依路徑快取）
+	 */
+	private loadLogo(logoPath: string): { file: Buffer; image: RgbaImage } {
+		const cached = this.cache.get(logoPath);
+		if (cached) {
+			return cached;
+		}
+
+		if (!fs.existsSync(logoPath)) {
+			throw new Error(`Logo 檔案不存在：${logoPath}`);
+		}
+
+		const file = fs.readFileSync(logoPath);
+		const ext = path.extname(logoPath).toLowerCase();
+		const image: RgbaImage =
+			ext === ".png"
+				? PNG.sync.read(file)
+				: (jpeg.decode(file, { formatAsRGBA: true }) as RgbaImage);
+
+		const loaded = { file, image };
+		this.cache.set(logoPath, loaded);
+		return loaded;
+	}
+
+	/**
+	 * 計算 Logo 區塊（含留白）佔用的模組數，並確認 QR Code 仍可讀取
+	 * @returns {{ logoModules: number; boxModules: number }} Logo 與含留白區塊的邊長（模組數）
+	 */
+	measure(
+		geometry: QRGeometry,
+		logo: LogoOptions
+	): { logoModules: number; boxModules: number } {
+		const logoModules = logo.sizeRatio * geometry.modules;
+		const boxModules = Math.ceil(logoModules) + logo.padding * 2;
+		const coverage = (boxModules * boxModules) / geometry.modules ** 2;
+
+		if (coverage > MAX_LOGO_COVERAGE) {
+			throw new Error(
+				`Logo 覆蓋 ${(coverage * 100).toFixed(1)}% 的模組，超過上限 ${
+					MAX_LOGO_COVERAGE * 100
+				}%，請縮小 sizeRatio 或 padding`
+			);
+		}
+
+		return { logoModules, boxModules };
+	}
+
+	/**
+	 * 將 Logo 疊在 PNG 的中央
+	 * @param {Buffer} pngBuffer - QR Code PNG
+	 * @param {QRGeometry} geometry - QR Code 尺寸資訊
+	 * @param {LogoOptions} logo - Logo 設定
+	 * @param {string} backgroundColor - Logo 留白的顏色
+	 * @returns {Buffer} 合成後的 PNG
+	 */
+	compositePng(
+		pngBuffer: Buffer,
+		geometry: QRGeometry,
+		logo: LogoOptions,
+		backgroundColor = "#ffffff"
+	): Buffer {
+		const { logoModules, boxModules } = this.measure(geometry, logo);
+		const { image: logoImage } = this.loadLogo(logo.path);
+		const png = PNG.sync.read(pngBuffer);
+
+		const scale = png.width / (geometry.modules + geometry.margin * 2);
+		const center = png.width / 2;
+
+		// 1. 填滿 Logo 留白區塊
+		const boxSize = Math.round(boxModules * scale);
+		const boxStart = Math.round(center - boxSize / 2);
+		const [bgR, bgG, bgB] = parseColor(backgroundColor);
+		for (let y = boxStart; y < boxStart + boxSize; y++) {
+			for (let x = boxStart; x < boxStart + boxSize; x++) {
+				const index = (y * png.width + x) * 4;
+				png.data[index] = bgR;
+				png.data[index + 1] = bgG;
+				png.data[index + 2] = bgB;
+				png.data[index + 3] = 255;
+			}
+		}
+
+		// 2. 等比例縮放 Logo 並以雙線性內插取樣、依透明度合成
+		const maxSize = logoModules * scale;
+		const ratio = Math.min(
+			maxSize / logoImage.width,
+			maxSize / logoImage.height
+		);
+		const width = Math.max(1, Math.round(logoImage.width * ratio));
+		const height = Math.max(1, Math.round(logoImage.height * ratio));
+		const left = Math.round(center - width / 2);
+		const top = Math.round(center - height / 2);
+
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const pixel = this.sample(
+					logoImage,
+					((x + 0.5) / width) * logoImage.width - 0.5,
+					((y + 0.5) / height) * logoImage.height - 0.5
+				);
+				const alpha = pixel[3] / 255;
+				const index = ((top + y) * png.width + left + x) * 4;
+				for (let c = 0; c < 3; c++) {
+					png.data[index + c] = Math.round(
+						pixel[c] * alpha + png.data[index + c] * (1 - alpha)
+					);
+				}
+				png.data[index + 3] = 255;
+			}
+		}
+
+		return PNG.sync.write(png);
+	}
+
+	/**
+	 * 將 Logo 以 <image> 嵌入 SVG 的中央
+	 * @param {string} svg - QR Code SVG
+	 * @param {QRGeometry} geometry - QR Code 尺寸資訊
+	 * @param {LogoOptions} logo - Logo 設定
+	 * @param {string} backgroundColor - Logo 留白的顏色
+	 * @returns {string} 合成後的 SVG
+	 */
+	compositeSvg(
+		svg: string,
+		geometry: QRGeometry,
+		logo: LogoOptions,
+		backgroundColor = "#ffffff"
+	): string {
+		const { logoModules, boxModules } = this.measure(geometry, logo);
+		const { file } = this.loadLogo(logo.path);
+
+		// qrcode 產生的 SVG viewBox 以模組為單位
+		const center = (geometry.modules + geometry.margin * 2) / 2;
+		const boxStart = center - boxModules / 2;
+		const logoStart = center - logoModules / 2;
+		const mime =
+			path.extname(logo.path).toLowerCase() === ".png"
+				? "image/png"
+				: "image/jpeg";
+
+		const overlay =
+			`<rect x="${boxStart}" y="${boxStart}" width="${boxModules}" height="${boxModules}" fill="${backgroundColor.slice(
+				0,
+				7
+			)}"/>` +
+			`<image x="${logoStart}" y="${logoStart}" width="${logoModules}" height="${logoModules}" preserveAspectRatio="xMidYMid meet" href="data:${mime};base64,${file.toString(
+				"base64"
+			)}"/>`;
+
+		return svg.replace(/<\/svg>\s*$/, `${overlay}</svg>`);
+	}
+
+	/**
+	 * 雙線性內插取樣
+	 */
+	private sample(
+		image: RgbaImage,
+		x: number,
+		y: number
+	): [number, number, number, number] {
+		const clamp = (value: number, max: number) =>
+			Math.min(Math.max(value, 0), max);
+		const x0 = clamp(Math.floor(x), image.width - 1);
+		const y0 = clamp(Math.floor(y), image.height - 1);
+		const x1 = clamp(x0 + 1, image.width - 1);
+		const y1 = clamp(y0 + 1, image.height - 1);
+		const dx = clamp(x - x0, 1);
+		const dy = clamp(y - y0, 1);
+
+		const result: [number, number, number, number] = [0, 0, 0, 0];
+		for (let c = 0; c < 4; c++) {
+			const at = (px: number, py: number) =>
+				image.data[(py * image.width + px) * 4 + c];
+			const top = at(x0, y0) * (1 - dx) + at(x1, y0) * dx;
+			const bottom = at(x0, y1) * (1 - dx) + at(x1, y1) * dx;
+			result[c] = top * (1 - dy) + bottom * dy;
+		}
+		return result;
+	}
+}
@@ -0,0 +1,225 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import QRManifest, { hashContent, hashRenderOptions } from "./qr_manifest";
+import QRCodeService, { QRImageFormat } from "./qrcode";
+
+const TYPE = "member";
+const PAYLOAD_HASH = hashContent("XSG0001");
+const RENDER_HASH = hashRenderOptions({});
+const PNG_ONLY: QRImageFormat[] = ["png"];
+
+let tempDir: string;
+let service: QRCodeService;
+let folder: string;
+
+beforeEach(() => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "qr-manifest-test-"));
+	service = new QRCodeService(tempDir);
+	folder = service.getOutputFolder(TYPE);
+});
+
+afterEach(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * 產生 QR Code、寫入紀錄並重新讀取，模擬上一次執行的結果
+ */
+async function generate(
+	entries: { id: string; fileName?: string; formats?: QRImageFormat[] }[]
+): Promise<QRManifest> {
+	const manifest = QRManifest.load(folder, TYPE);
+	for (const { id, fileName = id, formats = PNG_ONLY } of entries) {
+		const generated = await service.generateQRCode(
+			fileName,
+			TYPE,
+			id,
+			{},
+			formats
+		);
+		manifest.update(id, hashContent(id), RENDER_HASH, generated, id);
+	}
+	manifest.save();
+	return QRManifest.load(folder, TYPE);
+}
+
+describe("isFresh", () => {
+	test("沒有紀錄時需要產生，產生後未變更則略過", async () => {
+		assert.equal(
+			QRManifest.load(folder, TYPE).isFresh(
+				"XSG0001",
+				PAYLOAD_HASH,
+				RENDER_HASH,
+				["png"]
+			),
+			false
+		);
+
+		const manifest = await generate([{ id: "XSG0001" }]);
+		assert.equal(manifest.size, 1);
+		assert.equal(
+			manifest.isFresh("XSG0001", PAYLOAD_HASH, RENDER_HASH, ["png"]),
+			true
+		);
+	});
+
+	test("內容變更時重新產生", async () => {
+		const manifest = await generate([{ id: "XSG0001" }]);
+		assert.equal(
+			manifest.isFresh("XSG0001", hashContent("XSG0001-v2"), RENDER_HASH, [
+				"png",
+			]),
+			false
+		);
+	});
+
+	test("繪製選項變更時重新產生", async () => {
+		const manifest = await generate([{ id: "XSG0001" }]);
+		assert.equal(
+			manifest.isFresh(
+				"XSG0001",
+				PAYLOAD_HASH,
+				hashRenderOptions({ errorCorrectionLevel: "H" }),
+				["png"]
+			),
+			false
+		);
+	});
+
+	test("格式或檔名變更時重新產生", async () => {
+		const manifest = await generate([{ id: "XSG0001" }]);
+		assert.equal(
+			manifest.isFresh("XSG0001", PAYLOAD_HASH, RENDER_HASH, ["png", "svg"]),
+			false
+		);
+		assert.equal(
+			manifest.isFresh("XSG0001", PAYLOAD_HASH, RENDER_HASH, ["svg"]),
+			false
+		);
+		assert.equal(
+			manifest.isFresh(
+				"XSG0001",
+				PAYLOAD_HASH,
+				RENDER_HASH,
+				["png"],
+				"team/XSG0001"
+			),
+			false
+		);
+	});
+
+	test("磁碟上的檔案被修改或刪除時重新產生", async () => {
+		const manifest = await generate([{ id: "XSG0001" }, { id: "XSG0002" }]);
+		fs.appendFileSync(path.join(folder, "XSG0001.png"), "x");
+		fs.unlinkSync(path.join(folder, "XSG0002.png"));
+
+		assert.equal(
+			manifest.isFresh("XSG0001", PAYLOAD_HASH, RENDER_HASH, ["png"]),
+			false
+		);
+		assert.equal(
+			manifest.isFresh("XSG0002", hashContent("XSG0002"), RENDER_HASH, ["png"]),
+			false
+		);
+	});
+
+	test("紀錄檔損壞時全部重新產生", async () => {
+		await generate([{ id: "XSG0001" }]);
+		fs.writeFileSync(QRManifest.getManifestPath(folder), "{ broken");
+
+		const originalWarn = console.warn;
+		console.warn = () => undefined;
+		try {
+			const manifest = QRManifest.load(folder, TYPE);
+			assert.equal(manifest.size, 0);
+			assert.equal(
+				manifest.isFresh("XSG0001", PAYLOAD_HASH, RENDER_HASH, ["png"]),
+				false
+			);
+		} finally {
+			console.warn = originalWarn;
+		}
+	});
+});
+
+describe("hashRenderOptions", () => {
+	test("不受欄位順序影響，Logo 檔案內容變更時改變", () => {
+		assert.equal(
+			hashRenderOptions({ margin: 2, width: 300 }),
+			hashRenderOptions({ width: 300, margin: 2 })
+		);
+		assert.notEqual(
+			hashRenderOptions({ margin: 2 }),
+			hashRenderOptions({ margin: 4 })
+		);
+
+		const logoPath = path.join(tempDir, "logo.png");
+		fs.writeFileSync(logoPath, "logo-v1");
+		const logo = { path: logoPath, sizeRatio: 0.2, padding: 1 };
+		const before = hashRenderOptions({ logo });
+		fs.writeFileSync(logoPath, "logo-v2");
+		assert.notEqual(hashRenderOptions({ logo }), before);
+	});
+});
+
+describe("update / removeStale / keepFiles", () => {
+	test("removeStale 只刪除已移除 ID 的檔案與變成空的子資料夾", async () => {
+		const manifest = await generate([
+			{ id: "XSG0001" },
+			{ id: "XSG0002", fileName: "team-a/XSG0002" },
+		]);
+		const unrelated = path.join(folder, "notes.txt");
+		fs.writeFileSync(unrelated, "keep me");
+
+		assert.equal(manifest.removeStale(new Set(["XSG0001"])), 1);
+		assert.equal(manifest.size, 1);
+		assert.equal(manifest.get("XSG0002"), undefined);
+		assert.ok(fs.existsSync(path.join(folder, "XSG0001.png")));
+		assert.equal(fs.existsSync(path.join(folder, "team-a")), false);
+		assert.ok(fs.existsSync(unrelated));
+		assert.ok(fs.existsSync(folder));
+	});
+
+	test("keepFiles 指定的檔名改由其他 ID 使用時不刪除", async () => {
+		const manifest = await generate([{ id: "OLD", fileName: "Amy" }]);
+		manifest.keepFiles(["amy.png"]);
+
+		assert.equal(manifest.removeStale(new Set()), 1);
+		assert.ok(fs.existsSync(path.join(folder, "Amy.png")));
+	});
+
+	test("update 刪除不再產生的格式與舊檔名", async () => {
+		const manifest = await generate([
+			{ id: "XSG0001", formats: ["png", "svg"] },
+		]);
+		const generated = await service.generateQRCode(
+			"renamed/XSG0001",
+			TYPE,
+			"XSG0001",
+			{},
+			["png"]
+		);
+		manifest.update("XSG0001", PAYLOAD_HASH, RENDER_HASH, generated, "XSG0001");
+
+		assert.deepEqual(
+			manifest.get("XSG0001")?.files.png?.file,
+			"renamed/XSG0001.png"
+		);
+		assert.equal(manifest.get("XSG0001")?.files.svg, undefined);
+		assert.equal(fs.existsSync(path.join(folder, "XSG0001.png")), false);
+		assert.equal(fs.existsSync(path.join(folder, "XSG0001.svg")), false);
+		assert.equal(
+			manifest.isFresh(
+				"XSG0001",
+				PAYLOAD_HASH,
+				RENDER_HASH,
+				["png"],
+				"renamed/XSG0001"
+			),
+			true
+		);
+	});
+});
@@ -0,0 +1,289 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { resolveInside } from "./file_naming";
+import {
+	GeneratedQRCode,
+	QR_IMAGE_EXTENSIONS,
+	QRImageFormat,
+	QRRenderOptions,
+} from "./qrcode";
+
+export const MANIFEST_VERSION = 1;
+
+export interface ManifestFile {
+	file: string; // 檔名（相對於 QR Code 資料夾，子資料夾以 / 分隔）
+	hash: string; // 檔案內容 SHA-256
+}
+
+export interface ManifestEntry {
+	payloadHash: string; // QR Code 內容 SHA-256
+	renderHash: string; // 繪製選項 SHA-256
+	payload?: string; // 編碼的內容（簽章 QR Code 為簽章後的字串）
+	files: Partial<Record<QRImageFormat, ManifestFile>>;
+	updatedAt: string;
+}
+
+export interface ManifestData {
+	version: number;
+	type: string;
+	entries: Record<string, ManifestEntry>;
+}
+
+/**
+ * 計算 SHA-256
+ */
+export function hashContent(content: string | Buffer): string {
+	return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * 計算繪製選項的雜湊，Logo 以檔案內容計算，替換圖片也會重新產生
+ * @param {QRRenderOptions} options - 繪製選項
+ * @returns {string} SHA-256
+ */
+export function hashRenderOptions(options: QRRenderOptions): string {
+	const { logo, ...rest } = options;
+	const sorted = Object.fromEntries(
+		Object.entries(rest).sort(([a], [b]) => a.localeCompare(b))
+	);
+	return hashContent(
+		JSON.stringify({
+			...sorted,
+			logo: logo && {
+				sizeRatio: logo.sizeRatio,
+				padding: logo.padding,
+				hash: fs.existsSync(logo.path)
+					? hashContent(fs.readFileSync(logo.path))
+					: null,
+			},
+		})
+	);
+}
+
+/**
+ * QR Code 資料夾的產生紀錄，用於增量更新
+ * 存放在資料夾旁 ({outputRoot}/{type}_qrcode.manifest.json)，只會刪除紀錄中的檔案
+ */
+export default class QRManifest {
+	private readonly keptFiles = new Set<string>();
+
+	private constructor(
+		private readonly filePath: string,
+		private readonly folder: string,
+		private readonly data: ManifestData
+	) {}
+
+	/**
+	 * 取得資料夾對應的紀錄檔路徑
+	 */
+	static getManifestPath(folder: string): string {
+		return `${folder.replace(/[\\/]+$/, "")}.manifest.json`;
+	}
+
+	/**
+	 * 讀取紀錄檔，不存在或格式錯誤時回傳空紀錄（全部重新產生）
+	 * @param {string} folder - QR Code 資料夾
+	 * @param {string} type - QR Code 類型
+	 * @returns {QRManifest} 紀錄
+	 */
+	static load(folder: string, type: string): QRManifest {
+		const filePath = QRManifest.getManifestPath(folder);
+		const empty: ManifestData = {
+			version: MANIFEST_VERSION,
+			type,
+			entries: {},
+		};
+
+		if (!fs.existsSync(filePath)) {
+			return new QRManifest(filePath, folder, empty);
+		}
+
+		try {
+			const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+			if (
+				data.version !== MANIFEST_VERSION ||
+				typeof data.entries !== "object" ||
+				data.entries === null
+			) {
+				throw new Error(`不支援的版本：${data.version}`);
+			}
+			return new QRManifest(filePath, folder, { ...data, type });
+		} catch (error) {
+			console.warn(
+				`⚠️ 無法讀取產生紀錄 ${path.basename(filePath)}，將全部重新產生：${
+					(error as Error).message
+				}`
+			);
+			return new QRManifest(filePath, folder, empty);
+		}
+	}
+
+	get size(): number {
+		return Object.keys(this.data.entries).length;
+	}
+
+	/**
+	 * 取得 ID 的紀錄
+	 */
+	get(id: string): ManifestEntry | undefined {
+		return this.data.entries[id];
+	}
+
+	/**
+	 * 取得紀錄中檔案的絕對路徑，紀錄被竄改而超出 QR Code 資料夾時丟出 FileNameError
+	 */
+	getFilePath(file: ManifestFile): string {
+		return resolveInside(this.folder, file.file);
+	}
+
+	/**
+	 * 檢查 QR Code 是否與紀錄相符（內容、繪製選項、格式、檔名與檔案內容皆未變更）
+	 * @param {string} id - 名單 ID
+	 * @param {string} payloadHash - 目前的內容雜湊
+	 * @param {string} renderHash - 目前的繪製選項雜湊
+	 * @param {QRImageFormat[]} formats - 要求的格式
+	 * @param {string} fileName - 目前的檔名（不含副檔名），檔名樣板變更時需要重新產生
+	 * @returns {boolean} 是否可以略過
+	 */
+	isFresh(
+		id: string,
+		payloadHash: string,
+		renderHash: string,
+		formats: QRImageFormat[],
+		fileName: string = id
+	): boolean {
+		const entry = this.data.entries[id];
+		if (
+			!entry ||
+			entry.payloadHash !== payloadHash ||
+			entry.renderHash !== renderHash ||
+			Object.keys(entry.files).length !== formats.length
+		) {
+			return false;
+		}
+
+		return formats.every((format) => {
+			const file = entry.files[format];
+			if (!file || file.file !== `${fileName}.${QR_IMAGE_EXTENSIONS[format]}`) {
+				return false;
+			}
+			const filePath = this.getFilePath(file);
+			return (
+				fs.existsSync(filePath) &&
+				hashContent(fs.readFileSync(filePath)) === file.hash
+			);
+		});
+	}
+
+	/**
+	 * 記錄新產生的檔案，並刪除不再需要的格式
+	 */
+	update(
+		id: string,
+		payloadHash: string,
+		renderHash: string,
+		generated: GeneratedQRCode[],
+		payload?: string
+	): void {
+		const previous = this.data.entries[id];
+		const files: ManifestEntry["files"] = {};
+		for (const item of generated) {
+			files[item.format] = {
+				file: path
+					.relative(this.folder, item.filePath)
+					.split(path.sep)
+					.join("/"),
+				hash: hashContent(item.data),
+			};
+		}
+
+		if (previous) {
+			const kept = new Set(Object.values(files).map((file) => file.file));
+			for (const file of Object.values(previous.files)) {
+				if (file && !kept.has(file.file)) {
+					this.removeFile(file.file);
+				}
+			}
+		}
+
+		this.data.entries[id] = {
+			payloadHash,
+			renderHash,
+			payload,
+			files,
+			updatedAt: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * 指定本次名單使用的所有檔名，刪除舊檔時略過
+	 * 檔名重複加上編號後，其他 ID 的舊檔名可能已改由另一個 ID 使用
+	 * @param {Iterable<string>} files - 相對於 QR Code 資料夾的檔名（含副檔名）
+	 */
+	keepFiles(files: Iterable<string>): void {
+		for (const file of files) {
+			this.keptFiles.add(file.toLowerCase());
+		}
+	}
+
+	/**
+	 * 刪除名單中已不存在的 ID 的檔案，資料夾內其他檔案不受影響
+	 * @param {Set<string>} activeIds - 目前名單中的 ID
+	 * @returns {number} 刪除的 ID 數
+	 */
+	removeStale(activeIds: Set<string>): number {
+		let removed = 0;
+		for (const [id, entry] of Object.entries(this.data.entries)) {
+			if (activeIds.has(id)) {
+				continue;
+			}
+			for (const file of Object.values(entry.files)) {
+				if (file) {
+					this.removeFile(file.file);
+				}
+			}
+			delete this.data.entries[id];
+			removed++;
+		}
+		return removed;
+	}
+
+	/**
+	 * 寫入紀錄檔（先寫暫存檔再更名，避免中斷時留下損壞的紀錄）
+	 */
+	save(): void {
+		fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+		const tempPath = `${this.filePath}.tmp`;
+		fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+		fs.renameSync(tempPath, this.filePath);
+	}
+
+	/**
+	 * 刪除檔案，並刪除因此變成空的子資料夾（QR Code 資料夾本身保留）
+	 * 本次名單使用中的檔名（見 keepFiles）不刪除
+	 */
+	private removeFile(file: string): void {
+		if (this.keptFiles.has(file.toLowerCase())) {
+			return;
+		}
+
+		try {
+			const filePath = resolveInside(this.folder, file);
+			if (fs.existsSync(filePath)) {
+				fs.unlinkSync(filePath);
+			}
+			for (
+				let dir = path.dirname(filePath);
+				dir.startsWith(this.folder + path.sep) &&
+				fs.existsSync(dir) &&
+				fs.readdirSync(dir).length === 0;
+				dir = path.dirname(dir)
+			) {
+				fs.rmdirSync(dir);
+			}
+		} catch (error) {
+			console.warn(`⚠️ 無法刪除舊的 QR Code：${file} - ${error}`);
+		}
+	}
+}
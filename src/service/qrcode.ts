@@ -1,23 +1,308 @@
 import QRCode from "qrcode";
 import path from "path";
 import fs from "fs";
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import { resolveInside } from "./file_naming";
+import QRLogoCompositor, {
+	LogoOptions,
+	normalizeLogoOptions,
+	QRGeometry,
+} from "./qr_logo";
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export type QRImageFormat = "png" | "svg" | "jpeg";
+
+export const QR_IMAGE_FORMATS: QRImageFormat[] = ["png", "svg", "jpeg"];
+
+/**
+ * 各格式的副檔名
+ */
+export const QR_IMAGE_EXTENSIONS: Record<QRImageFormat, string> = {
+	png: "png",
+	svg: "svg",
+	jpeg: "jpg",
+};
+
+export interface GeneratedQRCode {
+	format: QRImageFormat;
+	filePath: string; // 寫入的檔案（絕對路徑）
+	data: Buffer; // 檔案內容，可直接嵌入 Excel
+}
+
+export interface QRRenderOptions {
+	errorCorrectionLevel?: ErrorCorrectionLevel; // 容錯等級，預設 M
+	margin?: number; // 留白 (quiet zone) 的模組數，預設 4
+	scale?: number; // 每個模組的像素數，預設 4
+	width?: number; // 圖片寬度 (px)，優先於 scale
+	darkColor?: string; // 深色模組顏色 (#RRGGBB 或 #RRGGBBAA)
+	lightColor?: string; // 背景顏色 (#RRGGBB 或 #RRGGBBAA)
+	minVersion?: number; // 最小版本 (1-40)，內容較短時仍使用此版本
+	maskPattern?: number; // 遮罩樣式 (0-7)，未指定時自動選擇
+	jpegQuality?: number; // JPEG 品質 (1-100)，預設 90
+	logo?: LogoOptions; // 中央 Logo，指定時容錯等級固定為 H
+}
+
+const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+const COLOR_PATTERN = /^#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+/**
+ * 驗證 QR Code 繪製選項
+ * @param {unknown} input - 設定檔中的 render
+ * @param {string} baseDir - Logo 相對路徑的基準資料夾
+ * @returns {QRRenderOptions} 驗證後的選項
+ */
+export function normalizeRenderOptions(
+	input: unknown,
+	baseDir = process.cwd()
+): QRRenderOptions {
+	if (typeof input !== "object" || input === null || Array.isArray(input)) {
+		throw new Error("必須是物件");
+	}
+
+	const raw = input as Record<string, unknown>;
+	const options: QRRenderOptions = {};
+
+	const integerFields: [keyof QRRenderOptions, number, number][] = [
+		["margin", 0, 100],
+		["scale", 1, 100],
+		["width", 21, 10000],
+		["minVersion", 1, 40],
+		["maskPattern", 0, 7],
+		["jpegQuality", 1, 100],
+	];
+	for (const [field, min, max] of integerFields) {
+		const value = raw[field];
+		if (value === undefined) {
+			continue;
+		}
+		if (
+			!Number.isInteger(value) ||
+			(value as number) < min ||
+			(value as number) > max
+		) {
+			throw new Error(`${field} 必須是 ${min} 到 ${max} 之間的整數`);
+		}
+		(options as Record<string, unknown>)[field] = value;
+	}
+
+	if (raw.errorCorrectionLevel !== undefined) {
+		const level = String(raw.errorCorrectionLevel).toUpperCase();
+		if (!ERROR_CORRECTION_LEVELS.includes(level as ErrorCorrectionLevel)) {
+			throw new Error(
+				`errorCorrectionLevel 必須是 ${ERROR_CORRECTION_LEVELS.join("/")}`
+			);
+		}
+		options.errorCorrectionLevel = level as ErrorCorrectionLevel;
+	}
+
+	for (const field of ["darkColor", "lightColor"] as const) {
+		const value = raw[field];
+		if (value === undefined) {
+			continue;
+		}
+		if (typeof value !== "string" || !COLOR_PATTERN.test(value)) {
+			throw new Error(`${field} 必須是 #RRGGBB 或 #RRGGBBAA 格式`);
+		}
+		options[field] = value;
+	}
+
+	if (raw.logo !== undefined) {
+		options.logo = normalizeLogoOptions(raw.logo, baseDir);
+		if (options.errorCorrectionLevel && options.errorCorrectionLevel !== "H") {
+			console.warn(
+				`⚠️ 使用 Logo 時容錯等級固定為 H（設定值 ${options.errorCorrectionLevel} 將被忽略）`
+			);
+		}
+		options.errorCorrectionLevel = "H";
+	}
+
+	return options;
+}
 
 export default class QRCodeService {
-	async generateQRCode(id: string, type: string): Promise<string> {
+	private readonly logoCompositor = new QRLogoCompositor();
+
+	/**
+	 * @param {string} outputRoot - QR Code 資料夾的根目錄，預設為專案根目錄
+	 */
+	constructor(
+		private readonly outputRoot: string = path.resolve(__dirname, "../..")
+	) {}
+
+	/**
+	 * 取得指定類型的 QR Code 資料夾 ({outputRoot}/{type}_qrcode)
+	 */
+	getOutputFolder(type: string): string {
+		return path.resolve(this.outputRoot, `${type}_qrcode`);
+	}
+
+	/**
+	 * 轉換為 qrcode 套件的選項
+	 * 指定 minVersion 時，先計算內容所需的版本，不足時才提高到 minVersion
+	 */
+	private toLibraryOptions(
+		payload: string,
+		options: QRRenderOptions
+	): QRCode.QRCodeRenderersOptions {
+		const errorCorrectionLevel = options.logo
+			? "H"
+			: options.errorCorrectionLevel;
+		const libraryOptions: QRCode.QRCodeRenderersOptions = {
+			errorCorrectionLevel,
+			margin: options.margin,
+			scale: options.scale,
+			width: options.width,
+			maskPattern: options.maskPattern as QRCode.QRCodeMaskPattern | undefined,
+			color: {
+				dark: options.darkColor,
+				light: options.lightColor,
+			},
+		};
+
+		if (options.minVersion !== undefined) {
+			const { version } = QRCode.create(payload, { errorCorrectionLevel });
+			libraryOptions.version = Math.max(version, options.minVersion);
+		}
+
+		return libraryOptions;
+	}
+
+	/**
+	 * 取得 QR Code 的模組數與留白，供 Logo 定位
+	 */
+	private getGeometry(
+		payload: string,
+		options: QRCode.QRCodeRenderersOptions
+	): QRGeometry {
+		const qr = QRCode.create(payload, {
+			errorCorrectionLevel: options.errorCorrectionLevel,
+			version: options.version,
+			maskPattern: options.maskPattern,
+		});
+		return { modules: qr.modules.size, margin: options.margin ?? 4 };
+	}
+
+	/**
+	 * 將 PNG 轉為 JPEG（JPEG 沒有透明度，透明像素會與背景色合成）
+	 */
+	private pngToJpeg(pngBuffer: Buffer, options: QRRenderOptions): Buffer {
+		const png = PNG.sync.read(pngBuffer);
+		const background = (options.lightColor || "#ffffff")
+			.slice(1, 7)
+			.match(/../g)!
+			.map((hex) => parseInt(hex, 16));
+
+		for (let i = 0; i < png.data.length; i += 4) {
+			const alpha = png.data[i + 3] / 255;
+			for (let c = 0; c < 3; c++) {
+				png.data[i + c] = Math.round(
+					png.data[i + c] * alpha + background[c] * (1 - alpha)
+				);
+			}
+			png.data[i + 3] = 255;
+		}
+
+		return jpeg.encode(
+			{ width: png.width, height: png.height, data: png.data },
+			options.jpegQuality ?? 90
+		).data;
+	}
+
+	/**
+	 * 在記憶體中產生 QR Code，不寫入檔案
+	 * @param {string} payload - QR Code 內容
+	 * @param {QRImageFormat} format - 輸出格式
+	 * @param {QRRenderOptions} renderOptions - 繪製選項
+	 * @returns {Promise<Buffer>} 圖片內容（SVG 為 UTF-8 文字）
+	 */
+	async renderQRCode(
+		payload: string,
+		format: QRImageFormat = "png",
+		renderOptions: QRRenderOptions = {}
+	): Promise<Buffer> {
+		if (format === "svg") {
+			return Buffer.from(await this.renderSvg(payload, renderOptions), "utf8");
+		}
+
+		const options = this.toLibraryOptions(payload, renderOptions);
+		let pngBuffer = await QRCode.toBuffer(payload, { ...options, type: "png" });
+		if (renderOptions.logo) {
+			pngBuffer = this.logoCompositor.compositePng(
+				pngBuffer,
+				this.getGeometry(payload, options),
+				renderOptions.logo,
+				renderOptions.lightColor
+			);
+		}
+		return format === "jpeg"
+			? this.pngToJpeg(pngBuffer, renderOptions)
+			: pngBuffer;
+	}
+
+	/**
+	 * 在記憶體中產生 SVG 向量圖
+	 * @param {string} payload - QR Code 內容
+	 * @param {QRRenderOptions} renderOptions - 繪製選項
+	 * @returns {Promise<string>} SVG 文字
+	 */
+	async renderSvg(
+		payload: string,
+		renderOptions: QRRenderOptions = {}
+	): Promise<string> {
+		const options = this.toLibraryOptions(payload, renderOptions);
+		const svg = await QRCode.toString(payload, { ...options, type: "svg" });
+		if (!renderOptions.logo) {
+			return svg;
+		}
+		return this.logoCompositor.compositeSvg(
+			svg,
+			this.getGeometry(payload, options),
+			renderOptions.logo,
+			renderOptions.lightColor
+		);
+	}
+
+	/**
+	 * 產生 QR Code 圖片 ({type}_qrcode/{fileName}.{ext})，每種格式只編碼一次
+	 * @param {string} fileName - 相對於 QR Code 資料夾的檔名（不含副檔名，可含子資料夾），不可超出資料夾
+	 * @param {string} type - 資料夾前綴
+	 * @param {string} payload - QR Code 內容，預設為 ID
+	 * @param {QRRenderOptions} renderOptions - 繪製選項
+	 * @param {QRImageFormat[]} formats - 要寫入的格式，預設只有 PNG
+	 * @returns {Promise<GeneratedQRCode[]>} 每種格式的檔案與內容
+	 */
+	async generateQRCode(
+		fileName: string,
+		type: string,
+		payload: string = fileName,
+		renderOptions: QRRenderOptions = {},
+		formats: QRImageFormat[] = ["png"]
+	): Promise<GeneratedQRCode[]> {
 		try {
-			// 取得專案根目錄下的 qrcode 資料夾
-			const dir = path.resolve(__dirname, `../../${type}_qrcode`);
-			// 若資料夾不存在則建立
-			if (!fs.existsSync(dir)) {
-				fs.mkdirSync(dir, { recursive: true });
+			const dir = this.getOutputFolder(type);
+
+			const generated: GeneratedQRCode[] = [];
+			for (const format of formats) {
+				const filePath = resolveInside(
+					dir,
+					`${fileName}.${QR_IMAGE_EXTENSIONS[format]}`
+				);
+				// 若資料夾（含子資料夾）不存在則建立（不寫檔時不建立）
+				await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+				const data = await this.renderQRCode(payload, format, renderOptions);
+				await fs.promises.writeFile(filePath, data);
+				generated.push({ format, filePath, data });
 			}
-			const filePath = path.join(dir, `${id}.png`);
-			const qrCode = await QRCode.toDataURL(id);
-			await QRCode.toFile(filePath, id);
-			return qrCode;
+			return generated;
 		} catch (error) {
 			console.error("Error generating QR code:", error);
-			throw new Error("Failed to generate QR code");
+			// 保留原因（如檔名超出資料夾），狀態欄位才看得出失敗原因
+			throw new Error(
+				`Failed to generate QR code: ${(error as Error).message}`
+			);
 		}
 	}
 }
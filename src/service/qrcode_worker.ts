@@ -0,0 +1,205 @@
+import os from "os";
+import { isMainThread, parentPort, Worker, workerData } from "worker_threads";
+import QRCodeService, {
+	GeneratedQRCode,
+	QRImageFormat,
+	QRRenderOptions,
+} from "./qrcode";
+
+// 可在 worker 中呼叫的 QRCodeService 方法與參數
+type WorkerCall =
+	| {
+			method: "generateQRCode";
+			args: Parameters<QRCodeService["generateQRCode"]>;
+	  }
+	| {
+			method: "renderQRCode";
+			args: Parameters<QRCodeService["renderQRCode"]>;
+	  };
+
+type WorkerRequest = WorkerCall & { taskId: number };
+
+interface WorkerResponse {
+	taskId: number;
+	result?: GeneratedQRCode[] | Uint8Array;
+	error?: string;
+}
+
+interface PendingTask {
+	request: WorkerRequest;
+	resolve: (result: unknown) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * 跨執行緒傳遞後 Buffer 會變成 Uint8Array，轉回 Buffer
+ */
+const toBuffer = (data: Uint8Array) =>
+	Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+const WORKER_KIND = "qrcode";
+
+/**
+ * 以 worker_threads 產生 QR Code，編碼與 Logo 合成等 CPU 工作不會阻塞主執行緒
+ * generateQRCode 與 renderQRCode 的介面與 QRCodeService 相同，可直接替換
+ */
+export default class QRCodeWorkerPool {
+	private readonly workers = new Set<Worker>();
+	private readonly idle: Worker[] = [];
+	private readonly queue: PendingTask[] = [];
+	private readonly running = new Map<Worker, PendingTask>();
+	private nextTaskId = 0;
+	private closed = false;
+
+	/**
+	 * @param {string} outputRoot - QR Code 資料夾的根目錄
+	 * @param {number} size - worker 數量，預設為 CPU 核心數
+	 */
+	constructor(
+		private readonly outputRoot: string,
+		private readonly size = Math.max(1, os.cpus().length)
+	) {}
+
+	/**
+	 * 產生 QR Code 圖片，參數同 QRCodeService.generateQRCode
+	 */
+	async generateQRCode(
+		fileName: string,
+		type: string,
+		payload: string = fileName,
+		renderOptions: QRRenderOptions = {},
+		formats: QRImageFormat[] = ["png"]
+	): Promise<GeneratedQRCode[]> {
+		const generated = (await this.submit({
+			method: "generateQRCode",
+			args: [fileName, type, payload, renderOptions, formats],
+		})) as GeneratedQRCode[];
+		return generated.map((item) => ({ ...item, data: toBuffer(item.data) }));
+	}
+
+	/**
+	 * 在記憶體中產生 QR Code，參數同 QRCodeService.renderQRCode
+	 */
+	async renderQRCode(
+		payload: string,
+		format: QRImageFormat = "png",
+		renderOptions: QRRenderOptions = {}
+	): Promise<Buffer> {
+		const data = (await this.submit({
+			method: "renderQRCode",
+			args: [payload, format, renderOptions],
+		})) as Uint8Array;
+		return toBuffer(data);
+	}
+
+	private submit(call: WorkerCall): Promise<unknown> {
+		if (this.closed) {
+			return Promise.reject(new Error("worker pool 已關閉"));
+		}
+
+		return new Promise((resolve, reject) => {
+			this.queue.push({
+				request: { ...call, taskId: this.nextTaskId++ },
+				resolve,
+				reject,
+			});
+			this.dispatch();
+		});
+	}
+
+	/**
+	 * 結束所有 worker
+	 */
+	async close(): Promise<void> {
+		this.closed = true;
+		for (const task of this.queue.splice(0)) {
+			task.reject(new Error("worker pool 已關閉"));
+		}
+		await Promise.all([...this.workers].map((worker) => worker.terminate()));
+		this.workers.clear();
+		this.idle.length = 0;
+	}
+
+	private dispatch(): void {
+		while (this.queue.length > 0) {
+			const worker = this.idle.pop() || this.spawn();
+			if (!worker) {
+				return;
+			}
+			const task = this.queue.shift() as PendingTask;
+			this.running.set(worker, task);
+			worker.postMessage(task.request);
+		}
+	}
+
+	private spawn(): Worker | null {
+		if (this.workers.size >= this.size) {
+			return null;
+		}
+
+		const worker = new Worker(__filename, {
+			workerData: { kind: WORKER_KIND, outputRoot: this.outputRoot },
+		});
+		this.workers.add(worker);
+
+		worker.on("message", (response: WorkerResponse) => {
+			const task = this.running.get(worker);
+			this.running.delete(worker);
+			this.idle.push(worker);
+
+			if (task) {
+				if (response.error !== undefined) {
+					task.reject(new Error(response.error));
+				} else {
+					task.resolve(response.result);
+				}
+			}
+			this.dispatch();
+		});
+
+		// worker 異常結束時，目前的工作視為失敗，由新的 worker 接手後續工作
+		const handleExit = (error: Error) => {
+			if (!this.workers.delete(worker)) {
+				return;
+			}
+			const index = this.idle.indexOf(worker);
+			if (index !== -1) {
+				this.idle.splice(index, 1);
+			}
+			this.running.get(worker)?.reject(error);
+			this.running.delete(worker);
+			if (!this.closed) {
+				this.dispatch();
+			}
+		};
+		worker.on("error", handleExit);
+		worker.on("exit", (code) => {
+			handleExit(new Error(`QR Code worker 異常結束 (exit ${code})`));
+		});
+
+		return worker;
+	}
+}
+
+// worker 執行緒進入點
+if (!isMainThread && workerData?.kind === WORKER_KIND && parentPort) {
+	const port = parentPort;
+	const service = new QRCodeService(workerData.outputRoot);
+
+	port.on("message", async (request: WorkerRequest) => {
+		const response: WorkerResponse = { taskId: request.taskId };
+		try {
+			switch (request.method) {
+				case "generateQRCode":
+					response.result = await service.generateQRCode(...request.args);
+					break;
+				case "renderQRCode":
+					response.result = await service.renderQRCode(...request.args);
+					break;
+			}
+		} catch (error) {
+			response.error = (error as Error).message;
+		}
+		port.postMessage(response);
+	});
+}
@@ -1,6 +1,8 @@
 import ExcelJS from "exceljs";
 import fs from "fs";
 import path from "path";
+import { columnLetter } from "./column_mapping";
+import { loadWorkbook, ProgressLog } from "./workbook_reader";
 
 interface ExcelData {
 	success: boolean;
@@ -13,6 +15,8 @@ interface ExcelData {
 	worksheetName?: string;
 	totalWorksheets?: number;
 	worksheetNames?: string[];
+	headers?: string[]; // header 模式下的標題列
+	rowNumbers?: number[]; // 每筆 data 在工作表中的行號（空白行會被略過，行號不一定連續）
 	error?: Error;
 }
 
@@ -20,11 +24,61 @@ interface ReadOptions {
 	worksheetIndex?: number; // 讀取第幾個工作表 (從 1 開始)
 	worksheetName?: string; // 或指定工作表名稱
 	includeEmpty?: boolean; // 是否包含空白儲存格
-	header?: boolean; // 是否將第一行當作標題
+	header?: boolean; // 是否將標題列當作物件的 key，回傳 Record<標題, 值>[]
+	headerRow?: number; // header 模式下標題列在工作表中的行號 (從 1 開始，預設 1，空白行也計入)
 	raw?: boolean; // 是否保留原始格式 (日期、數字等)
+	stream?: boolean; // 以串流讀取，不將整個活頁簿載入記憶體（僅 .xlsx）
+}
+
+export interface StreamedRow {
+	worksheetName: string;
+	rowNumber: number; // 工作表中的行號
+	values: any[]; // 與 readSingleExcelFile 相同的轉換
+}
+
+/**
+ * 將標題列轉為物件的 key
+ * 空白標題使用欄位字母 (如: 'G')，重複標題加上序號 (如: 'name_2')
+ * @param {any[]} cells - 標題列的值
+ * @returns {string[]} 標題
+ */
+export function toHeaders(cells: any[]): string[] {
+	const seen = new Map<string, number>();
+	return cells.map((cell, index) => {
+		let name =
+			cell === null || cell === undefined || String(cell).trim() === ""
+				? columnLetter(index + 1)
+				: String(cell).trim();
+
+		const count = (seen.get(name) || 0) + 1;
+		seen.set(name, count);
+		if (count > 1) {
+			name = `${name}_${count}`;
+		}
+		return name;
+	});
+}
+
+/**
+ * 將一列資料轉為以標題為 key 的物件，超出該列的欄位值為 null
+ * @param {string[]} headers - toHeaders 的結果
+ * @param {any[]} row - 列資料
+ * @returns {Record<string, any>} 以標題為 key 的資料
+ */
+export function toRecord(headers: string[], row: any[]): Record<string, any> {
+	const record: Record<string, any> = {};
+	headers.forEach((header, index) => {
+		record[header] = index < row.length ? row[index] : null;
+	});
+	return record;
 }
 
 export default class ReadExcelFile {
+	/**
+	 * @param {ProgressLog} log - 過程訊息的輸出方式，預設為 console.log
+	 */
+	constructor(private readonly log: ProgressLog = console.log) {}
+
 	checkFileExists(filePath: string): boolean {
 		try {
 			return fs.existsSync(filePath);
@@ -35,7 +89,7 @@ export default class ReadExcelFile {
 	}
 
 	/**
-	 * 讀取單一 Excel 檔案
+	 * 讀取單一 Excel 檔案（.xlsx、.xls、.csv、.json 皆回傳相同格式，見 workbook_reader）
 	 * @param {string} filePath - Excel 檔案路徑
 	 * @param {ReadOptions} options - 讀取選項
 	 * @returns {Promise<ExcelData>} 讀取結果
@@ -45,20 +99,18 @@ export default class ReadExcelFile {
 		options: ReadOptions = {}
 	): Promise<ExcelData> {
 		try {
-			console.log(`📖 正在讀取：${filePath}`);
+			this.log(`📖 正在讀取：${filePath}`);
 
 			if (!this.checkFileExists(filePath)) {
 				throw new Error(`檔案不存在：${filePath}`);
 			}
 
-			// 檢查檔案擴展名
-			const ext = path.extname(filePath).toLowerCase();
-			if (![".xlsx", ".xls"].includes(ext)) {
-				throw new Error(`不支援的檔案格式：${ext}，僅支援 .xlsx, .xls`);
+			if (options.stream) {
+				return await this.readWorksheetStream(filePath, options);
 			}
 
-			const workbook = new ExcelJS.Workbook();
-			await workbook.xlsx.readFile(filePath);
+			// 依副檔名選擇讀取器，不支援的格式會在這裡失敗
+			const workbook = await loadWorkbook(filePath, this.log);
 
 			// 取得所有工作表名稱
 			const worksheetNames = workbook.worksheets.map((ws) => ws.name);
@@ -85,9 +137,17 @@ export default class ReadExcelFile {
 			}
 
 			// 轉換資料
-			const data = this.worksheetToArray(worksheet, options);
-
-			console.log(
+			const rowNumbers: number[] = [];
+			const rows = this.worksheetToArray(worksheet, options, rowNumbers);
+			const {
+				data,
+				headers,
+				rowNumbers: dataRowNumbers,
+			} = options.header
+				? this.rowsToObjects(rows, rowNumbers, options.headerRow)
+				: { data: rows, headers: undefined, rowNumbers };
+
+			this.log(
 				`✅ 成功讀取：${path.basename(filePath)} - 工作表：${worksheetName} (${
 					data.length
 				} 行)`
@@ -98,9 +158,15 @@ export default class ReadExcelFile {
 				fileName: path.basename(filePath),
 				filePath: filePath,
 				rowCount: data.length,
-				columnCount: data.length > 0 ? data[0].length : 0,
+				columnCount: headers
+					? headers.length
+					: data.length > 0
+					? data[0].length
+					: 0,
 				data: data,
 				worksheetName: worksheetName,
+				headers: headers,
+				rowNumbers: dataRowNumbers,
 				totalWorksheets: workbook.worksheets.length,
 				worksheetNames: worksheetNames,
 				readAt: new Date().toISOString(),
@@ -121,6 +187,129 @@ export default class ReadExcelFile {
 		}
 	}
 
+	/**
+	 * 以串流逐列讀取，每次只保留一列在記憶體中
+	 * .xlsx 使用 ExcelJS 的 stream.xlsx.WorkbookReader；其他格式沒有串流讀取，載入後逐列回傳
+	 * @param {string} filePath - Excel 檔案路徑
+	 * @param {ReadOptions} options - worksheetName 或 worksheetIndex 指定時只回傳該工作表（index 依檔案中的順序）
+	 * @returns {AsyncGenerator<StreamedRow>} 逐列的資料（空白行會被略過）
+	 */
+	async *streamRows(
+		filePath: string,
+		options: ReadOptions = {}
+	): AsyncGenerator<StreamedRow> {
+		const selected = (name: string, index: number) =>
+			options.worksheetName
+				? name === options.worksheetName
+				: options.worksheetIndex === undefined ||
+				  index === options.worksheetIndex;
+		let found = false;
+
+		if (path.extname(filePath).toLowerCase() !== ".xlsx") {
+			const workbook = await loadWorkbook(filePath, this.log);
+			for (const [index, worksheet] of workbook.worksheets.entries()) {
+				if (!selected(worksheet.name, index + 1)) {
+					continue;
+				}
+				found = true;
+				const rowNumbers: number[] = [];
+				const rows = this.worksheetToArray(worksheet, options, rowNumbers);
+				for (const [i, values] of rows.entries()) {
+					yield {
+						worksheetName: worksheet.name,
+						rowNumber: rowNumbers[i],
+						values,
+					};
+				}
+			}
+		} else {
+			const reader = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+				worksheets: "emit",
+				sharedStrings: "cache",
+				styles: "cache", // 需要儲存格格式才能辨識日期
+				hyperlinks: "ignore",
+				entries: "ignore",
+			});
+			let index = 0;
+			for await (const worksheetReader of reader) {
+				// 型別宣告中沒有 name，未讀取的工作表會直接略過
+				const { name } = worksheetReader as unknown as { name: string };
+				if (!selected(name, ++index)) {
+					continue;
+				}
+				found = true;
+				for await (const row of worksheetReader) {
+					const values: any[] = [];
+					for (let col = 1; col <= row.cellCount; col++) {
+						values.push(this.toCellValue(row.getCell(col).value, options));
+					}
+					yield { worksheetName: name, rowNumber: row.number, values };
+				}
+			}
+		}
+
+		if (!found && (options.worksheetName || options.worksheetIndex)) {
+			throw new Error(
+				options.worksheetName
+					? `找不到工作表：${options.worksheetName}`
+					: `找不到第 ${options.worksheetIndex} 個工作表`
+			);
+		}
+	}
+
+	/**
+	 * 以串流讀取單一工作表，回傳與 readSingleExcelFile 相同的格式
+	 * 只保留該工作表的值，不會載入其他工作表、圖片與樣式
+	 * @private
+	 */
+	private async readWorksheetStream(
+		filePath: string,
+		options: ReadOptions
+	): Promise<ExcelData> {
+		const rows: any[][] = [];
+		const rowNumbers: number[] = [];
+		let worksheetName = options.worksheetName;
+		for await (const row of this.streamRows(filePath, {
+			...options,
+			worksheetIndex: options.worksheetName
+				? undefined
+				: options.worksheetIndex || 1,
+		})) {
+			worksheetName = row.worksheetName;
+			rows.push(row.values);
+			rowNumbers.push(row.rowNumber);
+		}
+
+		const {
+			data,
+			headers,
+			rowNumbers: dataRowNumbers,
+		} = options.header
+			? this.rowsToObjects(rows, rowNumbers, options.headerRow)
+			: { data: rows, headers: undefined, rowNumbers };
+
+		this.log(
+			`✅ 成功讀取（串流）：${path.basename(
+				filePath
+			)} - 工作表：${worksheetName} (${data.length} 行)`
+		);
+
+		return {
+			success: true,
+			fileName: path.basename(filePath),
+			filePath: filePath,
+			rowCount: data.length,
+			columnCount: headers
+				? headers.length
+				: Math.max(0, ...rows.map((row) => row.length)),
+			data: data,
+			worksheetName: worksheetName,
+			headers: headers,
+			rowNumbers: dataRowNumbers,
+			readAt: new Date().toISOString(),
+		};
+	}
+
 	/**
 	 * 讀取所有工作表
 	 * @param {string} filePath - Excel 檔案路徑
@@ -136,23 +325,36 @@ export default class ReadExcelFile {
 				throw new Error(`檔案不存在：${filePath}`);
 			}
 
-			const workbook = new ExcelJS.Workbook();
-			await workbook.xlsx.readFile(filePath);
+			const workbook = await loadWorkbook(filePath, this.log);
 
 			const results: ExcelData[] = [];
 
 			for (const worksheet of workbook.worksheets) {
 				try {
-					const data = this.worksheetToArray(worksheet, options);
+					const rowNumbers: number[] = [];
+					const rows = this.worksheetToArray(worksheet, options, rowNumbers);
+					const {
+						data,
+						headers,
+						rowNumbers: dataRowNumbers,
+					} = options.header
+						? this.rowsToObjects(rows, rowNumbers, options.headerRow)
+						: { data: rows, headers: undefined, rowNumbers };
 
 					results.push({
 						success: true,
 						fileName: path.basename(filePath),
 						filePath: filePath,
 						rowCount: data.length,
-						columnCount: data.length > 0 ? data[0].length : 0,
+						columnCount: headers
+							? headers.length
+							: data.length > 0
+							? data[0].length
+							: 0,
 						data: data,
 						worksheetName: worksheet.name,
+						headers: headers,
+						rowNumbers: dataRowNumbers,
 						totalWorksheets: workbook.worksheets.length,
 						worksheetNames: workbook.worksheets.map((ws) => ws.name),
 						readAt: new Date().toISOString(),
@@ -195,10 +397,10 @@ export default class ReadExcelFile {
 	 */
 	private worksheetToArray(
 		worksheet: ExcelJS.Worksheet,
-		options: ReadOptions
+		options: ReadOptions,
+		rowNumbers: number[] = []
 	): any[][] {
 		const data: any[][] = [];
-		const { includeEmpty = true, raw = false } = options;
 
 		worksheet.eachRow((row, rowNumber) => {
 			const rowData: any[] = [];
@@ -207,36 +409,65 @@ export default class ReadExcelFile {
 			const maxCol = Math.max(row.cellCount, worksheet.columnCount || 0);
 
 			for (let colNumber = 1; colNumber <= maxCol; colNumber++) {
-				const cell = row.getCell(colNumber);
-				let value: any;
-
-				if (raw) {
-					// 保留原始值和格式
-					value = cell.value;
-				} else {
-					// 轉換為簡單值
-					if (cell.value === null || cell.value === undefined) {
-						value = includeEmpty ? null : "";
-					} else if (typeof cell.value === "object" && "result" in cell.value) {
-						// 處理公式
-						value = cell.value.result;
-					} else if (cell.value instanceof Date) {
-						// 處理日期
-						value = cell.value.toISOString();
-					} else {
-						value = cell.value;
-					}
-				}
-
-				rowData.push(value);
+				rowData.push(this.toCellValue(row.getCell(colNumber).value, options));
 			}
 
 			data.push(rowData);
+			rowNumbers.push(rowNumber);
 		});
 
 		return data;
 	}
 
+	/**
+	 * 轉換儲存格的值（raw 時保留原始值）
+	 * @private
+	 */
+	private toCellValue(value: ExcelJS.CellValue, options: ReadOptions): any {
+		const { includeEmpty = true, raw = false } = options;
+
+		if (raw) {
+			// 保留原始值和格式
+			return value;
+		}
+		// 轉換為簡單值
+		if (value === null || value === undefined) {
+			return includeEmpty ? null : "";
+		}
+		if (typeof value === "object" && "result" in value) {
+			// 處理公式
+			return value.result;
+		}
+		if (value instanceof Date) {
+			// 處理日期
+			return value.toISOString();
+		}
+		return value;
+	}
+
+	/**
+	 * 將列資料轉換為以標題為 key 的物件
+	 * @private
+	 */
+	private rowsToObjects(
+		rows: any[][],
+		rowNumbers: number[],
+		headerRow = 1
+	): { data: Record<string, any>[]; headers: string[]; rowNumbers: number[] } {
+		// rows 不含空白行，依實際行號找出標題列，標題列以上的行不列入資料
+		const headerIndex = rowNumbers.indexOf(headerRow);
+		if (headerIndex === -1) {
+			throw new Error(`找不到標題列：第 ${headerRow} 行`);
+		}
+
+		const headers = toHeaders(rows[headerIndex]);
+		const data = rows
+			.slice(headerIndex + 1)
+			.map((row) => toRecord(headers, row));
+
+		return { data, headers, rowNumbers: rowNumbers.slice(headerIndex + 1) };
+	}
+
 	/**
 	 * 取得工作表資訊（不讀取資料）
 	 * @param {string} filePath - Excel 檔案路徑
@@ -248,8 +479,7 @@ export default class ReadExcelFile {
 				throw new Error(`檔案不存在：${filePath}`);
 			}
 
-			const workbook = new ExcelJS.Workbook();
-			await workbook.xlsx.readFile(filePath);
+			const workbook = await loadWorkbook(filePath, this.log);
 
 			const worksheets = workbook.worksheets.map((ws) => ({
 				name: ws.name,
@@ -0,0 +1,250 @@
+import ExcelJS from "exceljs";
+
+export type FieldType = "string" | "number" | "integer" | "boolean" | "date";
+
+export const FIELD_TYPES: FieldType[] = [
+	"string",
+	"number",
+	"integer",
+	"boolean",
+	"date",
+];
+
+export type FieldValue = string | number | boolean | Date;
+
+export interface FieldSchema {
+	type: FieldType;
+	required: boolean; // 空白時視為錯誤
+	default?: FieldValue; // 空白時使用的值（優先於 required）
+}
+
+export type RowSchema = Record<string, FieldSchema>;
+
+export interface RowLocation {
+	worksheet: string;
+	row: number; // 工作表中的行號
+	columns: Record<string, string>; // 欄位名稱 -> 欄位字母，找不到的欄位不列出
+}
+
+export interface RowError {
+	worksheet: string;
+	row: number;
+	column: string | null; // 欄位字母，工作表中沒有此欄位時為 null
+	field: string;
+	value: unknown; // 儲存格的值（已取出文字或公式結果）
+	message: string;
+}
+
+export type RowValidationResult<T> =
+	| { success: true; record: T }
+	| { success: false; errors: RowError[] };
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "是", "對"];
+const FALSE_VALUES = ["false", "no", "n", "0", "否", "錯"];
+
+// Excel 日期序號的起點 (1900 日期系統，含 1900/2/29 的錯誤)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 取出儲存格的實際內容：RTF 文字合併為字串、超連結取顯示文字、公式取計算結果
+ * 錯誤值 (#N/A 等) 保留為 { error }，其他值不變
+ * @param {unknown} value - 儲存格的值（ExcelJS 原始值或讀取服務轉換後的值）
+ * @returns {unknown} 取出後的值
+ */
+export function unwrapCellValue(value: unknown): unknown {
+	if (value === null || typeof value !== "object" || value instanceof Date) {
+		return value;
+	}
+	if ("richText" in value) {
+		return (value as ExcelJS.CellRichTextValue).richText
+			.map((part) => part.text)
+			.join("");
+	}
+	if ("hyperlink" in value && "text" in value) {
+		return unwrapCellValue((value as ExcelJS.CellHyperlinkValue).text);
+	}
+	if ("formula" in value || "sharedFormula" in value) {
+		return unwrapCellValue((value as ExcelJS.CellFormulaValue).result ?? null);
+	}
+	return value;
+}
+
+/**
+ * 儲存格的顯示文字（報告與訊息使用），空白為空字串
+ * @param {unknown} value - 儲存格的值
+ * @returns {string} 文字
+ */
+export function cellText(value: unknown): string {
+	const unwrapped = unwrapCellValue(value);
+	if (unwrapped === null || unwrapped === undefined) {
+		return "";
+	}
+	if (unwrapped instanceof Date) {
+		return unwrapped.toISOString();
+	}
+	if (typeof unwrapped === "object") {
+		return "error" in unwrapped
+			? String((unwrapped as ExcelJS.CellErrorValue).error)
+			: JSON.stringify(unwrapped);
+	}
+	return String(unwrapped);
+}
+
+/**
+ * 日期轉為文字：沒有時間部分時只保留日期 (YYYY-MM-DD)
+ */
+function formatDate(date: Date): string {
+	const iso = date.toISOString();
+	return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+}
+
+/**
+ * 依型別轉換單一值
+ * @param {unknown} value - 儲存格的值
+ * @param {FieldType} type - 目標型別
+ * @returns {{ value: FieldValue | null } | { error: string }} 轉換結果，空白為 null
+ */
+export function coerceValue(
+	value: unknown,
+	type: FieldType
+): { value: FieldValue | null } | { error: string } {
+	const unwrapped = unwrapCellValue(value);
+	if (
+		unwrapped === null ||
+		unwrapped === undefined ||
+		(typeof unwrapped === "string" && unwrapped.trim() === "")
+	) {
+		return { value: null };
+	}
+	if (typeof unwrapped === "object" && !(unwrapped instanceof Date)) {
+		return "error" in unwrapped
+			? {
+					error: `儲存格為錯誤值 ${
+						(unwrapped as ExcelJS.CellErrorValue).error
+					}`,
+			  }
+			: { error: "無法辨識的儲存格內容" };
+	}
+
+	const text =
+		unwrapped instanceof Date
+			? formatDate(unwrapped)
+			: String(unwrapped).trim();
+
+	switch (type) {
+		case "string":
+			return { value: text };
+
+		case "number":
+		case "integer": {
+			const number =
+				typeof unwrapped === "number"
+					? unwrapped
+					: typeof unwrapped === "string" &&
+					  /^[+-]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/.test(text)
+					? Number(text.replace(/,/g, ""))
+					: NaN;
+			if (!Number.isFinite(number)) {
+				return { error: `不是數字：${text}` };
+			}
+			if (type === "integer" && !Number.isInteger(number)) {
+				return { error: `不是整數：${text}` };
+			}
+			return { value: number };
+		}
+
+		case "boolean": {
+			if (typeof unwrapped === "boolean") {
+				return { value: unwrapped };
+			}
+			const normalized = text.toLowerCase();
+			if (TRUE_VALUES.includes(normalized)) {
+				return { value: true };
+			}
+			if (FALSE_VALUES.includes(normalized)) {
+				return { value: false };
+			}
+			return { error: `不是布林值：${text}` };
+		}
+
+		case "date": {
+			if (unwrapped instanceof Date) {
+				return { value: unwrapped };
+			}
+			// 未套用日期格式的儲存格是 Excel 日期序號
+			let date = new Date(NaN);
+			const match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+			if (typeof unwrapped === "number") {
+				date = new Date(EXCEL_EPOCH + Math.round(unwrapped * MS_PER_DAY));
+			} else if (match) {
+				const [year, month, day] = match.slice(1).map(Number);
+				date = new Date(Date.UTC(year, month - 1, day));
+				if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+					date = new Date(NaN);
+				}
+			} else if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+				date = new Date(text);
+			}
+			if (Number.isNaN(date.getTime())) {
+				return { error: `不是日期：${text}` };
+			}
+			return { value: date };
+		}
+	}
+}
+
+/**
+ * 依欄位定義驗證並轉換整行資料
+ */
+export default class RowValidator<T = Record<string, FieldValue | null>> {
+	constructor(private readonly schema: RowSchema) {}
+
+	/**
+	 * 驗證一行資料，所有欄位都轉換成功時回傳型別化的資料，否則回傳每個錯誤的位置
+	 * schema 以外的欄位原樣保留
+	 * @param {Record<string, unknown>} values - 以欄位名稱為 key 的資料
+	 * @param {RowLocation} location - 錯誤訊息使用的工作表、行號與欄位字母
+	 * @returns {RowValidationResult<T>} 驗證結果
+	 */
+	validate(
+		values: Record<string, unknown>,
+		location: RowLocation
+	): RowValidationResult<T> {
+		const record: Record<string, unknown> = { ...values };
+		const errors: RowError[] = [];
+
+		for (const [field, schema] of Object.entries(this.schema)) {
+			const addError = (message: string) =>
+				errors.push({
+					worksheet: location.worksheet,
+					row: location.row,
+					column: location.columns[field] ?? null,
+					field,
+					value: unwrapCellValue(values[field] ?? null),
+					message,
+				});
+
+			const result = coerceValue(values[field], schema.type);
+			if ("error" in result) {
+				addError(result.error);
+				continue;
+			}
+			if (result.value === null) {
+				if (schema.default !== undefined) {
+					record[field] = schema.default;
+					continue;
+				}
+				if (schema.required) {
+					addError("必填欄位空白");
+					continue;
+				}
+			}
+			record[field] = result.value;
+		}
+
+		return errors.length > 0
+			? { success: false, errors }
+			: { success: true, record: record as T };
+	}
+}
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import JSZip from "jszip";
+import os from "os";
+import path from "path";
+import QRCodeService from "./qrcode";
+import StreamWorkbookWriter from "./stream_workbook_writer";
+
+// 串流寫入的圖片依賴 ExcelJS 的內部結構，升級 ExcelJS 時以此確認壓縮檔內容與讀回的結果
+const EMU_PER_PIXEL = 9525;
+
+let tempDir: string;
+let filePath: string;
+let pngA: Buffer;
+let pngB: Buffer;
+
+before(async () => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "stream-writer-test-"));
+	filePath = path.join(tempDir, "stream.xlsx");
+
+	const qrcode = new QRCodeService();
+	pngA = await qrcode.renderQRCode("XSG0001");
+	pngB = await qrcode.renderQRCode("XSG0002");
+
+	const writer = new StreamWorkbookWriter(filePath);
+	const imageA = writer.addImage(pngA, "png");
+	const imageB = writer.addImage(pngB, "png");
+	const anchor = (imageId: number, col: number, row: number) => ({
+		imageId,
+		col,
+		colOff: 0,
+		row,
+		rowOff: 0,
+		width: 50 * EMU_PER_PIXEL,
+		height: 50 * EMU_PER_PIXEL,
+	});
+
+	const members = writer.addWorksheet("夥伴名單", {
+		views: [{ state: "frozen", ySplit: 1 }],
+	});
+	members.addRow(["id", "staff_name"]).commit();
+	members.addRow(["XSG0001", "王蘭君"]).commit();
+	members.addRow(["XSG0002", "賴嘉俞"]).commit();
+	// 相同圖片出現兩次，共用一個關聯
+	writer.addImages(members, [
+		anchor(imageA, 2, 1),
+		anchor(imageB, 2, 2),
+		anchor(imageA, 3, 1),
+	]);
+	members.commit();
+
+	const noImages = writer.addWorksheet("其他");
+	noImages.addRow(["沒有圖片"]).commit();
+	writer.addImages(noImages, []);
+	noImages.commit();
+
+	const guests = writer.addWorksheet("來賓");
+	guests.addRow(["GST001"]).commit();
+	writer.addImages(guests, [anchor(imageB, 1, 0)]);
+	guests.commit();
+	assert.throws(
+		() => writer.addImages(guests, [anchor(imageB, 1, 1)]),
+		/工作表已 commit，無法加入圖片：來賓/
+	);
+
+	await writer.commit();
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+test("壓縮檔中的 drawing、關聯檔與 [Content_Types].xml 互相對應", async () => {
+	const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+	const read = async (name: string) => {
+		const entry = zip.file(name);
+		assert.ok(entry, `缺少 ${name}`);
+		return entry.async("string");
+	};
+
+	const contentTypes = await read("[Content_Types].xml");
+	for (const name of ["drawing1", "drawing2"]) {
+		assert.match(
+			contentTypes,
+			new RegExp(
+				`<Override PartName="/xl/drawings/${name}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing\\+xml"/>`
+			)
+		);
+	}
+	assert.doesNotMatch(contentTypes, /drawing3/);
+	assert.match(
+		contentTypes,
+		/<Default Extension="png" ContentType="image\/png"\/>/
+	);
+
+	// 工作表以關聯指向自己的 drawing，<drawing> 在 </worksheet> 之前
+	const sheetDrawings: [string, string | null][] = [
+		["sheet1", "drawing1"],
+		["sheet2", null],
+		["sheet3", "drawing2"],
+	];
+	for (const [sheet, drawing] of sheetDrawings) {
+		const sheetXml = await read(`xl/worksheets/${sheet}.xml`);
+		const match = sheetXml.match(/<drawing r:id="(rId\d+)"\/>/);
+		if (drawing === null) {
+			assert.equal(match, null);
+			continue;
+		}
+		assert.ok(match, `${sheet} 沒有 <drawing>`);
+		assert.match(
+			sheetXml,
+			/<drawing r:id="rId\d+"\/>(?:<legacyDrawing[^>]*\/>)?<\/worksheet>/
+		);
+		const rels = await read(`xl/worksheets/_rels/${sheet}.xml.rels`);
+		assert.match(
+			rels,
+			new RegExp(`Id="${match[1]}"[^>]*Target="../drawings/${drawing}.xml"`)
+		);
+	}
+
+	const drawing1 = await read("xl/drawings/drawing1.xml");
+	assert.equal(drawing1.match(/<xdr:oneCellAnchor>/g)?.length, 3);
+	assert.deepEqual(
+		[...drawing1.matchAll(/r:embed="(rId\d+)"/g)].map((match) => match[1]),
+		["rId1", "rId2", "rId1"]
+	);
+
+	// 每個圖片關聯都指向存在的媒體檔，內容與加入的圖片相同
+	const mediaOf = async (drawing: string) =>
+		Promise.all(
+			[
+				...(await read(`xl/drawings/_rels/${drawing}.xml.rels`)).matchAll(
+					/Target="\.\.\/media\/([^"]+)"/g
+				),
+			].map(async (match) =>
+				(await zip.file(`xl/media/${match[1]}`)?.async("nodebuffer"))?.equals(
+					pngA
+				)
+					? "A"
+					: "B"
+			)
+		);
+	assert.deepEqual(await mediaOf("drawing1"), ["A", "B"]);
+	assert.deepEqual(await mediaOf("drawing2"), ["B"]);
+});
+
+test("ExcelJS 讀回儲存格、凍結窗格與圖片位置", async () => {
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.readFile(filePath);
+	assert.deepEqual(
+		workbook.worksheets.map((worksheet) => worksheet.name),
+		["夥伴名單", "其他", "來賓"]
+	);
+
+	const members = workbook.getWorksheet("夥伴名單") as ExcelJS.Worksheet;
+	assert.equal(members.getCell("B3").value, "賴嘉俞");
+	assert.equal(members.views[0]?.state, "frozen");
+
+	const imageBuffer = (imageId: string) =>
+		Buffer.from(workbook.getImage(Number(imageId)).buffer as ArrayBuffer);
+	const images = members
+		.getImages()
+		.map((image) => [
+			image.range.tl.nativeCol,
+			image.range.tl.nativeRow,
+			imageBuffer(image.imageId).equals(pngA) ? "A" : "B",
+		]);
+	assert.deepEqual(images, [
+		[2, 1, "A"],
+		[2, 2, "B"],
+		[3, 1, "A"],
+	]);
+
+	assert.deepEqual(
+		(workbook.getWorksheet("其他") as ExcelJS.Worksheet).getImages(),
+		[]
+	);
+	const guests = (
+		workbook.getWorksheet("來賓") as ExcelJS.Worksheet
+	).getImages();
+	assert.equal(guests.length, 1);
+	assert.equal(guests[0].range.tl.nativeCol, 1);
+	assert.ok(imageBuffer(guests[0].imageId).equals(pngB));
+});
@@ -0,0 +1,181 @@
+import ExcelJS from "exceljs";
+
+export interface StreamImageAnchor {
+	imageId: number; // addImage 回傳的 id
+	col: number; // 左上角欄 (從 0 開始)
+	colOff: number; // 欄內偏移 (EMU)
+	row: number; // 左上角列 (從 0 開始)
+	rowOff: number; // 列內偏移 (EMU)
+	width: number; // 寬 (EMU)
+	height: number; // 高 (EMU)
+}
+
+// ExcelJS 串流寫入的內部結構（型別宣告中沒有，依 4.4.0，package.json 固定版本）
+interface WorkbookWriterInternals {
+	zip: {
+		append(source: unknown, data: { name: string }): unknown;
+	};
+	media: { name: string }[];
+}
+
+interface WorksheetWriterInternals {
+	id: number;
+	committed: boolean;
+	_sheetRelsWriter: {
+		addRelationship(rel: { Type: string; Target: string }): string;
+	};
+	_writeLegacyData(): void;
+	_write(text: string): void;
+}
+
+const REL_DRAWING =
+	"http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing";
+const REL_IMAGE =
+	"http://schemas.openxmlformats.org/officeDocument/2006/relationships/image";
+const DRAWING_CONTENT_TYPE =
+	"application/vnd.openxmlformats-officedocument.drawing+xml";
+
+/**
+ * 以 ExcelJS 串流寫入 (stream.xlsx.WorkbookWriter) 逐列輸出活頁簿，列 commit 後即釋放記憶體
+ * ExcelJS 的串流寫入不支援浮動圖片，這裡自行寫入 drawing 與關聯檔
+ */
+export default class StreamWorkbookWriter {
+	readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+	private readonly drawings: string[] = [];
+
+	/**
+	 * @param {string} filePath - 輸出的 .xlsx 檔案
+	 */
+	constructor(filePath: string) {
+		this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+			filename: filePath,
+			useStyles: true,
+			useSharedStrings: true,
+		});
+
+		// [Content_Types].xml 在 commit 時產生，補上 drawing 的宣告
+		const { zip } = this.workbook as unknown as WorkbookWriterInternals;
+		const append = zip.append.bind(zip);
+		zip.append = (source, data) =>
+			append(
+				data.name === "[Content_Types].xml" && typeof source === "string"
+					? source.replace(
+							"</Types>",
+							this.drawings
+								.map(
+									(name) =>
+										`<Override PartName="/xl/drawings/${name}.xml" ContentType="${DRAWING_CONTENT_TYPE}"/>`
+								)
+								.join("") + "</Types>"
+					  )
+					: source,
+				data
+			);
+	}
+
+	/**
+	 * 新增工作表，views（如凍結窗格）需在建立時指定
+	 */
+	addWorksheet(
+		name: string,
+		options?: Partial<ExcelJS.AddWorksheetOptions>
+	): ExcelJS.Worksheet {
+		return this.workbook.addWorksheet(name, options);
+	}
+
+	/**
+	 * 加入圖片，回傳的 id 可在多個位置重複使用
+	 */
+	addImage(buffer: Buffer, extension: "png" | "jpeg" | "gif"): number {
+		// ExcelJS 的型別宣告把 Buffer 定義為 ArrayBuffer，實際接受 Node.js Buffer
+		return this.workbook.addImage({
+			buffer: buffer as unknown as ExcelJS.Image["buffer"],
+			extension,
+		});
+	}
+
+	/**
+	 * 在工作表加入圖片（oneCell 錨定），需在工作表 commit 前呼叫，每個工作表只能呼叫一次
+	 * @param {ExcelJS.Worksheet} worksheet - addWorksheet 建立的工作表
+	 * @param {StreamImageAnchor[]} anchors - 圖片位置
+	 */
+	addImages(worksheet: ExcelJS.Worksheet, anchors: StreamImageAnchor[]): void {
+		if (anchors.length === 0) {
+			return;
+		}
+		const sheet = worksheet as unknown as WorksheetWriterInternals;
+		if (sheet.committed) {
+			throw new Error(`工作表已 commit，無法加入圖片：${worksheet.name}`);
+		}
+
+		const name = `drawing${this.drawings.length + 1}`;
+		this.drawings.push(name);
+		const drawingRelId = sheet._sheetRelsWriter.addRelationship({
+			Type: REL_DRAWING,
+			Target: `../drawings/${name}.xml`,
+		});
+
+		// <drawing> 必須在 <legacyDrawing> 之前
+		const writeLegacyData = sheet._writeLegacyData.bind(sheet);
+		sheet._writeLegacyData = () => {
+			sheet._write(`<drawing r:id="${drawingRelId}"/>`);
+			writeLegacyData();
+		};
+
+		// 相同圖片在同一個 drawing 中共用一個關聯
+		const { media } = this.workbook as unknown as WorkbookWriterInternals;
+		const imageRelIds = new Map<number, string>();
+		for (const { imageId } of anchors) {
+			if (!imageRelIds.has(imageId)) {
+				imageRelIds.set(imageId, `rId${imageRelIds.size + 1}`);
+			}
+		}
+
+		const rels = [...imageRelIds].map(
+			([imageId, relId]) =>
+				`<Relationship Id="${relId}" Type="${REL_IMAGE}" Target="../media/${media[imageId].name}"/>`
+		);
+		const pictures = anchors.map(
+			(anchor, index) =>
+				`<xdr:oneCellAnchor>` +
+				`<xdr:from><xdr:col>${anchor.col}</xdr:col><xdr:colOff>${anchor.colOff}</xdr:colOff>` +
+				`<xdr:row>${anchor.row}</xdr:row><xdr:rowOff>${anchor.rowOff}</xdr:rowOff></xdr:from>` +
+				`<xdr:ext cx="${anchor.width}" cy="${anchor.height}"/>` +
+				`<xdr:pic><xdr:nvPicPr><xdr:cNvPr id="${index + 2}" name="Picture ${
+					index + 1
+				}"/>` +
+				`<xdr:cNvPicPr><a:picLocks noChangeAspect="1"/></xdr:cNvPicPr></xdr:nvPicPr>` +
+				`<xdr:blipFill><a:blip r:embed="${imageRelIds.get(
+					anchor.imageId
+				)}"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>` +
+				`<xdr:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${anchor.width}" cy="${anchor.height}"/></a:xfrm>` +
+				`<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></xdr:spPr></xdr:pic>` +
+				`<xdr:clientData/></xdr:oneCellAnchor>`
+		);
+
+		const { zip } = this.workbook as unknown as WorkbookWriterInternals;
+		zip.append(
+			`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+				`<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" ` +
+				`xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ` +
+				`xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+				pictures.join("") +
+				`</xdr:wsDr>`,
+			{ name: `xl/drawings/${name}.xml` }
+		);
+		zip.append(
+			`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+				`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+				rels.join("") +
+				`</Relationships>`,
+			{ name: `xl/drawings/_rels/${name}.xml.rels` }
+		);
+	}
+
+	/**
+	 * 寫入所有工作表與圖片並關閉檔案
+	 */
+	async commit(): Promise<void> {
+		await this.workbook.commit();
+	}
+}
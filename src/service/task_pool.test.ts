@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import TaskPool from "./task_pool";
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe("TaskPool", () => {
+	test("同時執行的工作數不超過 concurrency，結果依項目順序", async () => {
+		const items = Array.from({ length: 10 }, (_, index) => index);
+		let active = 0;
+		let maxActive = 0;
+		const progress: number[] = [];
+
+		const { results, failures, stats } = await new TaskPool({
+			concurrency: 3,
+			onProgress: (done, total) => {
+				assert.equal(total, 10);
+				progress.push(done);
+			},
+		}).run(items, async (item, index) => {
+			assert.equal(item, index);
+			active++;
+			maxActive = Math.max(maxActive, active);
+			// 後面的項目較快完成，完成順序與項目順序不同
+			await sleep((10 - item) * 2);
+			active--;
+			return `#${item}`;
+		});
+
+		assert.equal(maxActive, 3);
+		assert.deepEqual(
+			results,
+			items.map((item) => `#${item}`)
+		);
+		assert.deepEqual(failures, []);
+		assert.deepEqual(progress, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+		assert.equal(stats.total, 10);
+		assert.equal(stats.succeeded, 10);
+		assert.equal(stats.failed, 0);
+		assert.equal(stats.retried, 0);
+	});
+
+	test("項目比 concurrency 少時只啟動需要的數量", async () => {
+		let calls = 0;
+		const { results } = await new TaskPool({ concurrency: 8 }).run(
+			["a", "b"],
+			async (item) => {
+				calls++;
+				return item.toUpperCase();
+			}
+		);
+		assert.equal(calls, 2);
+		assert.deepEqual(results, ["A", "B"]);
+	});
+
+	test("失敗後重試，超過重試次數才列為失敗", async () => {
+		// 項目值為前幾次執行會失敗
+		const items = [0, 5, 1, 2, 3];
+		const attempts = new Map<number, number>();
+
+		const { results, failures, stats } = await new TaskPool({
+			concurrency: 2,
+			retries: 2,
+			retryDelay: 1,
+		}).run(items, async (failTimes, index) => {
+			const attempt = (attempts.get(index) ?? 0) + 1;
+			attempts.set(index, attempt);
+			if (attempt <= failTimes) {
+				throw new Error(`第 ${index} 項第 ${attempt} 次失敗`);
+			}
+			return `${index}:${attempt}`;
+		});
+
+		assert.deepEqual(
+			[...attempts].sort(([a], [b]) => a - b),
+			[
+				[0, 1],
+				[1, 3],
+				[2, 2],
+				[3, 3],
+				[4, 3],
+			]
+		);
+		assert.deepEqual(results, ["0:1", "2:2", "3:3"]);
+		assert.deepEqual(
+			failures.map(({ item, error, attempts }) => [
+				item,
+				error.message,
+				attempts,
+			]),
+			[
+				[5, "第 1 項第 3 次失敗", 3],
+				[3, "第 4 項第 3 次失敗", 3],
+			]
+		);
+		assert.equal(stats.succeeded, 3);
+		assert.equal(stats.failed, 2);
+		assert.equal(stats.retried, 2 + 1 + 2 + 2);
+	});
+
+	test("重試前的等待時間每次加倍", async () => {
+		const startedAt = Date.now();
+		const { failures } = await new TaskPool({
+			concurrency: 1,
+			retries: 2,
+			retryDelay: 20,
+		}).run(["x"], async () => {
+			throw new Error("失敗");
+		});
+		// 20 + 40 ms，計時器可能提早約 1 ms 觸發
+		assert.ok(Date.now() - startedAt >= 58);
+		assert.equal(failures[0].attempts, 3);
+	});
+
+	test("retries 為 0 時不重試，非 Error 的例外轉為 Error", async () => {
+		let calls = 0;
+		const { failures, stats } = await new TaskPool({ retries: 0 }).run(
+			["x"],
+			async () => {
+				calls++;
+				throw "字串例外";
+			}
+		);
+		assert.equal(calls, 1);
+		assert.ok(failures[0].error instanceof Error);
+		assert.equal(failures[0].error.message, "字串例外");
+		assert.equal(failures[0].attempts, 1);
+		assert.equal(stats.retried, 0);
+	});
+
+	test("沒有項目時直接完成", async () => {
+		const { results, stats } = await new TaskPool().run([], async () => 1);
+		assert.deepEqual(results, []);
+		assert.equal(stats.total, 0);
+		assert.equal(stats.averageMs, 0);
+		assert.equal(stats.maxMs, 0);
+	});
+
+	test("concurrency 必須是正整數", () => {
+		for (const concurrency of [0, -1, 1.5, NaN]) {
+			assert.throws(
+				() => new TaskPool({ concurrency }),
+				/concurrency 必須是正整數/
+			);
+		}
+	});
+});
@@ -0,0 +1,135 @@
+export interface TaskPoolOptions {
+	concurrency: number; // 同時執行的工作數
+	retries: number; // 失敗後重試次數
+	retryDelay: number; // 第一次重試前的等待時間 (ms)，之後每次加倍
+	onProgress?: (done: number, total: number) => void; // 每完成一項呼叫一次
+}
+
+export interface TaskFailure<T> {
+	item: T;
+	error: Error;
+	attempts: number;
+}
+
+export interface TaskPoolStats {
+	total: number;
+	succeeded: number;
+	failed: number;
+	retried: number; // 重試次數（不含第一次執行）
+	durationMs: number; // 全部完成的耗時
+	averageMs: number; // 每項平均耗時（含重試）
+	maxMs: number; // 最慢一項的耗時
+	throughput: number; // 每秒完成數
+}
+
+export interface TaskPoolResult<T, R> {
+	results: R[]; // 成功項目的結果（依項目順序，不含失敗項目）
+	failures: TaskFailure<T>[]; // 失敗項目（依項目順序）
+	stats: TaskPoolStats;
+}
+
+export const DEFAULT_TASK_POOL_OPTIONS: TaskPoolOptions = {
+	concurrency: 4,
+	retries: 2,
+	retryDelay: 100,
+};
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export default class TaskPool {
+	private readonly options: TaskPoolOptions;
+
+	/**
+	 * @param {Partial<TaskPoolOptions>} options - 併發數與重試設定
+	 */
+	constructor(options: Partial<TaskPoolOptions> = {}) {
+		this.options = { ...DEFAULT_TASK_POOL_OPTIONS, ...options };
+		if (
+			!Number.isInteger(this.options.concurrency) ||
+			this.options.concurrency < 1
+		) {
+			throw new Error("concurrency 必須是正整數");
+		}
+	}
+
+	/**
+	 * 以固定併發數執行所有項目，單一項目失敗會依退避時間重試，不影響其他項目
+	 * @param {T[]} items - 要處理的項目
+	 * @param {(item: T, index: number) => Promise<R>} worker - 處理函式
+	 * @returns {Promise<TaskPoolResult<T, R>>} 結果、失敗項目與耗時統計
+	 */
+	async run<T, R>(
+		items: T[],
+		worker: (item: T, index: number) => Promise<R>
+	): Promise<TaskPoolResult<T, R>> {
+		const { concurrency, retries, retryDelay, onProgress } = this.options;
+		// 以項目索引保存，全部完成後依原順序排列，結果不受完成先後影響
+		const settled = new Map<number, R>();
+		const failed = new Map<number, TaskFailure<T>>();
+		const durations: number[] = [];
+		let retried = 0;
+		let next = 0;
+		let done = 0;
+
+		const startedAt = Date.now();
+
+		const runNext = async (): Promise<void> => {
+			while (next < items.length) {
+				const index = next++;
+				const item = items[index];
+				const itemStartedAt = Date.now();
+
+				for (let attempt = 0; ; attempt++) {
+					try {
+						settled.set(index, await worker(item, index));
+						break;
+					} catch (error) {
+						if (attempt >= retries) {
+							failed.set(index, {
+								item,
+								error:
+									error instanceof Error ? error : new Error(String(error)),
+								attempts: attempt + 1,
+							});
+							break;
+						}
+						retried++;
+						await sleep(retryDelay * 2 ** attempt);
+					}
+				}
+
+				durations.push(Date.now() - itemStartedAt);
+				onProgress?.(++done, items.length);
+			}
+		};
+
+		await Promise.all(
+			Array.from({ length: Math.min(concurrency, items.length) }, runNext)
+		);
+
+		const durationMs = Date.now() - startedAt;
+		const byIndex = <V>(map: Map<number, V>) =>
+			[...map].sort(([a], [b]) => a - b).map(([, value]) => value);
+		const results = byIndex(settled);
+		const failures = byIndex(failed);
+		return {
+			results,
+			failures,
+			stats: {
+				total: items.length,
+				succeeded: results.length,
+				failed: failures.length,
+				retried,
+				durationMs,
+				averageMs:
+					durations.length === 0
+						? 0
+						: durations.reduce((sum, ms) => sum + ms, 0) / durations.length,
+				maxMs: durations.length === 0 ? 0 : Math.max(...durations),
+				throughput:
+					durationMs === 0 ? items.length : (items.length * 1000) / durationMs,
+			},
+		};
+	}
+}
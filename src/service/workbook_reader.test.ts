@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import XLSX from "xlsx";
+import { loadWorkbook } from "./workbook_reader";
+
+let tempDir: string;
+
+before(() => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "workbook-reader-test-"));
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+test("loadWorkbook 以 SheetJS 讀取 .xls，保留行號、欄位位置與型別", async () => {
+	const filePath = path.join(tempDir, "record.xls");
+	const sheet = XLSX.utils.aoa_to_sheet([
+		["id", "staff_name", "team"],
+		["XSG0001", "王蘭君", 3],
+		[],
+		["XSG0002", null, "STAFF"],
+	]);
+	const book = XLSX.utils.book_new();
+	XLSX.utils.book_append_sheet(book, sheet, "夥伴名單");
+	fs.writeFileSync(
+		filePath,
+		XLSX.write(book, { type: "buffer", bookType: "biff8" })
+	);
+
+	const workbook = await loadWorkbook(filePath, () => undefined);
+	const worksheet = workbook.getWorksheet("夥伴名單");
+	assert.ok(worksheet);
+	assert.equal(worksheet.getCell("A2").value, "XSG0001");
+	assert.equal(worksheet.getCell("B2").value, "王蘭君");
+	assert.equal(worksheet.getCell("C2").value, 3);
+	assert.equal(worksheet.getCell("A4").value, "XSG0002");
+	assert.equal(worksheet.getCell("B4").value, null);
+	assert.equal(worksheet.getCell("C4").value, "STAFF");
+});
@@ -0,0 +1,254 @@
+import ExcelJS from "exceljs";
+import fs from "fs";
+import path from "path";
+import XLSX from "xlsx";
+import { readCsv } from "./csv_reader";
+
+/**
+ * 檔案讀取器：將各種格式轉為 ExcelJS 活頁簿，後續的讀取與寫入流程不需區分來源格式
+ */
+/**
+ * 過程訊息的輸出方式，預設為 console.log（verify --json 時改為 stderr）
+ */
+export type ProgressLog = (message: string) => void;
+
+export interface WorkbookReader {
+	name: string; // 格式名稱（用於訊息）
+	extensions: string[]; // 支援的副檔名（小寫，含 .）
+	read(filePath: string, log: ProgressLog): Promise<ExcelJS.Workbook>;
+}
+
+/**
+ * 單一表格格式 (CSV、JSON 陣列) 的工作表名稱：使用檔名（去除 Excel 不允許的字元，最多 31 字）
+ */
+export function getDefaultWorksheetName(filePath: string): string {
+	return (
+		path
+			.basename(filePath, path.extname(filePath))
+			.replace(/[\\/*?:[\]]/g, "_")
+			.slice(0, 31) || "Sheet1"
+	);
+}
+
+const xlsxReader: WorkbookReader = {
+	name: "Excel 活頁簿",
+	extensions: [".xlsx"],
+	async read(filePath) {
+		const workbook = new ExcelJS.Workbook();
+		await workbook.xlsx.readFile(filePath);
+		return workbook;
+	},
+};
+
+/**
+ * 舊版 Excel (BIFF .xls) 以 SheetJS 解析，逐格複製值；行號與欄位位置保持不變
+ */
+const xlsReader: WorkbookReader = {
+	name: "Excel 97-2003 活頁簿",
+	extensions: [".xls"],
+	async read(filePath) {
+		const source = XLSX.read(fs.readFileSync(filePath), {
+			type: "buffer",
+			cellDates: true,
+		});
+		const workbook = new ExcelJS.Workbook();
+
+		for (const name of source.SheetNames) {
+			const sheet = source.Sheets[name];
+			const worksheet = workbook.addWorksheet(name);
+			if (!sheet["!ref"]) {
+				continue;
+			}
+
+			const range = XLSX.utils.decode_range(sheet["!ref"]);
+			for (let r = range.s.r; r <= range.e.r; r++) {
+				for (let c = range.s.c; c <= range.e.c; c++) {
+					const cell: XLSX.CellObject | undefined =
+						sheet[XLSX.utils.encode_cell({ r, c })];
+					if (!cell || cell.v === undefined || cell.t === "z") {
+						continue;
+					}
+					worksheet.getCell(r + 1, c + 1).value =
+						cell.t === "e"
+							? { error: (cell.w || "#N/A") as ExcelJS.CellErrorValue["error"] }
+							: toCellValue(cell.v);
+				}
+			}
+		}
+		return workbook;
+	},
+};
+
+/**
+ * CSV 轉為單一工作表，所有值保留為文字
+ */
+const csvReader: WorkbookReader = {
+	name: "CSV",
+	extensions: [".csv", ".tsv"],
+	async read(filePath, log) {
+		const { rows, encoding, delimiter } = readCsv(filePath);
+		log(
+			`🔤 ${path.basename(
+				filePath
+			)}：編碼 ${encoding}，分隔符號 ${JSON.stringify(delimiter)}`
+		);
+
+		const workbook = new ExcelJS.Workbook();
+		const worksheet = workbook.addWorksheet(getDefaultWorksheetName(filePath));
+		rows.forEach((row, r) => {
+			row.forEach((value, c) => {
+				if (value !== "") {
+					worksheet.getCell(r + 1, c + 1).value = value;
+				}
+			});
+		});
+		return workbook;
+	},
+};
+
+/**
+ * JSON：物件陣列為單一工作表（第一列為所有 key），或 { 工作表名稱: 陣列 } 為多個工作表
+ * 陣列的元素也可以是陣列（逐行的值，第一行為標題）
+ */
+const jsonReader: WorkbookReader = {
+	name: "JSON",
+	extensions: [".json"],
+	async read(filePath) {
+		const text = fs.readFileSync(filePath, "utf8").replace(/^\uFEFF/, "");
+		let data: unknown;
+		try {
+			data = JSON.parse(text);
+		} catch (error) {
+			throw new Error(`JSON 格式錯誤：${(error as Error).message}`);
+		}
+
+		const sheets: [string, unknown][] = Array.isArray(data)
+			? [[getDefaultWorksheetName(filePath), data]]
+			: typeof data === "object" && data !== null
+			? Object.entries(data)
+			: [];
+		if (sheets.length === 0) {
+			throw new Error(
+				"JSON 必須是物件陣列，或 { 工作表名稱: 物件陣列 } 的物件"
+			);
+		}
+
+		const workbook = new ExcelJS.Workbook();
+		for (const [name, records] of sheets) {
+			if (!Array.isArray(records)) {
+				throw new Error(`JSON 中的 "${name}" 必須是陣列`);
+			}
+			const worksheet = workbook.addWorksheet(name);
+			jsonToRows(records).forEach((row, r) => {
+				row.forEach((value, c) => {
+					if (value !== null && value !== undefined && value !== "") {
+						worksheet.getCell(r + 1, c + 1).value = toCellValue(value);
+					}
+				});
+			});
+		}
+		return workbook;
+	},
+};
+
+/**
+ * JSON 陣列轉為逐行的值：物件以所有出現過的 key（依出現順序）作為標題列
+ */
+function jsonToRows(records: unknown[]): unknown[][] {
+	if (records.every((record) => Array.isArray(record))) {
+		return records as unknown[][];
+	}
+
+	const headers: string[] = [];
+	for (const record of records) {
+		if (typeof record !== "object" || record === null) {
+			throw new Error("JSON 陣列的元素必須都是物件或都是陣列");
+		}
+		for (const key of Object.keys(record)) {
+			if (!headers.includes(key)) {
+				headers.push(key);
+			}
+		}
+	}
+	return [
+		headers,
+		...records.map((record) =>
+			headers.map((key) => (record as Record<string, unknown>)[key])
+		),
+	];
+}
+
+/**
+ * 轉為儲存格的值：巢狀物件轉為 JSON 文字
+ */
+function toCellValue(value: unknown): ExcelJS.CellValue {
+	if (
+		typeof value === "string" ||
+		typeof value === "number" ||
+		typeof value === "boolean" ||
+		value instanceof Date
+	) {
+		return value;
+	}
+	return JSON.stringify(value);
+}
+
+const readers: WorkbookReader[] = [
+	xlsxReader,
+	xlsReader,
+	csvReader,
+	jsonReader,
+];
+
+/**
+ * 註冊讀取器，後註冊的優先（可覆蓋內建格式）
+ * @param {WorkbookReader} reader - 讀取器
+ */
+export function registerWorkbookReader(reader: WorkbookReader): void {
+	readers.unshift(reader);
+}
+
+/**
+ * 支援的副檔名
+ */
+export function getSupportedExtensions(): string[] {
+	return [...new Set(readers.flatMap((reader) => reader.extensions))];
+}
+
+/**
+ * 依副檔名取得讀取器
+ * @param {string} filePath - 檔案路徑
+ * @returns {WorkbookReader} 讀取器
+ */
+export function getWorkbookReader(filePath: string): WorkbookReader {
+	const ext = path.extname(filePath).toLowerCase();
+	const reader = readers.find((item) => item.extensions.includes(ext));
+	if (!reader) {
+		throw new Error(
+			`不支援的檔案格式：${ext}，僅支援 ${getSupportedExtensions().join(", ")}`
+		);
+	}
+	return reader;
+}
+
+/**
+ * 讀取檔案為 ExcelJS 活頁簿
+ * @param {string} filePath - 檔案路徑
+ * @param {ProgressLog} log - 過程訊息的輸出方式
+ * @returns {Promise<ExcelJS.Workbook>} 活頁簿
+ */
+export async function loadWorkbook(
+	filePath: string,
+	log: ProgressLog = console.log
+): Promise<ExcelJS.Workbook> {
+	const reader = getWorkbookReader(filePath);
+	try {
+		return await reader.read(filePath, log);
+	} catch (error) {
+		throw new Error(
+			`無法以 ${reader.name} 格式讀取 ${path.basename(filePath)}：${
+				(error as Error).message
+			}`
+		);
+	}
+}
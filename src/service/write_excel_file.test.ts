@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import QRCodeService from "./qrcode";
+import WriteExcelFile from "./write_excel_file";
+
+// 串流寫入依賴 ExcelJS 的內部結構（見 stream_workbook_writer.ts），升級 ExcelJS 時以此確認輸出
+let tempDir: string;
+let sourcePath: string;
+
+before(async () => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "write-excel-test-"));
+	sourcePath = path.join(tempDir, "source.xlsx");
+
+	const workbook = new ExcelJS.Workbook();
+	const worksheet = workbook.addWorksheet("夥伴名單");
+	worksheet.getColumn(1).width = 18;
+	worksheet.getColumn(2).width = 30;
+	worksheet.addRow(["id", "staff_name"]);
+	worksheet.addRow(["XSG0001", "王蘭君"]);
+	worksheet.addRow(["XSG0002", "賴嘉俞"]);
+	workbook.addWorksheet("其他").addRow(["不修改"]);
+	await workbook.xlsx.writeFile(sourcePath);
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+test("writeWorkbookStream 保留欄寬並寫入附加欄位、圖片與新增的工作表", async () => {
+	const outPath = path.join(tempDir, "out.xlsx");
+	const png = await new QRCodeService().renderQRCode("XSG0001");
+
+	const result = await new WriteExcelFile().writeWorkbookStream(
+		sourcePath,
+		outPath,
+		[
+			{
+				worksheetName: "夥伴名單",
+				headerRow: 1,
+				columns: [
+					{ column: "C", header: "狀態", values: new Map([[2, "ok"]]) },
+				],
+				images: [
+					{ buffer: png, extension: "png", cell: "D2", width: 50, height: 50 },
+					{ buffer: png, extension: "png", cell: "D3", width: 50, height: 50 },
+				],
+			},
+		],
+		[
+			{
+				worksheetName: "檢查報告",
+				data: [
+					["行號", "說明"],
+					[3, "測試"],
+				],
+			},
+		]
+	);
+	assert.equal(result.success, true, result.error?.message);
+	assert.equal(result.imagesInserted, 2);
+	assert.equal(result.uniqueImages, 1);
+
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.readFile(outPath);
+	assert.deepEqual(
+		workbook.worksheets.map((worksheet) => worksheet.name),
+		["夥伴名單", "其他", "檢查報告"]
+	);
+
+	const worksheet = workbook.getWorksheet("夥伴名單") as ExcelJS.Worksheet;
+	assert.equal(worksheet.getColumn(1).width, 18);
+	assert.equal(worksheet.getColumn(2).width, 30);
+	assert.equal(worksheet.getCell("B2").value, "王蘭君");
+	assert.equal(worksheet.getCell("C1").value, "狀態");
+	assert.equal(worksheet.getCell("C2").value, "ok");
+
+	const images = worksheet.getImages();
+	assert.equal(images.length, 2);
+	assert.deepEqual(
+		images.map((image) => image.range.tl.nativeRow).sort(),
+		[1, 2]
+	);
+	assert.equal(
+		(workbook.getWorksheet("其他") as ExcelJS.Worksheet).getCell("A1").value,
+		"不修改"
+	);
+});
+
+test("writeWorkbookStream 結束後還原 ExcelJS 的 Column.fromModel", async () => {
+	const Column = require("exceljs/lib/doc/column");
+	const original = Column.fromModel;
+
+	const result = await new WriteExcelFile().writeWorkbookStream(
+		sourcePath,
+		path.join(tempDir, "restored.xlsx"),
+		[]
+	);
+	assert.equal(result.success, true, result.error?.message);
+	assert.equal(Column.fromModel, original);
+});
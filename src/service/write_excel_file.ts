@@ -1,6 +1,12 @@
+import crypto from "crypto";
 import ExcelJS from "exceljs";
 import fs from "fs";
 import path from "path";
+import { getTempPath } from "./backup";
+import StreamWorkbookWriter, {
+	StreamImageAnchor,
+} from "./stream_workbook_writer";
+import { findStreamUnsupportedFeatures } from "./xlsx_features";
 
 interface WriteOptions {
 	worksheetName?: string;
@@ -9,12 +15,102 @@ interface WriteOptions {
 	freezeHeader?: boolean;
 }
 
-interface ImageOptions {
-	imagePath: string;
+type ImageExtension = "jpeg" | "png" | "gif";
+
+/**
+ * 圖片與儲存格的配合方式
+ * - none：圖片放在儲存格左上角，不調整欄寬列高（舊版行為）
+ * - image：加大欄寬與列高以容納圖片（含留白），不會縮小
+ * - cell：縮放圖片以放入目前的儲存格（含留白）
+ */
+export type ImageFit = "none" | "image" | "cell";
+
+export const IMAGE_FIT_MODES: ImageFit[] = ["none", "image", "cell"];
+
+/**
+ * 圖片錨定方式：oneCell 隨儲存格移動（排序、插入列時跟著走），absolute 固定位置
+ */
+export type ImageEditAs = "oneCell" | "twoCell" | "absolute";
+
+export interface ImageOptions {
+	imagePath?: string; // 圖片檔案，與 buffer 擇一
+	buffer?: Buffer; // 圖片內容，不需要先寫入磁碟
+	extension?: ImageExtension; // buffer 的格式，未指定時依內容判斷
 	cell: string;
-	width?: number;
-	height?: number;
-	maintainAspectRatio?: boolean;
+	width?: number; // 顯示寬度 (px)
+	height?: number; // 顯示高度 (px)
+	maintainAspectRatio?: boolean; // 依圖片原始比例縮放到 width × height 以內
+	fit?: ImageFit; // 預設 none
+	padding?: number; // 圖片與儲存格邊緣的距離 (px)，預設 0
+	editAs?: ImageEditAs; // 預設 oneCell
+}
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+
+const EMU_PER_PIXEL = 9525; // 96 DPI
+
+// Excel 預設欄寬 8.43 字元 (64 px)、列高 15 pt (20 px)
+const DEFAULT_COLUMN_WIDTH_PX = 64;
+const DEFAULT_ROW_HEIGHT_PX = 20;
+
+const PNG_SIGNATURE = Buffer.from([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+// ExcelJS 工作表內部的圖片資料 (worksheet._media)
+interface WorksheetMedium {
+	type: "image" | "background";
+	imageId: number | string;
+	range?: { tl: { nativeCol: number; nativeRow: number } };
+}
+
+export interface ColumnValues {
+	column: string; // 欄位字母 (如: 'H')
+	header: string; // 寫入標題列的文字
+	values: Map<number, ExcelJS.CellValue>; // 行號 → 值，未列出的資料行會清空
+	numFmt?: string; // 數字或日期格式
+}
+
+/**
+ * 串流寫入時對單一工作表的修改：附加欄位與圖片
+ */
+export interface SheetUpdate {
+	worksheetName: string;
+	headerRow: number; // 附加欄位標題所在行
+	columns: ColumnValues[];
+	images: ImageOptions[];
+}
+
+/**
+ * 串流寫入時新增的工作表（同名的既有工作表會被取代），第一列為標題
+ */
+export interface ExtraWorksheet {
+	worksheetName: string;
+	data: any[][];
+}
+
+// ExcelJS 4.4.0 的串流讀取 (WorksheetReader) 呼叫 Column.fromModel(cols) 時少傳 worksheet，
+// 來源的欄寬會遺失；只在串流寫入期間補上參數順序，結束後還原（package.json 固定 ExcelJS 版本）
+const Column: {
+	fromModel(worksheet: unknown, cols?: unknown[]): unknown;
+} = require("exceljs/lib/doc/column");
+const originalFromModel = Column.fromModel;
+let columnFixUsers = 0;
+
+async function withColumnModelFix<T>(task: () => Promise<T>): Promise<T> {
+	if (columnFixUsers++ === 0) {
+		Column.fromModel = (worksheet, cols) =>
+			Array.isArray(worksheet) && cols === undefined
+				? originalFromModel.call(Column, null, worksheet)
+				: originalFromModel.call(Column, worksheet, cols);
+	}
+	try {
+		return await task();
+	} finally {
+		if (--columnFixUsers === 0) {
+			Column.fromModel = originalFromModel;
+		}
+	}
 }
 
 interface WriteResult {
@@ -25,6 +121,9 @@ interface WriteResult {
 	columnCount?: number;
 	worksheetName?: string;
 	imagesInserted?: number;
+	imagesRemoved?: number; // 目標欄位中被取代的舊圖片數
+	uniqueImages?: number; // 實際加入工作簿的圖片數（內容相同的圖片只加入一次）
+	imagesBySheet?: Map<string, number>; // 串流寫入時各工作表插入的圖片數
 	createdAt?: string;
 	updatedAt?: string;
 	error?: Error;
@@ -79,7 +178,6 @@ export default class WriteExcelFile {
 				);
 			}
 
-
 			const workbook = new ExcelJS.Workbook();
 			const worksheet = workbook.addWorksheet(worksheetName);
 
@@ -114,7 +212,7 @@ export default class WriteExcelFile {
 				}
 			});
 
-			await workbook.xlsx.writeFile(filePath);
+			await this.saveWorkbookAtomically(workbook, filePath);
 
 			console.log(
 				`✅ 成功寫入：${path.basename(filePath)} (${data.length} 行)`
@@ -141,6 +239,198 @@ export default class WriteExcelFile {
 		}
 	}
 
+	/**
+	 * 將活頁簿（如由 CSV、JSON 或 .xls 轉換而來）儲存為 .xlsx
+	 * @param {string} filePath - 輸出的 Excel 檔案路徑
+	 * @param {ExcelJS.Workbook} workbook - 活頁簿
+	 * @returns {Promise<WriteResult>} 寫入結果
+	 */
+	async saveWorkbook(
+		filePath: string,
+		workbook: ExcelJS.Workbook
+	): Promise<WriteResult> {
+		try {
+			await this.saveWorkbookAtomically(workbook, filePath);
+			return {
+				success: true,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				createdAt: new Date().toISOString(),
+			};
+		} catch (error) {
+			console.error(`❌ 寫入失敗：${path.basename(filePath)} - ${error}`);
+			return {
+				success: false,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				error: error as Error,
+				createdAt: new Date().toISOString(),
+			};
+		}
+	}
+
+	/**
+	 * 在既有的 Excel 檔案中寫入（或取代）一個工作表，其他工作表保持不變
+	 * @param {string} filePath - Excel 檔案路徑
+	 * @param {any[][]} data - 工作表資料，第一列為標題
+	 * @param {WriteOptions} options - 寫入選項，worksheetName 為必填
+	 * @returns {Promise<WriteResult>} 寫入結果
+	 */
+	async writeWorksheet(
+		filePath: string,
+		data: any[][],
+		options: WriteOptions & { worksheetName: string }
+	): Promise<WriteResult> {
+		const { worksheetName, autoFilter = true, freezeHeader = true } = options;
+
+		try {
+			if (!this.checkFileExists(filePath)) {
+				throw new Error(`Excel 檔案不存在: ${filePath}`);
+			}
+
+			const workbook = new ExcelJS.Workbook();
+			await workbook.xlsx.readFile(filePath);
+
+			const existing = workbook.getWorksheet(worksheetName);
+			if (existing) {
+				workbook.removeWorksheet(existing.id);
+			}
+			const worksheet = workbook.addWorksheet(worksheetName);
+
+			data.forEach((row) => worksheet.addRow(row));
+			if (data.length > 0) {
+				worksheet.getRow(1).font = { bold: true };
+			}
+			if (autoFilter && data.length > 1) {
+				worksheet.autoFilter = {
+					from: "A1",
+					to: { row: data.length, column: data[0].length },
+				};
+			}
+			if (freezeHeader && data.length > 0) {
+				worksheet.views = [{ state: "frozen", ySplit: 1 }];
+			}
+
+			worksheet.columns.forEach((column, index) => {
+				let maxLength = 10;
+				data.forEach((row) => {
+					const length = row[index] ? row[index].toString().length : 0;
+					if (length > maxLength) {
+						maxLength = Math.min(length + 2, 60);
+					}
+				});
+				column.width = maxLength;
+			});
+
+			await this.saveWorkbookAtomically(workbook, filePath);
+
+			return {
+				success: true,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				rowCount: data.length,
+				columnCount: data.length > 0 ? data[0].length : 0,
+				worksheetName: worksheetName,
+				updatedAt: new Date().toISOString(),
+			};
+		} catch (error) {
+			console.error(
+				`❌ 寫入工作表失敗：${worksheetName} - ${path.basename(
+					filePath
+				)} - ${error}`
+			);
+			return {
+				success: false,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				worksheetName: worksheetName,
+				error: error as Error,
+				updatedAt: new Date().toISOString(),
+			};
+		}
+	}
+
+	/**
+	 * 在既有工作表中寫入整欄資料（含標題），其他欄位保持不變
+	 * 標題列以下未指定值的儲存格會清空，重複執行時不會留下上次的舊值
+	 * @param {string} filePath - Excel 檔案路徑
+	 * @param {ColumnValues[]} columns - 要寫入的欄位
+	 * @param {string} worksheetName - 工作表名稱
+	 * @param {number} headerRow - 標題所在行
+	 * @returns {Promise<WriteResult>} 寫入結果
+	 */
+	async writeColumns(
+		filePath: string,
+		columns: ColumnValues[],
+		worksheetName: string,
+		headerRow = 1
+	): Promise<WriteResult> {
+		try {
+			if (!this.checkFileExists(filePath)) {
+				throw new Error(`Excel 檔案不存在: ${filePath}`);
+			}
+
+			const workbook = new ExcelJS.Workbook();
+			await workbook.xlsx.readFile(filePath);
+
+			const worksheet = workbook.getWorksheet(worksheetName);
+			if (!worksheet) {
+				throw new Error(`找不到工作表: ${worksheetName}`);
+			}
+
+			const lastRow = Math.max(
+				worksheet.rowCount,
+				...columns.flatMap((column) => [...column.values.keys()])
+			);
+
+			for (const { column, header, values, numFmt } of columns) {
+				const headerCell = worksheet.getCell(`${column}${headerRow}`);
+				headerCell.value = header;
+				headerCell.font = { bold: true };
+
+				for (let row = headerRow + 1; row <= lastRow; row++) {
+					this.writeColumnCell(
+						worksheet.getCell(`${column}${row}`),
+						values.get(row),
+						numFmt
+					);
+				}
+
+				const worksheetColumn = worksheet.getColumn(column);
+				const width = this.getColumnValuesWidth(header, values);
+				if (!worksheetColumn.width || worksheetColumn.width < width) {
+					worksheetColumn.width = width;
+				}
+			}
+
+			await this.saveWorkbookAtomically(workbook, filePath);
+
+			return {
+				success: true,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				rowCount: lastRow - headerRow,
+				columnCount: columns.length,
+				worksheetName: worksheetName,
+				updatedAt: new Date().toISOString(),
+			};
+		} catch (error) {
+			console.error(
+				`❌ 寫入欄位失敗：${worksheetName} - ${path.basename(
+					filePath
+				)} - ${error}`
+			);
+			return {
+				success: false,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				worksheetName: worksheetName,
+				error: error as Error,
+				updatedAt: new Date().toISOString(),
+			};
+		}
+	}
+
 	/**
 	 * 解析儲存格地址 (如: 'A1' -> {col: 1, row: 1})
 	 */
@@ -162,6 +452,47 @@ export default class WriteExcelFile {
 		return { col, row };
 	}
 
+	/**
+	 * 依檔頭判斷圖片格式
+	 */
+	private detectImageExtension(buffer: Buffer): ImageExtension | null {
+		if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+			return "png";
+		}
+		if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+			return "jpeg";
+		}
+		if (buffer.subarray(0, 4).toString("ascii") === "GIF8") {
+			return "gif";
+		}
+		return null;
+	}
+
+	/**
+	 * 檢查圖片是否有效（記憶體中的圖片或圖片檔案）
+	 */
+	private isValidImage(image: ImageOptions): boolean {
+		if (!image.buffer) {
+			return image.imagePath !== undefined
+				? this.isValidImageFile(image.imagePath)
+				: (console.warn(`圖片沒有指定內容或檔案: ${image.cell}`), false);
+		}
+
+		if (image.buffer.length === 0) {
+			console.warn(`圖片內容為空: ${image.cell}`);
+			return false;
+		}
+		if (image.buffer.length > MAX_IMAGE_SIZE) {
+			console.warn(`圖片過大: ${image.cell} (${image.buffer.length} bytes)`);
+			return false;
+		}
+		if (!image.extension && !this.detectImageExtension(image.buffer)) {
+			console.warn(`無法判斷圖片格式: ${image.cell}`);
+			return false;
+		}
+		return true;
+	}
+
 	/**
 	 * 檢查圖片檔案是否有效
 	 */
@@ -179,7 +510,7 @@ export default class WriteExcelFile {
 			}
 
 			// 檢查檔案大小限制 (10MB)
-			if (stats.size > 10 * 1024 * 1024) {
+			if (stats.size > MAX_IMAGE_SIZE) {
 				console.warn(`圖片檔案過大: ${imagePath} (${stats.size} bytes)`);
 				return false;
 			}
@@ -197,16 +528,98 @@ export default class WriteExcelFile {
 		}
 	}
 
+	/**
+	 * 寫入同資料夾的暫存檔並驗證，通過後再更名取代目標檔
+	 * 寫入中斷或驗證失敗時目標檔保持原狀
+	 * @private
+	 */
+	private async saveWorkbookAtomically(
+		workbook: ExcelJS.Workbook,
+		filePath: string
+	): Promise<void> {
+		const tempPath = getTempPath(filePath);
+		try {
+			await workbook.xlsx.writeFile(tempPath);
+			if (!(await this.validateExcelFile(tempPath))) {
+				throw new Error(`寫入的檔案無法讀取：${path.basename(filePath)}`);
+			}
+			fs.renameSync(tempPath, filePath);
+		} finally {
+			if (fs.existsSync(tempPath)) {
+				fs.unlinkSync(tempPath);
+			}
+		}
+	}
+
+	/**
+	 * 移除錨定在指定欄位的圖片，重複執行時才不會疊加在舊圖片上
+	 * ExcelJS 沒有移除圖片的 API，直接過濾工作表的 _media
+	 * @private
+	 * @returns {number} 移除的圖片數
+	 */
+	private removeImagesInColumns(
+		worksheet: ExcelJS.Worksheet,
+		columns: Set<number>
+	): number {
+		const sheet = worksheet as unknown as { _media: WorksheetMedium[] };
+		const before = sheet._media.length;
+		sheet._media = sheet._media.filter(
+			(medium) =>
+				!(
+					medium.type === "image" &&
+					medium.range &&
+					columns.has(medium.range.tl.nativeCol + 1)
+				)
+		);
+		return before - sheet._media.length;
+	}
+
+	/**
+	 * 刪除沒有任何工作表引用的圖片，避免重複執行後檔案越來越大
+	 * imageId 是 workbook.media 的索引，刪除後需要重新編號
+	 * @private
+	 */
+	private pruneUnusedMedia(workbook: ExcelJS.Workbook): void {
+		const book = workbook as unknown as { media: unknown[] };
+		const sheets = workbook.worksheets.map(
+			(worksheet) => worksheet as unknown as { _media: WorksheetMedium[] }
+		);
+
+		const used = new Set<number>();
+		for (const sheet of sheets) {
+			for (const medium of sheet._media) {
+				used.add(Number(medium.imageId));
+			}
+		}
+		if (used.size === book.media.length) {
+			return;
+		}
+
+		const remap = new Map<number, number>();
+		book.media = book.media.filter((_, index) => {
+			if (!used.has(index)) {
+				return false;
+			}
+			remap.set(index, remap.size);
+			return true;
+		});
+		for (const sheet of sheets) {
+			for (const medium of sheet._media) {
+				medium.imageId = remap.get(Number(medium.imageId)) as number;
+			}
+		}
+	}
+
 	/**
 	 * 安全地插入圖片到 Excel 檔案
+	 * 目標欄位中原有的圖片會被取代，重複執行結果相同
+	 * 先寫入暫存檔並驗證再取代原檔，失敗時原檔不會被修改
 	 */
 	async insertImagesSafely(
 		excelPath: string,
 		images: ImageOptions[],
 		worksheetName?: string
 	): Promise<WriteResult> {
-		let backupPath: string | null = null;
-
 		try {
 			console.log(`🖼️ 開始安全插入 ${images.length} 張圖片到: ${excelPath}`);
 
@@ -215,9 +628,7 @@ export default class WriteExcelFile {
 			}
 
 			// 1. 過濾有效圖片
-			const validImages = images.filter((img) =>
-				this.isValidImageFile(img.imagePath)
-			);
+			const validImages = images.filter((img) => this.isValidImage(img));
 			console.log(`📊 有效圖片數量: ${validImages.length}/${images.length}`);
 
 			if (validImages.length === 0) {
@@ -245,45 +656,50 @@ export default class WriteExcelFile {
 
 			console.log(`📋 使用工作表: ${worksheet.name}`);
 
-			// 4. 批次插入圖片
-			let insertedCount = 0;
-			const batchSize = 5; // 每批處理5張圖片
-
-			for (let i = 0; i < validImages.length; i += batchSize) {
-				const batch = validImages.slice(
-					i,
-					Math.min(i + batchSize, validImages.length)
-				);
+			// 4. 移除目標欄位中的舊圖片
+			const imagesRemoved = this.removeImagesInColumns(
+				worksheet,
+				new Set(validImages.map((img) => this.parseCellAddress(img.cell).col))
+			);
+			if (imagesRemoved > 0) {
+				console.log(`🧽 已移除目標欄位中的 ${imagesRemoved} 張舊圖片`);
+			}
 
-				for (const imageOption of batch) {
-					try {
-						const success = await this.insertSingleImage(
-							workbook,
-							worksheet,
-							imageOption
-						);
-						if (success) {
-							insertedCount++;
-						}
-					} catch (imgError) {
-						console.error(
-							`插入圖片失敗: ${imageOption.imagePath} - ${imgError}`
-						);
+			// 5. 插入圖片（只修改記憶體中的工作簿，儲存前不需要等待）
+			// 內容相同的圖片共用同一個 imageId，工作簿中只存一份
+			const imageIds = new Map<string, number>();
+			let insertedCount = 0;
+			for (const imageOption of validImages) {
+				try {
+					const success = await this.insertSingleImage(
+						workbook,
+						worksheet,
+						imageOption,
+						imageIds
+					);
+					if (success) {
+						insertedCount++;
 					}
-				}
-
-				// 批次間稍作休息
-				if (i + batchSize < validImages.length) {
-					await new Promise((resolve) => setTimeout(resolve, 300));
+				} catch (imgError) {
+					console.error(
+						`插入圖片失敗: ${
+							imageOption.imagePath || imageOption.cell
+						} - ${imgError}`
+					);
 				}
 			}
 
-			// 5. 儲存檔案
+			// 6. 寫入暫存檔、驗證後取代原檔
 			console.log(`💾 正在儲存修改後的檔案...`);
-			await workbook.xlsx.writeFile(excelPath);
+			this.pruneUnusedMedia(workbook);
+			await this.saveWorkbookAtomically(workbook, excelPath);
 
 			console.log(
-				`🎉 圖片插入完成: ${insertedCount}/${validImages.length} 張成功`
+				`🎉 圖片插入完成: ${insertedCount}/${validImages.length} 張成功${
+					imageIds.size < insertedCount
+						? `（內容相同的圖片合併為 ${imageIds.size} 張）`
+						: ""
+				}`
 			);
 
 			return {
@@ -291,20 +707,15 @@ export default class WriteExcelFile {
 				fileName: path.basename(excelPath),
 				filePath: excelPath,
 				imagesInserted: insertedCount,
+				imagesRemoved,
+				uniqueImages: imageIds.size,
 				worksheetName: worksheet.name,
 				updatedAt: new Date().toISOString(),
 			};
 		} catch (error) {
 			console.error(`❌ 圖片插入失敗: ${error}`);
-
-			// 嘗試恢復備份
-			if (backupPath && this.checkFileExists(backupPath)) {
-				try {
-					fs.copyFileSync(backupPath, excelPath);
-					console.log(`🔄 已從備份恢復原始檔案`);
-				} catch (restoreError) {
-					console.error(`恢復備份失敗: ${restoreError}`);
-				}
+			if (this.checkFileExists(excelPath)) {
+				console.log(`🔄 原始檔案未被修改: ${path.basename(excelPath)}`);
 			}
 
 			return {
@@ -317,70 +728,718 @@ export default class WriteExcelFile {
 		}
 	}
 
+	/**
+	 * 以串流複製活頁簿，同時寫入附加欄位、圖片與新增的工作表，不將整個活頁簿載入記憶體
+	 * 保留儲存格的值與樣式、欄寬與列高；合併儲存格、超連結、凍結窗格、既有圖片與資料驗證不會保留，來源有這些功能時會顯示警告
+	 * 圖片一律以 oneCell 錨定；先寫入暫存檔並驗證再取代目標檔，失敗時目標檔不會被修改
+	 * @param {string} sourcePath - 來源 .xlsx 檔案（不會被修改）
+	 * @param {string} filePath - 輸出的 .xlsx 檔案
+	 * @param {SheetUpdate[]} updates - 各工作表的修改
+	 * @param {ExtraWorksheet[]} extraSheets - 新增的工作表，依序寫在最後
+	 * @returns {Promise<WriteResult>} 寫入結果，imagesBySheet 為各工作表插入的圖片數
+	 */
+	async writeWorkbookStream(
+		sourcePath: string,
+		filePath: string,
+		updates: SheetUpdate[],
+		extraSheets: ExtraWorksheet[] = []
+	): Promise<WriteResult> {
+		return withColumnModelFix(() =>
+			this.copyWorkbookStream(sourcePath, filePath, updates, extraSheets)
+		);
+	}
+
+	private async copyWorkbookStream(
+		sourcePath: string,
+		filePath: string,
+		updates: SheetUpdate[],
+		extraSheets: ExtraWorksheet[]
+	): Promise<WriteResult> {
+		const tempPath = getTempPath(filePath);
+		try {
+			console.log(`🌊 以串流寫入：${path.basename(filePath)}`);
+			const unsupported = await findStreamUnsupportedFeatures(sourcePath);
+
+			const writer = new StreamWorkbookWriter(tempPath);
+			const reader = new ExcelJS.stream.xlsx.WorkbookReader(sourcePath, {
+				worksheets: "emit",
+				sharedStrings: "cache",
+				styles: "cache",
+				hyperlinks: "ignore",
+				entries: "ignore",
+			});
+
+			const pending = new Map(
+				updates.map((update) => [update.worksheetName, update])
+			);
+			const replaced = new Set(
+				extraSheets.map(({ worksheetName }) => worksheetName)
+			);
+			// 內容相同的圖片共用同一個 imageId（跨工作表）
+			const imageIds = new Map<string, number>();
+			const imagesBySheet = new Map<string, number>();
+
+			for await (const source of reader) {
+				// 型別宣告中沒有 name，未讀取的工作表會直接略過
+				const { name } = source as unknown as { name: string };
+				if (replaced.has(name)) {
+					continue;
+				}
+				const lost = unsupported.get(name);
+				if (lost) {
+					console.warn(
+						`⚠️ 工作表 ${name} 的${lost.join("、")}在串流模式下不會保留`
+					);
+				}
+				const update = pending.get(name);
+				pending.delete(name);
+				const inserted = await this.copyWorksheetStream(
+					writer,
+					source,
+					name,
+					update,
+					imageIds
+				);
+				if (update) {
+					imagesBySheet.set(name, inserted);
+				}
+			}
+			if (pending.size > 0) {
+				throw new Error(`找不到工作表: ${[...pending.keys()].join(", ")}`);
+			}
+
+			for (const { worksheetName, data } of extraSheets) {
+				this.writeExtraWorksheetStream(writer, worksheetName, data);
+			}
+
+			await writer.commit();
+			if (!(await this.validateExcelFileStream(tempPath))) {
+				throw new Error(`寫入的檔案無法讀取：${path.basename(filePath)}`);
+			}
+			fs.renameSync(tempPath, filePath);
+
+			const imagesInserted = [...imagesBySheet.values()].reduce(
+				(sum, count) => sum + count,
+				0
+			);
+			console.log(
+				`🎉 串流寫入完成：${imagesInserted} 張圖片${
+					imageIds.size < imagesInserted
+						? `（內容相同的圖片合併為 ${imageIds.size} 張）`
+						: ""
+				}`
+			);
+
+			return {
+				success: true,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				imagesInserted,
+				uniqueImages: imageIds.size,
+				imagesBySheet,
+				updatedAt: new Date().toISOString(),
+			};
+		} catch (error) {
+			console.error(`❌ 串流寫入失敗: ${error}`);
+			return {
+				success: false,
+				fileName: path.basename(filePath),
+				filePath: filePath,
+				error: error as Error,
+				updatedAt: new Date().toISOString(),
+			};
+		} finally {
+			if (fs.existsSync(tempPath)) {
+				fs.unlinkSync(tempPath);
+			}
+		}
+	}
+
+	/**
+	 * 串流複製單一工作表，依 update 寫入附加欄位與圖片
+	 * @private
+	 * @returns {Promise<number>} 插入的圖片數
+	 */
+	private async copyWorksheetStream(
+		writer: StreamWorkbookWriter,
+		source: ExcelJS.stream.xlsx.WorksheetReader,
+		name: string,
+		update: SheetUpdate | undefined,
+		imageIds: Map<string, number>
+	): Promise<number> {
+		const target = writer.addWorksheet(name);
+
+		// 圖片依行號分組並先讀取內容，欄寬需在第一列寫出前決定
+		const images = new Map<
+			number,
+			{
+				option: ImageOptions;
+				col: number;
+				buffer: Buffer;
+				extension: ImageExtension;
+			}[]
+		>();
+		for (const option of update?.images ?? []) {
+			if (!this.isValidImage(option)) {
+				continue;
+			}
+			try {
+				const { col, row } = this.parseCellAddress(option.cell);
+				const { buffer, extension } = this.loadImage(option);
+				images.set(row, [
+					...(images.get(row) ?? []),
+					{ option, col, buffer, extension },
+				]);
+			} catch (error) {
+				console.error(
+					`插入圖片失敗: ${option.imagePath || option.cell} - ${error}`
+				);
+			}
+		}
+
+		// 來源中不存在（空白）但需要寫入的行
+		const extraRows = update
+			? [
+					...new Set([
+						update.headerRow,
+						...update.columns.flatMap(({ values }) => [...values.keys()]),
+						...images.keys(),
+					]),
+			  ].sort((a, b) => a - b)
+			: [];
+
+		// 欄寬：來源欄寬 → 附加欄位內容 → fit 為 image 時容納圖片
+		const setColumnWidths = () => {
+			const { columns } = source as unknown as {
+				columns: ExcelJS.Column[] | null;
+			};
+			(columns ?? []).forEach((column, index) => {
+				if (column?.width) {
+					target.getColumn(index + 1).width = column.width;
+				}
+				if (column?.hidden) {
+					target.getColumn(index + 1).hidden = true;
+				}
+			});
+			for (const { column, header, values } of update?.columns ?? []) {
+				const worksheetColumn = target.getColumn(column);
+				const width = this.getColumnValuesWidth(header, values);
+				if (!worksheetColumn.width || worksheetColumn.width < width) {
+					worksheetColumn.width = width;
+				}
+			}
+			for (const entries of images.values()) {
+				for (const { option, col, buffer, extension } of entries) {
+					if (option.fit === "image") {
+						this.placeImage(
+							target.getColumn(col),
+							{ height: 0 },
+							option,
+							buffer,
+							extension
+						);
+					}
+				}
+			}
+		};
+
+		const anchors: StreamImageAnchor[] = [];
+		const writeRow = (rowNumber: number, sourceRow?: ExcelJS.Row) => {
+			const row = target.getRow(rowNumber);
+			if (sourceRow) {
+				if (sourceRow.height) {
+					row.height = sourceRow.height;
+				}
+				if (sourceRow.hidden) {
+					row.hidden = true;
+				}
+				sourceRow.eachCell((cell, col) => {
+					const targetCell = row.getCell(col);
+					targetCell.value = this.copyCellValue(cell.value);
+					targetCell.style = cell.style;
+				});
+			}
+
+			for (const { column, header, values, numFmt } of update?.columns ?? []) {
+				if (rowNumber === update?.headerRow) {
+					const headerCell = row.getCell(column);
+					headerCell.value = header;
+					headerCell.font = { bold: true };
+				} else if (update && rowNumber > update.headerRow) {
+					this.writeColumnCell(
+						row.getCell(column),
+						values.get(rowNumber),
+						numFmt
+					);
+				}
+			}
+
+			for (const { option, col, buffer, extension } of images.get(rowNumber) ??
+				[]) {
+				try {
+					const key = this.getImageKey(buffer, extension);
+					let imageId = imageIds.get(key);
+					if (imageId === undefined) {
+						imageId = writer.addImage(buffer, extension);
+						imageIds.set(key, imageId);
+					}
+					const placement = this.placeImage(
+						target.getColumn(col),
+						row,
+						option,
+						buffer,
+						extension
+					);
+					anchors.push({
+						imageId,
+						col: col - 1,
+						colOff: placement.colOff,
+						row: rowNumber - 1,
+						rowOff: placement.rowOff,
+						width: Math.round(placement.size.width * EMU_PER_PIXEL),
+						height: Math.round(placement.size.height * EMU_PER_PIXEL),
+					});
+				} catch (error) {
+					console.error(
+						`插入圖片失敗: ${option.imagePath || option.cell} - ${error}`
+					);
+				}
+			}
+			images.delete(rowNumber);
+
+			row.commit();
+		};
+
+		let started = false;
+		let next = 0; // extraRows 中下一個待寫入的行
+		for await (const sourceRow of source) {
+			if (!started) {
+				setColumnWidths();
+				started = true;
+			}
+			while (next < extraRows.length && extraRows[next] < sourceRow.number) {
+				writeRow(extraRows[next++]);
+			}
+			if (extraRows[next] === sourceRow.number) {
+				next++;
+			}
+			writeRow(sourceRow.number, sourceRow);
+		}
+		if (!started) {
+			setColumnWidths();
+		}
+		while (next < extraRows.length) {
+			writeRow(extraRows[next++]);
+		}
+
+		writer.addImages(target, anchors);
+		target.commit();
+		return anchors.length;
+	}
+
+	/**
+	 * 串流讀取時共用公式只有第一格帶有公式，其餘儲存格改寫為計算結果
+	 * @private
+	 */
+	private copyCellValue(value: ExcelJS.CellValue): ExcelJS.CellValue {
+		if (
+			value &&
+			typeof value === "object" &&
+			("formula" in value || "sharedFormula" in value) &&
+			!(value as ExcelJS.CellFormulaValue).formula
+		) {
+			return ((value as ExcelJS.CellFormulaValue).result ??
+				null) as ExcelJS.CellValue;
+		}
+		return value;
+	}
+
+	/**
+	 * 串流寫入新增的工作表（與 writeWorksheet 相同的格式：標題粗體、凍結標題列、篩選）
+	 * @private
+	 */
+	private writeExtraWorksheetStream(
+		writer: StreamWorkbookWriter,
+		worksheetName: string,
+		data: any[][]
+	): void {
+		const worksheet = writer.addWorksheet(worksheetName, {
+			views: data.length > 0 ? [{ state: "frozen", ySplit: 1 }] : [],
+		});
+		if (data.length > 1) {
+			worksheet.autoFilter = {
+				from: "A1",
+				to: { row: data.length, column: data[0].length },
+			};
+		}
+
+		(data[0] ?? []).forEach((_, index) => {
+			let maxLength = 10;
+			data.forEach((row) => {
+				const length = row[index] ? row[index].toString().length : 0;
+				if (length > maxLength) {
+					maxLength = Math.min(length + 2, 60);
+				}
+			});
+			worksheet.getColumn(index + 1).width = maxLength;
+		});
+
+		data.forEach((values, index) => {
+			const row = worksheet.addRow(values);
+			if (index === 0) {
+				row.font = { bold: true };
+			}
+			row.commit();
+		});
+		worksheet.commit();
+	}
+
+	/**
+	 * 寫入附加欄位的儲存格，超連結以藍色底線顯示
+	 * @private
+	 */
+	private writeColumnCell(
+		cell: ExcelJS.Cell,
+		value: ExcelJS.CellValue | undefined,
+		numFmt?: string
+	): void {
+		cell.value = value === undefined ? null : value;
+		if (value !== undefined && numFmt) {
+			cell.numFmt = numFmt;
+		}
+		if (value && typeof value === "object" && "hyperlink" in value) {
+			cell.font = { color: { argb: "FF0563C1" }, underline: true };
+		}
+	}
+
+	/**
+	 * 依標題與內容長度計算附加欄位的欄寬（最多 60 字元）
+	 * @private
+	 */
+	private getColumnValuesWidth(
+		header: string,
+		values: Map<number, ExcelJS.CellValue>
+	): number {
+		let maxLength = header.length + 2;
+		for (const value of values.values()) {
+			const text =
+				value instanceof Date
+					? 19
+					: value && typeof value === "object" && "text" in value
+					? String(value.text).length
+					: value === null || value === undefined
+					? 0
+					: String(value).length;
+			maxLength = Math.max(maxLength, Math.min(text + 2, 60));
+		}
+		return maxLength;
+	}
+
+	/**
+	 * 讀取圖片原始尺寸 (px)，無法判斷時回傳 null
+	 */
+	private readImageSize(
+		buffer: Buffer,
+		extension: ImageExtension
+	): { width: number; height: number } | null {
+		try {
+			switch (extension) {
+				case "png":
+					// IHDR 緊接在檔頭之後
+					return {
+						width: buffer.readUInt32BE(16),
+						height: buffer.readUInt32BE(20),
+					};
+				case "gif":
+					return {
+						width: buffer.readUInt16LE(6),
+						height: buffer.readUInt16LE(8),
+					};
+				case "jpeg": {
+					// 找 SOF 區段 (0xC0-0xCF，不含 0xC4 DHT、0xC8 JPG、0xCC DAC)
+					let offset = 2;
+					while (offset + 9 < buffer.length && buffer[offset] === 0xff) {
+						const marker = buffer[offset + 1];
+						if (
+							marker >= 0xc0 &&
+							marker <= 0xcf &&
+							![0xc4, 0xc8, 0xcc].includes(marker)
+						) {
+							return {
+								width: buffer.readUInt16BE(offset + 7),
+								height: buffer.readUInt16BE(offset + 5),
+							};
+						}
+						offset += 2 + buffer.readUInt16BE(offset + 2);
+					}
+					return null;
+				}
+			}
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * 計算圖片顯示尺寸：保持比例時依原始尺寸縮放到 width × height 以內
+	 */
+	private getDisplaySize(
+		box: { width: number; height: number },
+		intrinsic: { width: number; height: number } | null,
+		maintainAspectRatio: boolean
+	): { width: number; height: number } {
+		if (
+			!maintainAspectRatio ||
+			!intrinsic ||
+			!intrinsic.width ||
+			!intrinsic.height
+		) {
+			return box;
+		}
+		const scale = Math.min(
+			box.width / intrinsic.width,
+			box.height / intrinsic.height
+		);
+		return {
+			width: Math.round(intrinsic.width * scale),
+			height: Math.round(intrinsic.height * scale),
+		};
+	}
+
+	/**
+	 * 欄寬（字元數）與像素互換，依 Excel 預設字型 (Calibri 11) 的公式
+	 */
+	private columnWidthToPixels(width: number | undefined): number {
+		return width === undefined
+			? DEFAULT_COLUMN_WIDTH_PX
+			: Math.floor(width * 7 + 5);
+	}
+
+	private pixelsToColumnWidth(pixels: number): number {
+		return Math.ceil(((pixels - 5) / 7) * 100) / 100;
+	}
+
+	/**
+	 * 列高（點）與像素互換 (96 DPI)
+	 */
+	private rowHeightToPixels(height: number | undefined): number {
+		return height === undefined
+			? DEFAULT_ROW_HEIGHT_PX
+			: Math.round((height * 96) / 72);
+	}
+
+	/**
+	 * 取得圖片內容與格式，記憶體中的圖片優先
+	 */
+	private loadImage(imageOption: ImageOptions): {
+		buffer: Buffer;
+		extension: ImageExtension;
+	} {
+		if (imageOption.buffer) {
+			const extension =
+				imageOption.extension || this.detectImageExtension(imageOption.buffer);
+			if (!extension) {
+				throw new Error("無法判斷圖片格式");
+			}
+			return { buffer: imageOption.buffer, extension };
+		}
+
+		const imagePath = imageOption.imagePath as string;
+		const ext = path.extname(imagePath).toLowerCase().replace(".", "");
+
+		// 標準化副檔名
+		let extension: ImageExtension;
+		switch (ext) {
+			case "jpg":
+			case "jpeg":
+				extension = "jpeg";
+				break;
+			case "png":
+				extension = "png";
+				break;
+			case "gif":
+				extension = "gif";
+				break;
+			default:
+				throw new Error(`不支援的圖片格式: ${ext}`);
+		}
+
+		return { buffer: fs.readFileSync(imagePath), extension };
+	}
+
 	/**
 	 * 插入單張圖片
+	 * @param {Map<string, number>} imageIds - 圖片內容雜湊對應的 imageId，相同內容只加入工作簿一次
 	 */
 	private async insertSingleImage(
 		workbook: ExcelJS.Workbook,
 		worksheet: ExcelJS.Worksheet,
-		imageOption: ImageOptions
+		imageOption: ImageOptions,
+		imageIds: Map<string, number>
 	): Promise<boolean> {
 		try {
-			const {
-				imagePath,
-				cell,
-				width = 50, // 較小的預設尺寸
-				height = 50,
-				maintainAspectRatio = true,
-			} = imageOption;
+			const { cell, editAs = "oneCell" } = imageOption;
 
 			// 解析儲存格位置
 			const cellInfo = this.parseCellAddress(cell);
 
-			// 讀取圖片檔案
-			const imageBase64 = fs.readFileSync(imagePath, { encoding: "base64" });
-			const ext = path.extname(imagePath).toLowerCase().replace(".", "");
-
-			// 標準化副檔名
-			let standardExt: "jpeg" | "png" | "gif";
-			switch (ext) {
-				case "jpg":
-				case "jpeg":
-					standardExt = "jpeg";
-					break;
-				case "png":
-					standardExt = "png";
-					break;
-				case "gif":
-					standardExt = "gif";
-					break;
-				default:
-					throw new Error(`不支援的圖片格式: ${ext}`);
+			// 加入圖片到工作簿（內容相同時沿用既有的 imageId）
+			const { buffer, extension } = this.loadImage(imageOption);
+			const key = this.getImageKey(buffer, extension);
+			let imageId = imageIds.get(key);
+			if (imageId === undefined) {
+				// ExcelJS 的型別宣告把 Buffer 定義為 ArrayBuffer，實際接受 Node.js Buffer
+				imageId = workbook.addImage({
+					buffer: buffer as unknown as ExcelJS.Image["buffer"],
+					extension,
+				});
+				imageIds.set(key, imageId);
 			}
 
-			// 加入圖片到工作簿
-			const imageId = workbook.addImage({
-				base64: imageBase64,
-				extension: standardExt,
-			});
+			const placement = this.placeImage(
+				worksheet.getColumn(cellInfo.col),
+				worksheet.getRow(cellInfo.row),
+				imageOption,
+				buffer,
+				extension
+			);
 
-			// 設置圖片位置和大小
+			// 以原生座標 (EMU) 指定偏移，ExcelJS 的小數欄列換算不準確
 			const imageConfig = {
 				tl: {
-					col: cellInfo.col - 1,
-					row: cellInfo.row - 1,
-				},
-				ext: {
-					width: maintainAspectRatio ? width : width,
-					height: maintainAspectRatio ? width : height, // 保持比例時使用相同值
+					nativeCol: cellInfo.col - 1,
+					nativeColOff: placement.colOff,
+					nativeRow: cellInfo.row - 1,
+					nativeRowOff: placement.rowOff,
 				},
+				ext: placement.size,
+				editAs,
 			};
 
 			// 插入圖片
-			worksheet.addImage(imageId, imageConfig);
+			worksheet.addImage(
+				imageId,
+				imageConfig as unknown as ExcelJS.ImagePosition & { editAs: string }
+			);
+			return true;
+		} catch (error) {
+			console.error(
+				`插入圖片失敗: ${imageOption.imagePath || imageOption.cell} - ${error}`
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * 圖片內容的雜湊，內容相同的圖片只加入工作簿一次
+	 */
+	private getImageKey(buffer: Buffer, extension: ImageExtension): string {
+		return `${extension}:${crypto
+			.createHash("sha256")
+			.update(buffer)
+			.digest("hex")}`;
+	}
+
+	/**
+	 * 計算圖片大小與儲存格內的偏移，依 fit 加大欄寬列高或縮放圖片
+	 * @returns 顯示尺寸 (px) 與偏移 (EMU)
+	 */
+	private placeImage(
+		column: Pick<ExcelJS.Column, "width">,
+		row: Pick<ExcelJS.Row, "height">,
+		imageOption: ImageOptions,
+		buffer: Buffer,
+		extension: ImageExtension
+	): {
+		size: { width: number; height: number };
+		colOff: number;
+		rowOff: number;
+	} {
+		const {
+			width = 50, // 較小的預設尺寸
+			height = 50,
+			maintainAspectRatio = true,
+			fit = "none",
+			padding = 0,
+		} = imageOption;
+
+		// 計算圖片大小，依 fit 調整欄寬列高或縮放圖片
+		const intrinsic = this.readImageSize(buffer, extension);
+		let size = this.getDisplaySize(
+			{ width, height },
+			intrinsic,
+			maintainAspectRatio
+		);
+
+		if (fit === "image") {
+			// 只加大不縮小，同一欄其他圖片或原本較寬的欄位不受影響
+			const columnPixels = size.width + padding * 2;
+			if (columnPixels > this.columnWidthToPixels(column.width)) {
+				column.width = this.pixelsToColumnWidth(columnPixels);
+			}
+			const rowPixels = size.height + padding * 2;
+			if (rowPixels > this.rowHeightToPixels(row.height)) {
+				row.height = (rowPixels * 72) / 96;
+			}
+		} else if (fit === "cell") {
+			size = this.getDisplaySize(
+				{
+					width: Math.max(
+						1,
+						this.columnWidthToPixels(column.width) - padding * 2
+					),
+					height: Math.max(1, this.rowHeightToPixels(row.height) - padding * 2),
+				},
+				intrinsic || size,
+				maintainAspectRatio
+			);
+		}
+
+		// 在儲存格中置中（none 時放在左上角）
+		const offsetX =
+			fit === "none"
+				? 0
+				: Math.max(
+						0,
+						(this.columnWidthToPixels(column.width) - size.width) / 2
+				  );
+		const offsetY =
+			fit === "none"
+				? 0
+				: Math.max(0, (this.rowHeightToPixels(row.height) - size.height) / 2);
+
+		return {
+			size,
+			colOff: Math.round(offsetX * EMU_PER_PIXEL),
+			rowOff: Math.round(offsetY * EMU_PER_PIXEL),
+		};
+	}
+
+	/**
+	 * 以串流讀過所有工作表驗證檔案完整性，不將活頁簿載入記憶體
+	 * @private
+	 */
+	private async validateExcelFileStream(filePath: string): Promise<boolean> {
+		try {
+			console.log(`🔍 驗證 Excel 檔案（串流）: ${filePath}`);
+
+			const reader = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+				worksheets: "emit",
+				sharedStrings: "cache",
+				styles: "ignore",
+				hyperlinks: "ignore",
+				entries: "ignore",
+			});
+			for await (const worksheet of reader) {
+				for await (const _row of worksheet) {
+					// 只需要確認每一列都能解析
+				}
+			}
+
+			console.log(`✅ Excel 檔案驗證通過`);
 			return true;
 		} catch (error) {
-			console.error(`插入圖片失敗: ${imageOption.imagePath} - ${error}`);
+			console.error(`❌ Excel 檔案驗證失敗: ${error}`);
 			return false;
 		}
 	}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import QRCodeService from "./qrcode";
+import { findStreamUnsupportedFeatures } from "./xlsx_features";
+
+let tempDir: string;
+
+before(() => {
+	tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "xlsx-features-test-"));
+});
+
+after(() => {
+	fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+test("findStreamUnsupportedFeatures 依工作表列出串流寫入不會保留的功能", async () => {
+	const filePath = path.join(tempDir, "features.xlsx");
+	const workbook = new ExcelJS.Workbook();
+
+	const full = workbook.addWorksheet("名單 & 備註", {
+		views: [{ state: "frozen", ySplit: 1 }],
+	});
+	full.addRow(["id", "網站"]);
+	full.addRow(["XSG0001", { text: "連結", hyperlink: "https://example.com" }]);
+	full.mergeCells("A3:B3");
+	full.getCell("A4").dataValidation = {
+		type: "list",
+		allowBlank: true,
+		formulae: ['"A,B"'],
+	};
+	const imageId = workbook.addImage({
+		buffer: (await new QRCodeService().renderQRCode(
+			"XSG0001"
+		)) as unknown as ExcelJS.Image["buffer"],
+		extension: "png",
+	});
+	full.addImage(imageId, "C2:D3");
+
+	workbook.addWorksheet("純文字").addRow(["只有值"]);
+	await workbook.xlsx.writeFile(filePath);
+
+	const features = await findStreamUnsupportedFeatures(filePath);
+	assert.deepEqual([...features.keys()], ["名單 & 備註"]);
+	assert.deepEqual(features.get("名單 & 備註"), [
+		"合併儲存格",
+		"超連結",
+		"凍結窗格",
+		"資料驗證",
+		"圖片或圖表",
+	]);
+});
@@ -0,0 +1,122 @@
+import fs from "fs";
+import JSZip from "jszip";
+import path from "path";
+
+// 串流寫入（stream_workbook_writer）不會複製的工作表功能，以工作表 XML 中的標籤辨識
+const STREAM_UNSUPPORTED_FEATURES: [string, RegExp][] = [
+	["合併儲存格", /<(?:\w+:)?mergeCell\b/],
+	["超連結", /<(?:\w+:)?hyperlink\b/],
+	["凍結窗格", /<(?:\w+:)?pane\b[^>]*\bstate="frozen(?:Split)?"/],
+	["資料驗證", /<(?:\w+:)?dataValidation\b/],
+	["圖片或圖表", /<(?:\w+:)?drawing\b/],
+];
+
+// 區塊之間保留的字元數，避免標籤剛好被切開（比最長的 pane 標籤長）
+const CHUNK_OVERLAP = 512;
+
+/**
+ * 讀取 XML 標籤的屬性
+ * @param {string} tag - 完整的開始標籤
+ * @returns {Record<string, string>} 屬性（名稱保留命名空間前綴，值已解碼實體）
+ */
+function parseAttributes(tag: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+		attributes[match[1]] = match[2]
+			.replace(/&lt;/g, "<")
+			.replace(/&gt;/g, ">")
+			.replace(/&quot;/g, '"')
+			.replace(/&apos;/g, "'")
+			.replace(/&amp;/g, "&");
+	}
+	return attributes;
+}
+
+/**
+ * 依 xl/workbook.xml 與其關聯檔找出每個工作表的 XML 路徑
+ * @param {JSZip} zip - 活頁簿
+ * @returns {Promise<Map<string, string>>} 工作表名稱 → 壓縮檔中的路徑
+ */
+async function findWorksheetEntries(zip: JSZip): Promise<Map<string, string>> {
+	const workbookXml = await zip.file("xl/workbook.xml")?.async("string");
+	const relsXml = await zip.file("xl/_rels/workbook.xml.rels")?.async("string");
+	if (!workbookXml || !relsXml) {
+		throw new Error("不是有效的 .xlsx 檔案：缺少 xl/workbook.xml");
+	}
+
+	const targets = new Map<string, string>();
+	for (const [tag] of relsXml.matchAll(/<(?:\w+:)?Relationship\b[^>]*>/g)) {
+		const { Id, Target } = parseAttributes(tag);
+		if (Id && Target) {
+			// Target 可能是相對於 xl/ 的路徑或以 / 開頭的絕對路徑
+			targets.set(
+				Id,
+				Target.startsWith("/") ? Target.slice(1) : path.posix.join("xl", Target)
+			);
+		}
+	}
+
+	const entries = new Map<string, string>();
+	for (const [tag] of workbookXml.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)) {
+		const attributes = parseAttributes(tag);
+		const target = targets.get(attributes["r:id"]);
+		if (attributes.name && target) {
+			entries.set(attributes.name, target);
+		}
+	}
+	return entries;
+}
+
+/**
+ * 逐區塊解壓工作表 XML 並比對功能標籤，不會將整個工作表解壓到記憶體
+ * @param {JSZip.JSZipObject} entry - 工作表 XML
+ * @returns {Promise<string[]>} 找到的功能名稱
+ */
+function scanWorksheetEntry(entry: JSZip.JSZipObject): Promise<string[]> {
+	return new Promise((resolve, reject) => {
+		const found = new Set<string>();
+		let tail = "";
+		entry
+			.nodeStream("nodebuffer")
+			.on("data", (chunk: Buffer) => {
+				const text = tail + chunk.toString("utf8");
+				for (const [feature, pattern] of STREAM_UNSUPPORTED_FEATURES) {
+					if (!found.has(feature) && pattern.test(text)) {
+						found.add(feature);
+					}
+				}
+				tail = text.slice(-CHUNK_OVERLAP);
+			})
+			.on("error", reject)
+			.on("end", () =>
+				resolve(
+					STREAM_UNSUPPORTED_FEATURES.map(([feature]) => feature).filter(
+						(feature) => found.has(feature)
+					)
+				)
+			);
+	});
+}
+
+/**
+ * 找出串流寫入時不會保留的工作表功能（合併儲存格、超連結、凍結窗格、資料驗證、原有的圖片）
+ * @param {string} filePath - .xlsx 檔案路徑
+ * @returns {Promise<Map<string, string[]>>} 工作表名稱 → 會遺失的功能，沒有這些功能的工作表不列入
+ */
+export async function findStreamUnsupportedFeatures(
+	filePath: string
+): Promise<Map<string, string[]>> {
+	const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+	const result = new Map<string, string[]>();
+	for (const [name, entryPath] of await findWorksheetEntries(zip)) {
+		const entry = zip.file(entryPath);
+		if (!entry) {
+			continue;
+		}
+		const features = await scanWorksheetEntry(entry);
+		if (features.length > 0) {
+			result.set(name, features);
+		}
+	}
+	return result;
+}
@@ -0,0 +1,73 @@
+import fs from "fs";
+import JSZip from "jszip";
+import path from "path";
+
+export interface ZipEntry {
+	name: string; // 壓縮檔中的路徑，以 / 分隔子資料夾
+	data: Buffer | string; // 檔案內容
+}
+
+export interface ZipResult {
+	success: boolean;
+	filePath?: string;
+	entryCount?: number; // 寫入的檔案數
+	size?: number; // 壓縮檔大小 (bytes)
+	error?: Error;
+}
+
+// 已壓縮的圖片格式不再壓縮，只打包
+const STORED_EXTENSIONS = [".png", ".jpg", ".jpeg", ".gif"];
+
+/**
+ * 以 JSZip 產生 ZIP 壓縮檔（純 JS，不需要外部的 zip 程式）
+ */
+export default class ZipArchiveService {
+	/**
+	 * 寫入 ZIP 壓縮檔，先寫暫存檔再更名，中斷時不會留下不完整的壓縮檔
+	 * @param {string} filePath - 輸出的 .zip 檔案
+	 * @param {ZipEntry[]} entries - 壓縮檔內容
+	 * @returns {Promise<ZipResult>} 寫入結果
+	 */
+	async writeZip(filePath: string, entries: ZipEntry[]): Promise<ZipResult> {
+		const tempPath = `${filePath}.${process.pid}.tmp`;
+		try {
+			const zip = new JSZip();
+			for (const entry of entries) {
+				const stored = STORED_EXTENSIONS.includes(
+					path.extname(entry.name).toLowerCase()
+				);
+				zip.file(entry.name, entry.data, {
+					compression: stored ? "STORE" : "DEFLATE",
+				});
+			}
+
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			await new Promise<void>((resolve, reject) => {
+				zip
+					.generateNodeStream({
+						type: "nodebuffer",
+						streamFiles: true,
+						compressionOptions: { level: 6 },
+					})
+					.on("error", reject)
+					.pipe(fs.createWriteStream(tempPath))
+					.on("error", reject)
+					.on("finish", resolve);
+			});
+			fs.renameSync(tempPath, filePath);
+
+			return {
+				success: true,
+				filePath,
+				entryCount: entries.length,
+				size: fs.statSync(filePath).size,
+			};
+		} catch (error) {
+			return { success: false, filePath, error: error as Error };
+		} finally {
+			if (fs.existsSync(tempPath)) {
+				fs.unlinkSync(tempPath);
+			}
+		}
+	}
+}